@@ -0,0 +1,127 @@
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import * as cheerio from 'cheerio';
+import { describe, expect, it } from 'vitest';
+import { findAtsExtractor } from './atsExtractors';
+import type { JobFields } from './jobFields';
+
+// Saved postings, one per ATS. Workday and BambooHR pages are app shells, so theirs is the
+// response of the JSON endpoint the page loads.
+const readFixture = (fileName: string) =>
+  readFileSync(fileURLToPath(new URL(`./__fixtures__/ats/${fileName}`, import.meta.url)), 'utf8');
+
+const SAVED_PAGES: Array<{ ats: string; url: string; page: string; expected: JobFields; descriptionIncludes?: string }> = [
+  {
+    ats: 'Greenhouse',
+    url: 'https://boards.greenhouse.io/acme/jobs/4012345005',
+    page: 'greenhouse.html',
+    expected: { title: 'Senior Software Engineer', company: 'Acme', location: 'New York, NY' },
+  },
+  {
+    ats: 'Lever',
+    url: 'https://jobs.lever.co/acme/0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d',
+    page: 'lever.html',
+    expected: { title: 'Product Designer', company: 'Acme', location: 'London, United Kingdom', employmentType: 'Full-time' },
+  },
+  {
+    ats: 'Workday',
+    url: 'https://acme.wd5.myworkdayjobs.com/en-US/External/job/Remote-USA/Senior-Engineer_R-01234',
+    page: 'workday.json',
+    expected: {
+      title: 'Senior Engineer',
+      company: 'Acme Financial',
+      location: 'Remote, USA / New York, NY',
+      employmentType: 'Full-time',
+      workplaceType: 'remote',
+      postedDate: '2024-01-15',
+    },
+    descriptionIncludes: 'Build the services behind our mobile banking app.\nJava and Kotlin',
+  },
+  {
+    ats: 'Ashby',
+    url: 'https://jobs.ashbyhq.com/acme/1f2e3d4c-5b6a-4978-8a9b-0c1d2e3f4a5b',
+    page: 'ashby.html',
+    expected: {
+      title: 'Staff Data Engineer',
+      company: 'Acme',
+      location: 'Remote - US',
+      employmentType: 'Full-time',
+      workplaceType: 'remote',
+      postedDate: '2024-03-11',
+    },
+    descriptionIncludes: 'Acme is hiring a data engineer.\nOwn our ingestion pipelines',
+  },
+  {
+    ats: 'SmartRecruiters',
+    url: 'https://jobs.smartrecruiters.com/Acme/744000012345678-senior-backend-engineer',
+    page: 'smartrecruiters.html',
+    expected: {
+      title: 'Senior Backend Engineer',
+      company: 'Acme',
+      location: 'Berlin, Berlin, Germany',
+      employmentType: 'Full-time',
+      postedDate: '2024-02-20',
+    },
+  },
+  {
+    ats: 'BambooHR',
+    url: 'https://acme.bamboohr.com/careers/42',
+    page: 'bamboohr.json',
+    expected: {
+      title: 'Customer Success Manager',
+      location: 'Denver, Colorado, United States',
+      employmentType: 'Full-time',
+      workplaceType: 'hybrid',
+      postedDate: '2024-04-08',
+    },
+    descriptionIncludes: 'Help our customers get the most out of Acme.\nRun onboarding calls',
+  },
+  {
+    ats: 'iCIMS',
+    url: 'https://careers-acmehealth.icims.com/jobs/2024-1187/registered-nurse-icu/job',
+    page: 'icims.html',
+    expected: {
+      title: 'Registered Nurse - ICU',
+      location: 'US-TX-Austin',
+      employmentType: 'Full-time',
+      postedDate: '2024-04-02',
+    },
+    descriptionIncludes: 'Provide direct care to critically ill patients',
+  },
+];
+
+describe('ATS extractors', () => {
+  describe.each(SAVED_PAGES)('$ats', ({ ats, url, page, expected, descriptionIncludes }) => {
+    const postingUrl = new URL(url);
+    const extractor = findAtsExtractor(postingUrl);
+
+    it('is picked for the posting URL', () => {
+      expect(extractor?.name).toBe(ats);
+    });
+
+    it(`reads the fields from ${page}`, () => {
+      const saved = readFixture(page);
+      const fields = page.endsWith('.json')
+        ? extractor?.fromApi?.(JSON.parse(saved), postingUrl)
+        : extractor?.fromHtml?.(cheerio.load(saved), postingUrl);
+
+      expect(fields).toMatchObject(expected);
+      if (descriptionIncludes) {
+        expect(fields?.description).toContain(descriptionIncludes);
+      }
+    });
+  });
+
+  it('reads app-shell postings from the endpoint their page loads', () => {
+    const workdayUrl = new URL('https://acme.wd5.myworkdayjobs.com/en-US/External/job/Remote-USA/Senior-Engineer_R-01234/apply');
+    expect(findAtsExtractor(workdayUrl)?.getApiUrl?.(workdayUrl)).toBe(
+      'https://acme.wd5.myworkdayjobs.com/wday/cxs/acme/External/job/Remote-USA/Senior-Engineer_R-01234'
+    );
+    const bambooUrl = new URL('https://acme.bamboohr.com/careers/42');
+    expect(findAtsExtractor(bambooUrl)?.getApiUrl?.(bambooUrl)).toBe('https://acme.bamboohr.com/careers/42/detail');
+  });
+
+  it('returns null for sites without an extractor', () => {
+    expect(findAtsExtractor(new URL('https://www.example.com/careers/42'))).toBeNull();
+  });
+});
@@ -0,0 +1,410 @@
+/**
+ * Per-ATS job posting extractors for the job analyzer.
+ * Applicant tracking systems render postings in their own markup, and several (Workday,
+ * BambooHR, newer Ashby boards) serve an empty app shell that only fills in from a JSON
+ * endpoint. Each extractor reads what it can from the page and names the public endpoint
+ * to fall back to; fields neither yields come from the generic extraction in jobAnalysis.ts.
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import type { WorkplaceType } from '../../src/types';
+import {
+  JobFields,
+  JsonObject,
+  asArray,
+  asObject,
+  asText,
+  formatEmploymentType,
+  htmlToText,
+  joinLocation,
+  toIsoDate,
+  toSalary,
+  toSalaryPeriod,
+  toWorkplaceType,
+} from './jobFields';
+
+export interface AtsExtractor {
+  name: string;
+  /** Whether this extractor handles the URL's (lowercased) host */
+  matches: (host: string) => boolean;
+  /** Page to fetch instead of the posting URL, e.g. the framed content of a careers page */
+  getPageUrl?: (url: URL) => string;
+  /** Reads the posting from its page; fields the page doesn't show are left out */
+  fromHtml?: ($: CheerioAPI, url: URL) => JobFields;
+  /** Public JSON endpoint for the posting, or null if the URL doesn't identify one */
+  getApiUrl?: (url: URL) => string | null;
+  fromApi?: (data: unknown, url: URL) => JobFields;
+  /** Company as named in the URL, used when neither the page nor the API names it */
+  getBoardName?: (url: URL) => string | null;
+}
+
+/**
+ * Text of the first element matching any of the selectors
+ */
+const firstText = ($: CheerioAPI, ...selectors: string[]): string | undefined => {
+  for (const selector of selectors) {
+    const text = asText($(selector).first().text());
+    if (text) return text;
+  }
+  return undefined;
+};
+
+/**
+ * "Acme-Corp" / "acme_corp" → "Acme Corp"
+ */
+const humanizeSlug = (slug: string | undefined): string | null =>
+  slug ? slug.split(/[-_]+/).filter(Boolean).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ') : null;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const hostIs = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+const getSegments = (url: URL) => url.pathname.split('/').filter(Boolean).map(segment => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+});
+
+/**
+ * Board token and job ID of a Greenhouse posting URL
+ */
+function getGreenhousePosting(url: URL): { board: string; jobId: string } | null {
+  const segments = getSegments(url);
+  // boards.greenhouse.io/{board}/jobs/{id}, job-boards.greenhouse.io/{board}/jobs/{id}
+  const jobsIndex = segments.indexOf('jobs');
+  if (jobsIndex > 0 && /^\d+$/.test(segments[jobsIndex + 1] || '')) {
+    return { board: segments[jobsIndex - 1], jobId: segments[jobsIndex + 1] };
+  }
+  // boards.greenhouse.io/embed/job_app?for={board}&token={id}
+  const board = url.searchParams.get('for');
+  const jobId = url.searchParams.get('token');
+  return board && jobId && /^\d+$/.test(jobId) ? { board, jobId } : null;
+}
+
+const greenhouse: AtsExtractor = {
+  name: 'Greenhouse',
+  matches: host => hostIs(host, 'greenhouse.io'),
+  fromHtml: $ => ({
+    title: firstText($, 'h1.app-title', '.job__title h1', 'h1.section-header'),
+    // Classic boards show "at Acme" under the title
+    company: firstText($, '.company-name')?.replace(/^at\s+/i, ''),
+    location: firstText($, '.location', '.job__location'),
+  }),
+  getApiUrl: url => {
+    const posting = getGreenhousePosting(url);
+    return posting ? `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(posting.board)}/jobs/${posting.jobId}` : null;
+  },
+  fromApi: data => {
+    const job = asObject(data);
+    // Boards can add an "Employment Type" custom field
+    const employmentField = asArray(job.metadata)
+      .map(asObject)
+      .find(field => /employment|job type/i.test(asText(field.name) || ''));
+    const content = asText(job.content);
+    return {
+      title: asText(job.title),
+      company: asText(job.company_name),
+      location: asText(asObject(job.location).name),
+      employmentType: formatEmploymentType(employmentField?.value),
+      postedDate: toIsoDate(job.first_published) || toIsoDate(job.updated_at),
+      // content is HTML-escaped HTML
+      description: content ? htmlToText(cheerio.load(content).text()) : undefined,
+    };
+  },
+  getBoardName: url => humanizeSlug(getGreenhousePosting(url)?.board),
+};
+
+/**
+ * Site name and posting ID of a Lever posting URL: jobs.lever.co/{site}/{uuid}[/apply]
+ */
+function getLeverPosting(url: URL): { site: string; postingId: string } | null {
+  const [site, postingId] = getSegments(url);
+  return site && postingId && UUID_PATTERN.test(postingId) ? { site, postingId } : null;
+}
+
+const lever: AtsExtractor = {
+  name: 'Lever',
+  matches: host => hostIs(host, 'lever.co'),
+  fromHtml: $ => {
+    // The page title is "Acme - Software Engineer"
+    const pageTitle = asText($('title').first().text());
+    const separator = pageTitle?.indexOf(' - ') ?? -1;
+    return {
+      title: firstText($, '.posting-headline h2'),
+      company: asText($('.main-header-logo img').attr('alt')?.replace(/\s+logo$/i, ''))
+        || (separator > 0 ? pageTitle?.slice(0, separator) : undefined),
+      location: firstText($, '.posting-categories .location', '.sort-by-location'),
+      employmentType: formatEmploymentType(firstText($, '.posting-categories .commitment', '.sort-by-commitment')?.replace(/\/$/, '')),
+    };
+  },
+  getApiUrl: url => {
+    const posting = getLeverPosting(url);
+    if (!posting) return null;
+    const apiHost = url.hostname.toLowerCase().includes('.eu.') ? 'api.eu.lever.co' : 'api.lever.co';
+    return `https://${apiHost}/v0/postings/${encodeURIComponent(posting.site)}/${posting.postingId}`;
+  },
+  fromApi: data => {
+    const posting = asObject(data);
+    const categories = asObject(posting.categories);
+    const salaryRange = asObject(posting.salaryRange);
+    return {
+      title: asText(posting.text),
+      location: asText(categories.location) || asArray(categories.allLocations).map(asText).filter(Boolean).join(' / ') || undefined,
+      employmentType: formatEmploymentType(categories.commitment),
+      workplaceType: toWorkplaceType(posting.workplaceType),
+      // interval is e.g. "per-year-salary" or "per-hour-wage"
+      salary: toSalary(salaryRange.min, salaryRange.max, salaryRange.currency, toSalaryPeriod(salaryRange.interval)),
+      postedDate: toIsoDate(posting.createdAt),
+      description: asText(posting.descriptionPlain),
+    };
+  },
+  getBoardName: url => humanizeSlug(getLeverPosting(url)?.site),
+};
+
+const WORKDAY_LOCALE_PATTERN = /^[a-z]{2}(-[a-z]{2})?$/i;
+
+/**
+ * Reads Workday's relative "Posted 3 Days Ago" / "Posted Today"; "30+ Days Ago" is too vague to use
+ */
+function parseWorkdayPostedOn(postedOn: unknown): string | undefined {
+  const text = asText(postedOn)?.toLowerCase();
+  if (!text) return undefined;
+  let daysAgo: number;
+  if (text.includes('today')) {
+    daysAgo = 0;
+  } else if (text.includes('yesterday')) {
+    daysAgo = 1;
+  } else {
+    const match = text.match(/(\d+) days? ago/);
+    if (!match) return undefined;
+    daysAgo = Number(match[1]);
+  }
+  return toIsoDate(Date.now() - daysAgo * 24 * 60 * 60 * 1000);
+}
+
+const workday: AtsExtractor = {
+  name: 'Workday',
+  matches: host => hostIs(host, 'myworkdayjobs.com') || hostIs(host, 'myworkdaysite.com'),
+  // The page is an app shell; its structured data (if any) is read by the generic extraction
+  getApiUrl: url => {
+    // {tenant}.wd5.myworkdayjobs.com/[{locale}/]{site}/job/{location}/{Title}_{ReqId}[/apply]
+    // {tenant}.wd5.myworkdayjobs.com/[{locale}/]{site}/details/{Title}_{ReqId}
+    const tenant = url.hostname.toLowerCase().split('.')[0];
+    const segments = getSegments(url);
+    const start = segments.findIndex(segment => segment === 'job' || segment === 'details');
+    if (start < 1) return null;
+
+    const site = segments[start - 1];
+    if (WORKDAY_LOCALE_PATTERN.test(site)) return null;
+    const applyIndex = segments.indexOf('apply', start);
+    const jobPath = segments.slice(start + 1, applyIndex === -1 ? undefined : applyIndex);
+    if (jobPath.length === 0) return null;
+    return `https://${url.hostname}/wday/cxs/${tenant}/${encodeURIComponent(site)}/job/${jobPath.map(encodeURIComponent).join('/')}`;
+  },
+  fromApi: data => {
+    const response = asObject(data);
+    const info = asObject(response.jobPostingInfo);
+    const description = asText(info.jobDescription);
+    return {
+      title: asText(info.title),
+      company: asText(asObject(response.hiringOrganization).name),
+      location: [asText(info.location), ...asArray(info.additionalLocations).map(asText)].filter(Boolean).join(' / ') || undefined,
+      employmentType: formatEmploymentType(info.timeType),
+      workplaceType: toWorkplaceType(info.remoteType),
+      postedDate: toIsoDate(info.startDate) || parseWorkdayPostedOn(info.postedOn),
+      description: description ? htmlToText(description) : undefined,
+    };
+  },
+  getBoardName: url => humanizeSlug(url.hostname.split('.')[0]),
+};
+
+/**
+ * Organization and posting ID of an Ashby posting URL: jobs.ashbyhq.com/{org}/{uuid}[/application]
+ */
+function getAshbyPosting(url: URL): { organization: string; postingId: string } | null {
+  const [organization, postingId] = getSegments(url);
+  return organization && postingId && UUID_PATTERN.test(postingId) ? { organization, postingId } : null;
+}
+
+const ashby: AtsExtractor = {
+  name: 'Ashby',
+  matches: host => hostIs(host, 'ashbyhq.com'),
+  fromHtml: $ => {
+    // Job boards embed the posting as `window.__appData = {...};`
+    let appData: JsonObject = {};
+    $('script').each((_, element) => {
+      const match = $(element).html()?.match(/window\.__appData\s*=\s*(\{[\s\S]*\})\s*;?\s*$/);
+      if (match) {
+        try {
+          appData = asObject(JSON.parse(match[1]));
+        } catch {
+          // Not plain JSON; leave it to the job board API
+        }
+        return false;
+      }
+      return undefined;
+    });
+
+    const posting = asObject(appData.posting);
+    const description = asText(posting.descriptionHtml);
+    return {
+      title: asText(posting.title),
+      company: asText(asObject(appData.organization).name),
+      location: asText(posting.locationName),
+      employmentType: formatEmploymentType(posting.employmentType),
+      workplaceType: toWorkplaceType(posting.workplaceType) || (posting.isRemote === true ? 'remote' : undefined),
+      postedDate: toIsoDate(posting.publishedDate),
+      description: description ? htmlToText(description) : undefined,
+    };
+  },
+  getApiUrl: url => {
+    const posting = getAshbyPosting(url);
+    return posting ? `https://api.ashbyhq.com/posting-api/job-board/${encodeURIComponent(posting.organization)}?includeCompensation=true` : null;
+  },
+  fromApi: (data, url) => {
+    // The job board API lists every open posting of the organization
+    const postingId = getAshbyPosting(url)?.postingId.toLowerCase();
+    const job = asArray(asObject(data).jobs).map(asObject).find(item => asText(item.id)?.toLowerCase() === postingId) || {};
+    // Compensation tiers list salary, equity, bonus, ...; only the salary is pay
+    const salaryComponent = asArray(asObject(job.compensation).summaryComponents)
+      .map(asObject)
+      .find(component => /salary|hourly/i.test(asText(component.compensationType) || ''));
+    return {
+      title: asText(job.title),
+      location: asText(job.location),
+      employmentType: formatEmploymentType(job.employmentType),
+      workplaceType: toWorkplaceType(job.workplaceType) || (job.isRemote === true ? 'remote' : undefined),
+      salary: salaryComponent
+        ? toSalary(salaryComponent.minValue, salaryComponent.maxValue, salaryComponent.currencyCode, toSalaryPeriod(salaryComponent.interval))
+        : undefined,
+      postedDate: toIsoDate(job.publishedAt),
+      description: asText(job.descriptionPlain),
+    };
+  },
+  getBoardName: url => humanizeSlug(getAshbyPosting(url)?.organization),
+};
+
+/**
+ * Company identifier and posting ID of a SmartRecruiters URL: jobs.smartrecruiters.com/{Company}/{id}-{slug}
+ */
+function getSmartRecruitersPosting(url: URL): { company: string; postingId: string } | null {
+  const [company, posting] = getSegments(url);
+  const idMatch = posting?.match(/^(\d{9,})(?:-|$)/);
+  return company && idMatch ? { company, postingId: idMatch[1] } : null;
+}
+
+const smartRecruiters: AtsExtractor = {
+  name: 'SmartRecruiters',
+  matches: host => hostIs(host, 'smartrecruiters.com'),
+  fromHtml: $ => ({
+    title: firstText($, 'h1.job-title', 'h1[itemprop="title"]'),
+    // The organization's name may be a <meta content> rather than text
+    company: firstText($, '[itemprop="hiringOrganization"] :not(meta)[itemprop="name"]')
+      || asText($('[itemprop="hiringOrganization"] meta[itemprop="name"]').attr('content'))
+      || asText($('meta[itemprop="hiringOrganization"]').attr('content')),
+    location: asText($('spl-job-location').attr('formattedaddress')) || firstText($, '[itemprop="jobLocation"]'),
+    employmentType: formatEmploymentType(firstText($, '[itemprop="employmentType"]')),
+    postedDate: toIsoDate($('meta[itemprop="datePosted"]').attr('content')),
+  }),
+  getApiUrl: url => {
+    const posting = getSmartRecruitersPosting(url);
+    return posting ? `https://api.smartrecruiters.com/v1/companies/${encodeURIComponent(posting.company)}/postings/${posting.postingId}` : null;
+  },
+  fromApi: data => {
+    const posting = asObject(data);
+    const location = asObject(posting.location);
+    const description = asText(asObject(asObject(asObject(posting.jobAd).sections).jobDescription).text);
+    return {
+      title: asText(posting.name),
+      company: asText(asObject(posting.company).name),
+      location: asText(location.fullLocation) || joinLocation(location.city, location.region, location.country),
+      employmentType: formatEmploymentType(asObject(posting.typeOfEmployment).label),
+      workplaceType: location.hybrid === true ? 'hybrid' : location.remote === true ? 'remote' : undefined,
+      postedDate: toIsoDate(posting.releasedDate),
+      description: description ? htmlToText(description) : undefined,
+    };
+  },
+  getBoardName: url => humanizeSlug(getSmartRecruitersPosting(url)?.company),
+};
+
+/**
+ * Job opening ID of a BambooHR URL: {company}.bamboohr.com/careers/{id} or /jobs/view.php?id={id}
+ */
+function getBambooHrJobId(url: URL): string | null {
+  const segments = getSegments(url);
+  const careersIndex = segments.indexOf('careers');
+  const jobId = careersIndex === -1 ? url.searchParams.get('id') : segments[careersIndex + 1];
+  return jobId && /^\d+$/.test(jobId) ? jobId : null;
+}
+
+// locationType of a job opening
+const BAMBOOHR_LOCATION_TYPES: Record<string, WorkplaceType> = { '0': 'on-site', '1': 'remote', '2': 'hybrid' };
+
+const bambooHr: AtsExtractor = {
+  name: 'BambooHR',
+  matches: host => hostIs(host, 'bamboohr.com'),
+  // Careers pages are an app shell that loads the opening from the detail endpoint
+  getApiUrl: url => {
+    const jobId = getBambooHrJobId(url);
+    return jobId ? `https://${url.hostname}/careers/${jobId}/detail` : null;
+  },
+  fromApi: data => {
+    const opening = asObject(asObject(asObject(data).result).jobOpening);
+    const location = asObject(opening.location);
+    const description = asText(opening.description);
+    const workplaceType = BAMBOOHR_LOCATION_TYPES[asText(opening.locationType) || ''] || (opening.isRemote === true ? 'remote' : undefined);
+    return {
+      title: asText(opening.jobOpeningName),
+      location: joinLocation(location.city, location.state, location.addressCountry) || (workplaceType === 'remote' ? 'Remote' : undefined),
+      employmentType: formatEmploymentType(opening.employmentStatusLabel),
+      workplaceType,
+      postedDate: toIsoDate(opening.datePosted),
+      description: description ? htmlToText(description) : undefined,
+    };
+  },
+  getBoardName: url => humanizeSlug(url.hostname.split('.')[0]),
+};
+
+const icims: AtsExtractor = {
+  name: 'iCIMS',
+  matches: host => hostIs(host, 'icims.com'),
+  // The careers page frames the posting; in_iframe=1 returns the framed content itself
+  getPageUrl: url => {
+    const framed = new URL(url.href);
+    framed.searchParams.set('in_iframe', '1');
+    return framed.href;
+  },
+  fromHtml: $ => {
+    // Header fields are <dt>Label</dt><dd>Value</dd> pairs
+    const headerFields = new Map<string, string>();
+    $('.iCIMS_JobHeaderTag').each((_, element) => {
+      const label = asText($(element).find('dt').first().text())?.toLowerCase();
+      const value = asText($(element).find('dd').first().text());
+      if (label && value) headerFields.set(label, value);
+    });
+    const headerField = (...labels: string[]) => labels.map(label => headerFields.get(label)).find(Boolean);
+
+    return {
+      title: firstText($, '.iCIMS_Header h1', 'h1.iCIMS_Header', '.iCIMS_JobHeader h1'),
+      location: headerField('job locations', 'job location', 'location'),
+      employmentType: formatEmploymentType(headerField('position type', 'type', 'employment type')),
+      postedDate: toIsoDate(headerField('posted date', 'date posted')),
+      description: firstText($, '.iCIMS_JobContent', '.iCIMS_InfoMsg_Job'),
+    };
+  },
+  // careers-{company}.icims.com
+  getBoardName: url => humanizeSlug(url.hostname.split('.')[0].replace(/^(careers|jobs)-/, '')),
+};
+
+const extractors: AtsExtractor[] = [greenhouse, lever, workday, ashby, smartRecruiters, bambooHr, icims];
+
+/**
+ * Returns the extractor for a posting URL's ATS, or null for other sites
+ */
+export function findAtsExtractor(url: URL): AtsExtractor | null {
+  const host = url.hostname.toLowerCase();
+  return extractors.find(extractor => extractor.matches(host)) || null;
+}
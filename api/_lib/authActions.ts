@@ -0,0 +1,87 @@
+import { ApiRequest, ApiResult, getBodyObject, reply } from './http';
+import { clearSessionCookie, createSessionCookie, getSessionUser } from './session';
+import { authenticateUser, createUser, findInvite } from './userStore';
+
+/**
+ * Authentication endpoint (?action=signup|signin|logout|me|invite). Sign-in sets an HttpOnly session
+ * cookie that the other endpoints check. Public signup creates bidders; other roles need an invite,
+ * and the first admin signs up with the server's ADMIN_SETUP_TOKEN.
+ */
+export async function handleAuthRequest(request: ApiRequest): Promise<ApiResult> {
+  const { action } = request.query;
+  if (request.method !== 'POST' && !(request.method === 'GET' && action === 'me')) {
+    return reply(405, { success: false, error: 'Method not allowed' });
+  }
+
+  const body = getBodyObject(request);
+  const fullName = typeof body.fullName === 'string' ? body.fullName : '';
+  const email = typeof body.email === 'string' ? body.email : '';
+  const password = typeof body.password === 'string' ? body.password : '';
+
+  try {
+    switch (action) {
+      case 'signup': {
+        const inviteToken = typeof body.inviteToken === 'string' ? body.inviteToken : undefined;
+        const setupToken = typeof body.setupToken === 'string' ? body.setupToken : undefined;
+        if (!fullName.trim()) {
+          return reply(400, { success: false, error: 'Full name is required' });
+        }
+        if (!email.includes('@') || !email.includes('.')) {
+          return reply(400, { success: false, error: 'Please enter a valid email address' });
+        }
+        if (password.length < 6) {
+          return reply(400, { success: false, error: 'Password must be at least 6 characters' });
+        }
+
+        try {
+          const user = await createUser(fullName, email, password, { inviteToken, setupToken });
+          console.log(`[auth] Created ${user.role} account for ${user.email}`);
+          return reply(200, { success: true, data: user });
+        } catch (err) {
+          return reply(409, { success: false, error: (err as Error).message });
+        }
+      }
+
+      case 'signin': {
+        if (!email.trim() || !password) {
+          return reply(400, { success: false, error: 'Email and password are required' });
+        }
+        const session = await authenticateUser(email, password);
+        if (!session) {
+          return reply(401, { success: false, error: 'Invalid email or password' });
+        }
+        const { user, sessionVersion } = session;
+        return reply(200, { success: true, data: user }, { 'Set-Cookie': createSessionCookie(user.email, sessionVersion) });
+      }
+
+      case 'logout':
+        return reply(200, { success: true }, { 'Set-Cookie': clearSessionCookie() });
+
+      case 'me': {
+        const user = await getSessionUser(request);
+        if (!user) {
+          return reply(401, { success: false, error: 'Not signed in' });
+        }
+        return reply(200, { success: true, data: user });
+      }
+
+      case 'invite': {
+        // Lets the signup form show who an invite link is for and with which role
+        const invite = typeof body.token === 'string' ? await findInvite(body.token) : null;
+        if (!invite) {
+          return reply(404, { success: false, error: 'This invite link is invalid or has expired' });
+        }
+        return reply(200, { success: true, data: invite });
+      }
+
+      default:
+        return reply(400, {
+          success: false,
+          error: `Invalid action: "${action}". Available actions: signup, signin, logout, me, invite`,
+        });
+    }
+  } catch (err) {
+    console.error('Auth error:', err);
+    return reply(500, { success: false, error: (err as Error).message || 'Internal server error' });
+  }
+}
@@ -0,0 +1,124 @@
+import type { drive_v3, sheets_v4 } from 'googleapis';
+import type { ColumnMapping, ConnectionCheck, ConnectionCheckId, ConnectionTestResult } from '../../src/types';
+import { parseTabRange } from '../../src/utils/dateUtils';
+import { findBlockedWriteRanges } from '../../src/utils/schemaValidation';
+
+const CHECK_LABELS: Record<ConnectionCheckId, string> = {
+  auth: 'Credential',
+  access: 'Spreadsheet access',
+  edit: 'Edit rights',
+  tabs: 'Tab names',
+};
+
+// Tab names listed in a message before the rest are only counted
+const MAX_LISTED_TABS = 5;
+
+/**
+ * HTTP status of a failed Google API call, if it got a response
+ */
+function getErrorStatus(err: unknown): number | undefined {
+  const { code, response } = err as { code?: unknown; response?: { status?: number } };
+  const status = Number(response?.status ?? code);
+  return Number.isFinite(status) ? status : undefined;
+}
+
+const listTabs = (tabNames: string[]) =>
+  tabNames.slice(0, MAX_LISTED_TABS).join(', ') + (tabNames.length > MAX_LISTED_TABS ? ` and ${tabNames.length - MAX_LISTED_TABS} more` : '');
+
+/**
+ * Checks, in order, that a service account key can sign in, that the spreadsheet is shared
+ * with it, that it can write the Approved/Feedback columns and that the tabs are named as
+ * date ranges. Checks after a failed sign-in or spreadsheet lookup are reported as skipped.
+ */
+export async function testSheetsConnection(
+  auth: { getAccessToken(): Promise<unknown> },
+  sheets: sheets_v4.Sheets,
+  drive: drive_v3.Drive,
+  clientEmail: string,
+  spreadsheetId: string,
+  columnMapping: ColumnMapping
+): Promise<ConnectionTestResult> {
+  const checks: ConnectionCheck[] = [];
+  const addCheck = (id: ConnectionCheckId, status: ConnectionCheck['status'], message: string) => {
+    checks.push({ id, label: CHECK_LABELS[id], status, message });
+  };
+
+  const finish = (): ConnectionTestResult => {
+    for (const id of Object.keys(CHECK_LABELS) as ConnectionCheckId[]) {
+      if (!checks.some(check => check.id === id)) {
+        addCheck(id, 'skipped', 'Skipped because an earlier check failed');
+      }
+    }
+    let status: ConnectionTestResult['status'] = 'healthy';
+    if (checks.some(check => check.status === 'fail')) {
+      status = 'failing';
+    } else if (checks.some(check => check.status === 'warn')) {
+      status = 'warning';
+    }
+    return { status, clientEmail, checks, testedAt: new Date().toISOString() };
+  };
+
+  // A deleted or disabled key fails here, before any spreadsheet is involved
+  try {
+    await auth.getAccessToken();
+    addCheck('auth', 'pass', `Signed in as ${clientEmail}`);
+  } catch (err) {
+    addCheck('auth', 'fail', `The service account key could not sign in: ${(err as Error).message}`);
+    return finish();
+  }
+
+  let spreadsheet: sheets_v4.Schema$Spreadsheet;
+  try {
+    const response = await sheets.spreadsheets.get({
+      spreadsheetId,
+      fields: 'properties(title),sheets(properties(title),protectedRanges)',
+    });
+    spreadsheet = response.data;
+    addCheck('access', 'pass', `Can open "${spreadsheet.properties?.title || spreadsheetId}"`);
+  } catch (err) {
+    const status = getErrorStatus(err);
+    if (status === 404) {
+      addCheck('access', 'fail', 'Spreadsheet not found. Check the spreadsheet ID or URL.');
+    } else if (status === 403) {
+      addCheck('access', 'fail', `The spreadsheet is not shared with ${clientEmail}. Share it with this address as an Editor.`);
+    } else {
+      addCheck('access', 'fail', (err as Error).message);
+    }
+    return finish();
+  }
+
+  const sheetList = spreadsheet.sheets || [];
+  const tabNames = sheetList.map(sheet => sheet.properties?.title || '');
+
+  // Drive reports whether the account may edit the file, so nothing is written to find out
+  try {
+    const response = await drive.files.get({ fileId: spreadsheetId, fields: 'capabilities(canEdit)', supportsAllDrives: true });
+    const protectedTabs = sheetList
+      .filter(sheet => findBlockedWriteRanges(sheet.protectedRanges, columnMapping).length > 0)
+      .map(sheet => sheet.properties?.title || '');
+    const columns = `${columnMapping.approved} (Approved) and ${columnMapping.feedback} (Feedback)`;
+    if (!response.data.capabilities?.canEdit) {
+      addCheck('edit', 'fail', `${clientEmail} can only view this spreadsheet. Share it with this address as an Editor.`);
+    } else if (protectedTabs.length > 0) {
+      addCheck('edit', 'warn', `Columns ${columns} are protected in ${protectedTabs.length} tab(s): ${listTabs(protectedTabs)}`);
+    } else {
+      addCheck('edit', 'pass', `Can write columns ${columns}`);
+    }
+  } catch (err) {
+    // Usually the Drive API isn't enabled in the key's Google Cloud project
+    addCheck('edit', 'warn', `Could not check edit rights through the Google Drive API: ${(err as Error).message}`);
+  }
+
+  const invalidTabs = tabNames.filter(tabName => parseTabRange(tabName) === null);
+  if (tabNames.length === 0) {
+    addCheck('tabs', 'fail', 'The spreadsheet has no tabs');
+  } else if (invalidTabs.length === tabNames.length) {
+    addCheck('tabs', 'fail', 'No tab is named as a date range (MM/DD/YYYY-MM/DD/YYYY)');
+  } else if (invalidTabs.length > 0) {
+    addCheck('tabs', 'warn', `${invalidTabs.length} of ${tabNames.length} tab(s) are not named as date ranges: ${listTabs(invalidTabs)}`);
+  } else {
+    addCheck('tabs', 'pass', `All ${tabNames.length} tab(s) are named as date ranges`);
+  }
+
+  return finish();
+}
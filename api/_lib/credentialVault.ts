@@ -0,0 +1,163 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import type { CredentialSummary, User } from '../../src/types';
+import { readDataFile, updateDataFile } from './dataStore';
+
+/**
+ * Google service account key file contents
+ */
+export interface ServiceAccountKey {
+  type: 'service_account';
+  client_email: string;
+  private_key: string;
+  project_id?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Vault record: the key file encrypted with AES-256-GCM, plus non-secret details for display
+ */
+interface StoredCredential extends CredentialSummary {
+  // User who uploaded or imported the key; only they and admins may use, export or delete it.
+  // Missing on records stored before credentials had owners; admins claim those (see checkCredentialAccess).
+  ownerEmail?: string;
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+const VAULT_FILE = 'credentials.json';
+const CREDENTIAL_ID_PATTERN = /^cred_[0-9a-f]{32}$/;
+
+/**
+ * Derives the 256-bit vault key from CREDENTIALS_ENCRYPTION_KEY
+ */
+function getVaultKey(): Buffer {
+  const secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY is not set, so uploaded service account credentials cannot be stored or read');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+const toSummary = ({ id, clientEmail, projectId, createdAt }: StoredCredential): CredentialSummary => ({
+  id,
+  clientEmail,
+  projectId,
+  createdAt,
+});
+
+/**
+ * Checks that an uploaded value is a service account key file
+ */
+export function parseServiceAccountKey(value: unknown): ServiceAccountKey {
+  const key = value as Partial<ServiceAccountKey> | null;
+  if (!key || typeof key !== 'object' || key.type !== 'service_account') {
+    throw new Error('Invalid service account key. The file must contain a service_account type.');
+  }
+  if (typeof key.client_email !== 'string' || typeof key.private_key !== 'string') {
+    throw new Error('Invalid service account key. Missing required fields.');
+  }
+  return key as ServiceAccountKey;
+}
+
+/**
+ * Encrypts and stores a service account key owned by a user, returning its new credential ID
+ */
+export async function saveCredential(key: ServiceAccountKey, ownerEmail: string): Promise<CredentialSummary> {
+  const id = `cred_${randomBytes(16).toString('hex')}`;
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getVaultKey(), iv);
+  // Bind the ciphertext to its ID so records can't be swapped between IDs
+  cipher.setAAD(Buffer.from(id));
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(key), 'utf8'), cipher.final()]);
+
+  const record: StoredCredential = {
+    id,
+    clientEmail: key.client_email,
+    projectId: key.project_id,
+    createdAt: new Date().toISOString(),
+    ownerEmail,
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+
+  await updateDataFile<StoredCredential[], void>(VAULT_FILE, [], records => ({ data: [...records, record], result: undefined }));
+  return toSummary(record);
+}
+
+async function findRecord(id: string): Promise<StoredCredential | null> {
+  if (!CREDENTIAL_ID_PATTERN.test(id)) {
+    return null;
+  }
+  const records = await readDataFile<StoredCredential[]>(VAULT_FILE, []);
+  return records.find(record => record.id === id) || null;
+}
+
+/**
+ * Decrypts a stored service account key (null if the ID is unknown)
+ */
+export async function getCredential(id: string): Promise<ServiceAccountKey | null> {
+  const record = await findRecord(id);
+  if (!record) {
+    return null;
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', getVaultKey(), Buffer.from(record.iv, 'base64'));
+  decipher.setAAD(Buffer.from(record.id));
+  decipher.setAuthTag(Buffer.from(record.authTag, 'base64'));
+  try {
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(record.ciphertext, 'base64')), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf8')) as ServiceAccountKey;
+  } catch {
+    throw new Error('Stored credentials could not be decrypted. Was CREDENTIALS_ENCRYPTION_KEY changed?');
+  }
+}
+
+/**
+ * Returns the non-secret details of a stored credential (null if the ID is unknown)
+ */
+export async function getCredentialSummary(id: string): Promise<CredentialSummary | null> {
+  const record = await findRecord(id);
+  return record ? toSummary(record) : null;
+}
+
+export type CredentialAccess = 'allowed' | 'denied' | 'missing';
+
+/**
+ * Whether a user may use, export or delete a credential: its owner and admins may. A record
+ * stored before credentials had owners can only be used by admins, and the first admin to
+ * use it becomes its owner. Only that claim writes to the vault.
+ */
+export async function checkCredentialAccess(user: User, id: string): Promise<CredentialAccess> {
+  const record = await findRecord(id);
+  if (!record) {
+    return 'missing';
+  }
+  if (record.ownerEmail) {
+    return record.ownerEmail === user.email || user.role === 'admin' ? 'allowed' : 'denied';
+  }
+  if (user.role !== 'admin') {
+    return 'denied';
+  }
+
+  await updateDataFile<StoredCredential[], void>(VAULT_FILE, [], records => {
+    const unclaimed = records.find(item => item.id === id && !item.ownerEmail);
+    if (unclaimed) {
+      unclaimed.ownerEmail = user.email;
+      console.log(`[credentials] ${user.email} claimed credential ${id}, stored before credentials had owners`);
+    }
+    return { data: records, result: undefined };
+  });
+  return 'allowed';
+}
+
+/**
+ * Removes a stored credential; returns whether it existed
+ */
+export async function deleteCredential(id: string): Promise<boolean> {
+  return updateDataFile<StoredCredential[], boolean>(VAULT_FILE, [], records => {
+    const remaining = records.filter(record => record.id !== id);
+    return { data: remaining, result: remaining.length !== records.length };
+  });
+}
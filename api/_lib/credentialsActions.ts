@@ -0,0 +1,114 @@
+import type { Profile } from '../../src/types';
+import { ApiRequest, ApiResult, getBodyObject, reply } from './http';
+import { requireUser } from './session';
+import { checkCredentialAccess, deleteCredential, getCredentialSummary, parseServiceAccountKey, saveCredential } from './credentialVault';
+import { MIN_BUNDLE_PASSWORD_LENGTH, openProfileBundle, sealProfileBundle } from './profileBundle';
+import { isCredentialAssigned } from './profileStore';
+
+/**
+ * Credential vault endpoint (?action=upload|get|delete|exportBundle|importBundle). Service account
+ * keys are uploaded once and referenced by credential ID afterwards; the key itself is never
+ * returned, only inside a password-encrypted profile bundle. Each key belongs to the user who
+ * uploaded it: only they and admins can look it up, delete it or export it.
+ */
+export async function handleCredentialsRequest(request: ApiRequest): Promise<ApiResult> {
+  if (request.method !== 'POST') {
+    return reply(405, { success: false, error: 'Method not allowed' });
+  }
+
+  const { user, denied } = await requireUser(request);
+  if (denied) {
+    return denied;
+  }
+
+  const { action } = request.query;
+  const { credentials, credentialId, profiles, bundle, password } = getBodyObject(request);
+
+  try {
+    switch (action) {
+      case 'upload': {
+        let key;
+        try {
+          key = parseServiceAccountKey(credentials);
+        } catch (err) {
+          return reply(400, { success: false, error: (err as Error).message });
+        }
+        const summary = await saveCredential(key, user.email);
+        console.log(`[credentials] Stored credential ${summary.id} for ${summary.clientEmail}`);
+        return reply(200, { success: true, data: summary });
+      }
+
+      case 'get': {
+        if (typeof credentialId !== 'string') {
+          return reply(400, { success: false, error: 'credentialId is required' });
+        }
+        const access = await checkCredentialAccess(user, credentialId);
+        if (access === 'denied') {
+          return reply(403, { success: false, error: 'This credential belongs to another user' });
+        }
+        const summary = await getCredentialSummary(credentialId);
+        if (!summary) {
+          return reply(404, { success: false, error: 'Credential not found. Please upload the service account JSON file again.' });
+        }
+        return reply(200, { success: true, data: summary });
+      }
+
+      case 'delete': {
+        if (typeof credentialId !== 'string') {
+          return reply(400, { success: false, error: 'credentialId is required' });
+        }
+        const access = await checkCredentialAccess(user, credentialId);
+        if (access === 'denied') {
+          return reply(403, { success: false, error: 'This credential belongs to another user' });
+        }
+        // A key shared with bidders stays in the vault until its assigned profile is removed
+        if (access === 'allowed' && (await isCredentialAssigned(credentialId))) {
+          return reply(200, { success: true, data: { deleted: false, inUse: true } });
+        }
+        const deleted = access === 'allowed' && (await deleteCredential(credentialId));
+        return reply(200, { success: true, data: { deleted } });
+      }
+
+      case 'exportBundle': {
+        if (typeof password !== 'string' || password.length < MIN_BUNDLE_PASSWORD_LENGTH) {
+          return reply(400, { success: false, error: `The bundle password must be at least ${MIN_BUNDLE_PASSWORD_LENGTH} characters` });
+        }
+        if (!Array.isArray(profiles) || profiles.length === 0) {
+          return reply(400, { success: false, error: 'There are no profiles to export' });
+        }
+        const credentialIds = new Set((profiles as Profile[]).map(profile => profile.credentialId).filter((id): id is string => typeof id === 'string'));
+        for (const id of credentialIds) {
+          if ((await checkCredentialAccess(user, id)) === 'denied') {
+            return reply(403, { success: false, error: 'Only credentials you uploaded or imported can be exported' });
+          }
+        }
+        const result = await sealProfileBundle(profiles as Profile[], password);
+        console.log(`[credentials] ${user.email} exported ${profiles.length} profile(s)`);
+        return reply(200, { success: true, data: result });
+      }
+
+      case 'importBundle': {
+        if (typeof password !== 'string' || !password) {
+          return reply(400, { success: false, error: 'The bundle password is required' });
+        }
+        let imported;
+        try {
+          imported = await openProfileBundle(bundle, password, user.email);
+        } catch (err) {
+          return reply(400, { success: false, error: (err as Error).message });
+        }
+        console.log(`[credentials] ${user.email} imported ${imported.length} profile(s)`);
+        return reply(200, { success: true, data: imported });
+      }
+
+      default:
+        return reply(400, {
+          success: false,
+          error: `Invalid action: "${action}". Available actions: upload, get, delete, exportBundle, importBundle`,
+        });
+    }
+  } catch (err) {
+    console.error('Credential vault error:', err);
+    return reply(500, { success: false, error: (err as Error).message || 'Internal server error' });
+  }
+}
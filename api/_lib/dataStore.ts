@@ -0,0 +1,188 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import fetch from 'node-fetch';
+
+/**
+ * Where the data "files" (users, credential vault, assigned profiles, feedback batches) live.
+ * On a server with a disk they're JSON files in DATA_DIR. Serverless filesystems (Vercel) are
+ * read-only or wiped between invocations and not shared between instances, so there they're
+ * kept in a Redis database reached over its REST API (Upstash, or Vercel KV which sets
+ * KV_REST_API_URL / KV_REST_API_TOKEN).
+ */
+interface DataBackend {
+  read(fileName: string): Promise<string | null>;
+  write(fileName: string, text: string): Promise<void>;
+  // Runs a task while no other server instance holds the same lock (a data file's name, or another name)
+  withLock<R>(name: string, task: () => Promise<R>): Promise<R>;
+}
+
+/**
+ * Directory for server-side data files when they're kept on disk
+ */
+function getDataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), 'data');
+}
+
+const fileBackend: DataBackend = {
+  async read(fileName) {
+    try {
+      return await fs.readFile(path.join(getDataDir(), fileName), 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw err;
+    }
+  },
+
+  // Atomic (temp file + rename), so a crash never leaves a file half-written
+  async write(fileName, text) {
+    const dataDir = getDataDir();
+    await fs.mkdir(dataDir, { recursive: true, mode: 0o700 });
+    const filePath = path.join(dataDir, fileName);
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, text, { mode: 0o600 });
+    await fs.rename(tempPath, filePath);
+  },
+
+  // One process owns the directory, so the in-process queue in withDataLock is enough
+  withLock: (_name, task) => task(),
+};
+
+const KEY_PREFIX = 'bidlinktracker:';
+// A lock outlives a crashed instance by at most this long
+const LOCK_TTL_MS = 10_000;
+// While its task runs, the lock is extended this often, so a slow task (several Sheets calls)
+// never loses it to another instance
+const LOCK_RENEW_MS = 3_000;
+const LOCK_WAIT_MS = 15_000;
+const LOCK_RETRY_MS = 50;
+
+// Deletes the lock only if this instance still holds it
+const RELEASE_LOCK_SCRIPT = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end";
+// Extends the lock only if this instance still holds it
+const RENEW_LOCK_SCRIPT = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('pexpire', KEYS[1], ARGV[2]) else return 0 end";
+
+/**
+ * Runs one Redis command through the REST API
+ */
+async function runRedisCommand(url: string, token: string, command: Array<string | number>): Promise<unknown> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(command),
+    timeout: 10000,
+  });
+  const body = (await response.json().catch(() => ({}))) as { result?: unknown; error?: string };
+  if (!response.ok || body.error) {
+    throw new Error(`Data store request failed: ${body.error || `${response.status} ${response.statusText}`}`);
+  }
+  return body.result ?? null;
+}
+
+function createRedisBackend(url: string, token: string): DataBackend {
+  const run = (...command: Array<string | number>) => runRedisCommand(url, token, command);
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  return {
+    async read(fileName) {
+      const value = await run('GET', KEY_PREFIX + fileName);
+      return typeof value === 'string' ? value : null;
+    },
+
+    async write(fileName, text) {
+      await run('SET', KEY_PREFIX + fileName, text);
+    },
+
+    async withLock(name, task) {
+      const lockKey = `${KEY_PREFIX}lock:${name}`;
+      const token = randomBytes(16).toString('hex');
+      const deadline = Date.now() + LOCK_WAIT_MS;
+      while ((await run('SET', lockKey, token, 'NX', 'PX', LOCK_TTL_MS)) !== 'OK') {
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for the lock on ${name}`);
+        }
+        await sleep(LOCK_RETRY_MS);
+      }
+      const renewal = setInterval(() => {
+        run('EVAL', RENEW_LOCK_SCRIPT, 1, lockKey, token, LOCK_TTL_MS).catch(err => {
+          console.warn(`Could not extend the lock on ${name}: ${(err as Error).message}`);
+        });
+      }, LOCK_RENEW_MS);
+      try {
+        return await task();
+      } finally {
+        clearInterval(renewal);
+        await run('EVAL', RELEASE_LOCK_SCRIPT, 1, lockKey, token).catch(err => {
+          console.warn(`Could not release the lock on ${name}: ${(err as Error).message}`);
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Redis when its REST URL and token are configured; otherwise DATA_DIR, except on Vercel,
+ * where files written would be lost (so that's refused rather than silently losing data)
+ */
+function getBackend(): DataBackend {
+  const url = process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN;
+  if (url && token) {
+    return createRedisBackend(url.replace(/\/+$/, ''), token);
+  }
+  if (process.env.VERCEL) {
+    throw new Error('No persistent data store is configured. Connect a Vercel KV or Upstash Redis database (KV_REST_API_URL and KV_REST_API_TOKEN).');
+  }
+  return fileBackend;
+}
+
+/**
+ * Reads a JSON data file, returning the fallback when it doesn't exist yet
+ */
+export async function readDataFile<T>(fileName: string, fallback: T): Promise<T> {
+  const text = await getBackend().read(fileName);
+  return text === null ? fallback : (JSON.parse(text) as T);
+}
+
+/**
+ * Writes a JSON data file
+ */
+export async function writeDataFile(fileName: string, data: unknown): Promise<void> {
+  await getBackend().write(fileName, JSON.stringify(data, null, 2));
+}
+
+// Serializes tasks per lock name within this process
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs a task while no other task holds the same lock name, in this process or (when the data
+ * is in Redis) on any other server instance
+ */
+export async function withDataLock<R>(name: string, task: () => Promise<R>): Promise<R> {
+  const previous = locks.get(name) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(() => getBackend().withLock(name, task));
+  locks.set(name, next);
+  const forget = () => {
+    if (locks.get(name) === next) locks.delete(name);
+  };
+  next.then(forget, forget);
+  return next;
+}
+
+/**
+ * Reads a data file, applies an update and writes the result, one update per file at a time
+ * (across server instances too, when the data is in Redis)
+ */
+export async function updateDataFile<T, R>(
+  fileName: string,
+  fallback: T,
+  update: (data: T) => { data: T; result: R }
+): Promise<R> {
+  return withDataLock(fileName, async () => {
+    const { data, result } = update(await readDataFile(fileName, fallback));
+    await writeDataFile(fileName, data);
+    return result;
+  });
+}
@@ -0,0 +1,48 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { User } from '../../src/types';
+import { claimFeedbackBatch, recordFeedbackBatch } from './feedbackBatches';
+
+const manager: User = { name: 'Manager', email: 'manager@example.com', role: 'bid-manager' };
+const otherManager: User = { name: 'Other', email: 'other@example.com', role: 'bid-manager' };
+const admin: User = { name: 'Admin', email: 'admin@example.com', role: 'admin' };
+
+const CELLS = [{ range: "'Week 1'!I2", previous: '', written: 'Duplicate' }];
+
+describe('claimFeedbackBatch', () => {
+  let dataDir: string;
+
+  beforeAll(() => {
+    dataDir = mkdtempSync(path.join(tmpdir(), 'feedback-batches-'));
+    process.env.DATA_DIR = dataDir;
+  });
+
+  afterAll(() => {
+    delete process.env.DATA_DIR;
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('lets the Bid Manager who made a marking undo it, once', async () => {
+    const batchId = await recordFeedbackBatch('sheet-1', manager.email, CELLS);
+    expect(await claimFeedbackBatch(batchId, 'sheet-1', manager)).toMatchObject({ id: batchId, cells: CELLS });
+    expect(await claimFeedbackBatch(batchId, 'sheet-1', manager)).toBe('missing');
+  });
+
+  it("refuses another Bid Manager's marking and leaves it undoable", async () => {
+    const batchId = await recordFeedbackBatch('sheet-1', manager.email, CELLS);
+    expect(await claimFeedbackBatch(batchId, 'sheet-1', otherManager)).toBe('denied');
+    expect(await claimFeedbackBatch(batchId, 'sheet-1', manager)).toMatchObject({ id: batchId });
+  });
+
+  it('lets admins undo any marking', async () => {
+    const batchId = await recordFeedbackBatch('sheet-1', manager.email, CELLS);
+    expect(await claimFeedbackBatch(batchId, 'sheet-1', admin)).toMatchObject({ id: batchId });
+  });
+
+  it('only finds a batch through its own spreadsheet', async () => {
+    const batchId = await recordFeedbackBatch('sheet-1', manager.email, CELLS);
+    expect(await claimFeedbackBatch(batchId, 'sheet-2', manager)).toBe('missing');
+  });
+});
@@ -0,0 +1,92 @@
+import { randomBytes } from 'crypto';
+import type { User } from '../../src/types';
+import { updateDataFile } from './dataStore';
+
+const BATCHES_FILE = 'feedback-batches.json';
+
+// Batches kept per spreadsheet; older markings can no longer be undone
+const MAX_BATCHES_PER_SPREADSHEET = 20;
+
+export type CellValue = string | number | boolean;
+
+/**
+ * A cell written by duplicate marking, with the value it held before (formulas as entered)
+ */
+export interface FeedbackCellChange {
+  range: string; // e.g. "12/1/2025-12/7/2025!I14"
+  previous: CellValue; // '' for an empty cell
+  written: CellValue;
+}
+
+/**
+ * One batchUpdateFeedback/markDuplicates call, kept so it can be undone
+ */
+export interface FeedbackBatch {
+  id: string;
+  spreadsheetId: string;
+  createdBy: string;
+  createdAt: string;
+  cells: FeedbackCellChange[];
+  undoneAt?: string;
+}
+
+/**
+ * Stores the cells a marking changed and returns the batch ID used to undo it
+ */
+export async function recordFeedbackBatch(spreadsheetId: string, createdBy: string, cells: FeedbackCellChange[]): Promise<string> {
+  const batch: FeedbackBatch = {
+    id: `fb_${randomBytes(12).toString('hex')}`,
+    spreadsheetId,
+    createdBy,
+    createdAt: new Date().toISOString(),
+    cells,
+  };
+  return updateDataFile<FeedbackBatch[], string>(BATCHES_FILE, [], batches => {
+    const sameSpreadsheet = batches.filter(item => item.spreadsheetId === spreadsheetId);
+    const expired = new Set(sameSpreadsheet.slice(0, Math.max(0, sameSpreadsheet.length - MAX_BATCHES_PER_SPREADSHEET + 1)));
+    return { data: [...batches.filter(item => !expired.has(item)), batch], result: batch.id };
+  });
+}
+
+/**
+ * Whether a user may undo a batch: the user who wrote it and admins may
+ */
+export function mayUndoFeedbackBatch(batch: FeedbackBatch, user: User): boolean {
+  return batch.createdBy === user.email || user.role === 'admin';
+}
+
+/**
+ * Marks a batch of this spreadsheet as undone and returns it; 'missing' if it's unknown or was
+ * already undone, 'denied' if the user may not undo it. Claiming first stops two undo requests
+ * from restoring the same cells.
+ */
+export async function claimFeedbackBatch(
+  batchId: string,
+  spreadsheetId: string,
+  user: User
+): Promise<FeedbackBatch | 'missing' | 'denied'> {
+  return updateDataFile<FeedbackBatch[], FeedbackBatch | 'missing' | 'denied'>(BATCHES_FILE, [], batches => {
+    const batch = batches.find(item => item.id === batchId && item.spreadsheetId === spreadsheetId);
+    if (!batch || batch.undoneAt) {
+      return { data: batches, result: 'missing' };
+    }
+    if (!mayUndoFeedbackBatch(batch, user)) {
+      return { data: batches, result: 'denied' };
+    }
+    batch.undoneAt = new Date().toISOString();
+    return { data: batches, result: batch };
+  });
+}
+
+/**
+ * Makes a claimed batch undoable again (used when restoring its cells failed)
+ */
+export async function releaseFeedbackBatch(batchId: string): Promise<void> {
+  await updateDataFile<FeedbackBatch[], void>(BATCHES_FILE, [], batches => {
+    const batch = batches.find(item => item.id === batchId);
+    if (batch) {
+      delete batch.undoneAt;
+    }
+    return { data: batches, result: undefined };
+  });
+}
@@ -0,0 +1,110 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+/**
+ * Framework-neutral request passed to the shared API handlers, so the Vercel functions
+ * and the local dev server (server.ts) run exactly the same code
+ */
+export interface ApiRequest {
+  method?: string;
+  query: Record<string, string | string[] | undefined>;
+  headers: Record<string, string | string[] | undefined>;
+  body: unknown;
+}
+
+/**
+ * Response produced by a shared API handler
+ */
+export interface ApiResult {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string | string[]>;
+  // Written chunk by chunk instead of body (e.g. NDJSON sent as each result is ready)
+  stream?: AsyncIterable<string>;
+}
+
+export type ApiHandler = (request: ApiRequest) => Promise<ApiResult>;
+
+/**
+ * Builds a JSON response
+ */
+export function reply(status: number, body: unknown, headers?: ApiResult['headers']): ApiResult {
+  return headers ? { status, body, headers } : { status, body };
+}
+
+/**
+ * Builds a newline-delimited JSON response whose lines are sent as the iterable yields them
+ */
+export function streamReply(status: number, lines: AsyncIterable<unknown>): ApiResult {
+  async function* toChunks() {
+    for await (const line of lines) {
+      yield `${JSON.stringify(line)}\n`;
+    }
+  }
+  return { status, body: null, headers: { 'Content-Type': 'application/x-ndjson; charset=utf-8' }, stream: toChunks() };
+}
+
+/**
+ * Reads a JSON request body as a plain object ({} when missing or not an object)
+ */
+export function getBodyObject(request: ApiRequest): Record<string, unknown> {
+  const { body } = request;
+  return body && typeof body === 'object' && !Array.isArray(body) ? (body as Record<string, unknown>) : {};
+}
+
+/**
+ * Origins other than the app's own that may call the API with the session cookie
+ * (CORS_ALLOWED_ORIGINS, comma-separated, e.g. "https://admin.example.com")
+ */
+function getAllowedOrigins(): string[] {
+  return (process.env.CORS_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Adapts a shared handler to a Vercel function (adds CORS headers for allowed origins,
+ * answers preflight requests and turns unhandled errors into a JSON 500)
+ */
+export function createVercelHandler(handler: ApiHandler) {
+  return async (req: VercelRequest, res: VercelResponse) => {
+    // The app calls its API from the same origin; cookies are only sent cross-origin to listed
+    // origins, since a credentialed response can't use "*"
+    const origin = typeof req.headers.origin === 'string' ? req.headers.origin : '';
+    res.setHeader('Vary', 'Origin');
+    if (origin && getAllowedOrigins().includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Access-Control-Allow-Credentials', 'true');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.status(200).end();
+      return;
+    }
+
+    try {
+      const result = await handler({ method: req.method, query: req.query, headers: req.headers, body: req.body });
+      for (const [name, value] of Object.entries(result.headers || {})) {
+        res.setHeader(name, value);
+      }
+      if (result.stream) {
+        res.status(result.status);
+        for await (const chunk of result.stream) {
+          res.write(chunk);
+        }
+        res.end();
+        return;
+      }
+      res.status(result.status).json(result.body);
+    } catch (err) {
+      console.error(`Unhandled error in ${req.url}:`, err);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json({ success: false, error: (err as Error).message || 'Internal server error' });
+    }
+  };
+}
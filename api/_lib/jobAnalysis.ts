@@ -0,0 +1,404 @@
+import fetch from 'node-fetch';
+import * as cheerio from 'cheerio';
+import { ApiRequest, ApiResult, getBodyObject, reply, streamReply } from './http';
+import { requireUser } from './session';
+import { AtsExtractor, findAtsExtractor } from './atsExtractors';
+import { JobFields, mergeJobFields } from './jobFields';
+import { findJobPostingFields } from './jsonLd';
+import { inferJobDetails } from './jobDetails';
+import { normalizeUrl } from '../../src/utils/duplicateChecker';
+import type { JobInfo } from '../../src/types';
+
+const HTML_ACCEPT = 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8';
+
+/**
+ * Extracts job information from HTML content
+ * Supports multiple job board formats
+ */
+function extractJobInfo(html: string, url: string): JobInfo {
+  const $ = cheerio.load(html);
+  // Structured data (JSON-LD JobPosting) first; the selectors below only fill what it lacks
+  const jobInfo: JobInfo = { ...findJobPostingFields($), url };
+
+  // Try to detect job board type from URL
+  const urlLower = url.toLowerCase();
+  
+  // Welcome to the Jungle
+  if (urlLower.includes('welcometothejungle.com')) {
+    if (!jobInfo.title) {
+      jobInfo.title = $('h1').first().text().trim() || 
+                     $('[data-testid="job-title"]').text().trim() ||
+                     $('.sc-').first().text().trim();
+    }
+    if (!jobInfo.company) {
+      jobInfo.company = $('[data-testid="company-name"]').text().trim() ||
+                       $('a[href*="/companies/"]').first().text().trim();
+    }
+    if (!jobInfo.location) {
+      jobInfo.location = $('[data-testid="job-location"]').text().trim() ||
+                        $('[data-testid="job-locations"]').text().trim();
+    }
+    if (!jobInfo.description) {
+      jobInfo.description = $('[data-testid="job-description"]').text().trim() || undefined;
+    }
+  }
+  
+  // LinkedIn
+  else if (urlLower.includes('linkedin.com/jobs')) {
+    if (!jobInfo.title) {
+      jobInfo.title = $('h1.topcard__title').text().trim() ||
+                     $('.job-details-jobs-unified-top-card__job-title').text().trim();
+    }
+    if (!jobInfo.company) {
+      jobInfo.company = $('.topcard__org-name-link').text().trim() ||
+                       $('.job-details-jobs-unified-top-card__company-name a').text().trim();
+    }
+    if (!jobInfo.location) {
+      jobInfo.location = $('.topcard__flavor--bullet').text().trim() ||
+                        $('.job-details-jobs-unified-top-card__primary-description-without-tagline').text().trim();
+    }
+  }
+  
+  // Indeed
+  else if (urlLower.includes('indeed.com')) {
+    if (!jobInfo.title) {
+      jobInfo.title = $('h2.jobTitle').text().trim() ||
+                     $('[data-testid="job-title"]').text().trim();
+    }
+    if (!jobInfo.company) {
+      jobInfo.company = $('[data-testid="inlineHeader-companyName"]').text().trim() ||
+                       $('.companyName').text().trim();
+    }
+    if (!jobInfo.location) {
+      jobInfo.location = $('[data-testid="job-location"]').text().trim() ||
+                        $('.jobLocation').text().trim();
+    }
+  }
+  
+  // Generic fallback - try to find common patterns
+  else {
+    if (!jobInfo.title) {
+      jobInfo.title = $('h1').first().text().trim() ||
+                     $('meta[property="og:title"]').attr('content') ||
+                     $('title').text().trim();
+    }
+    if (!jobInfo.company) {
+      jobInfo.company = $('meta[property="og:site_name"]').attr('content') ||
+                       $('[itemprop="hiringOrganization"]').text().trim();
+    }
+    if (!jobInfo.location) {
+      jobInfo.location = $('[itemprop="jobLocation"]').text().trim();
+    }
+  }
+
+  return withNormalizedContent(jobInfo);
+}
+
+/**
+ * Sets the title|company|location string used for content comparison
+ */
+function withNormalizedContent(jobInfo: JobInfo): JobInfo {
+  const parts: string[] = [];
+  if (jobInfo.title) parts.push(jobInfo.title.toLowerCase().trim());
+  if (jobInfo.company) parts.push(jobInfo.company.toLowerCase().trim());
+  if (jobInfo.location) parts.push(jobInfo.location.toLowerCase().trim());
+  return { ...jobInfo, normalizedContent: parts.join('|') };
+}
+
+/**
+ * Fetches a page or API response as text (10 second timeout)
+ */
+async function fetchText(url: string, accept: string): Promise<string> {
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+      'Accept': accept,
+      'Accept-Language': 'en-US,en;q=0.5',
+    },
+    timeout: 10000, // 10 second timeout
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch URL: ${response.status} ${response.statusText}`);
+  }
+
+  return response.text();
+}
+
+/**
+ * Reads a posting hosted by an ATS: its page first, then the ATS's JSON endpoint for any of
+ * title/company/location the page lacks, then the generic extraction for what's still missing
+ */
+async function extractAtsJobInfo(extractor: AtsExtractor, url: URL): Promise<JobInfo> {
+  let html: string | null = null;
+  let fields: JobFields = {};
+  let pageError: Error | null = null;
+  try {
+    html = await fetchText(extractor.getPageUrl?.(url) || url.href, HTML_ACCEPT);
+    fields = extractor.fromHtml?.(cheerio.load(html), url) || {};
+  } catch (err) {
+    // Postings with a JSON endpoint can still be read without their page
+    pageError = err as Error;
+    console.warn(`Could not read the ${extractor.name} page, trying its API: ${pageError.message}`);
+  }
+
+  const apiUrl = extractor.getApiUrl?.(url);
+  if (apiUrl && extractor.fromApi && (!fields.title || !fields.company || !fields.location)) {
+    try {
+      const data: unknown = JSON.parse(await fetchText(apiUrl, 'application/json'));
+      fields = mergeJobFields(fields, extractor.fromApi(data, url));
+    } catch (err) {
+      console.warn(`Could not read the ${extractor.name} API (${apiUrl}): ${(err as Error).message}`);
+    }
+  }
+
+  if (!html && !fields.title && pageError) {
+    throw pageError;
+  }
+
+  if (html) {
+    fields = mergeJobFields(fields, extractJobInfo(html, url.href));
+  }
+  if (!fields.company) {
+    fields.company = extractor.getBoardName?.(url) || undefined;
+  }
+
+  return withNormalizedContent({ ...fields, source: extractor.name, url: url.href });
+}
+
+// Pages fetched at once from one host (job boards throttle bursts) and in total per instance
+const MAX_REQUESTS_PER_HOST = 2;
+const MAX_CONCURRENT_REQUESTS = 8;
+
+// URLs accepted by one batch request, and how long it may run: functions are stopped at their
+// maxDuration (60s in vercel.json), so URLs still unfinished by then are reported as timed out
+const MAX_BATCH_URLS = 25;
+const BATCH_TIME_LIMIT_MS = 50_000;
+
+// Analyses are reused for this long, keyed by canonical URL (per warm server instance)
+const CACHE_TTL_MS = 30 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 500;
+
+const analysisCache = new Map<string, { jobInfo: JobInfo; expiresAt: number }>();
+// Analyses in progress, so the same posting requested twice at once is only fetched once
+const pendingAnalyses = new Map<string, Promise<JobInfo>>();
+
+let activeRequests = 0;
+const activeRequestsByHost = new Map<string, number>();
+const waitingRequests: Array<{ host: string; start: () => void }> = [];
+
+/**
+ * Starts waiting requests, oldest first, as far as the per-host and total limits allow
+ */
+function startWaitingRequests(): void {
+  for (let i = 0; i < waitingRequests.length && activeRequests < MAX_CONCURRENT_REQUESTS; ) {
+    const { host, start } = waitingRequests[i];
+    if ((activeRequestsByHost.get(host) || 0) >= MAX_REQUESTS_PER_HOST) {
+      i++;
+      continue;
+    }
+    waitingRequests.splice(i, 1);
+    activeRequests++;
+    activeRequestsByHost.set(host, (activeRequestsByHost.get(host) || 0) + 1);
+    start();
+  }
+}
+
+/**
+ * Runs a task once the host has a free slot
+ */
+async function withHostLimit<T>(host: string, task: () => Promise<T>): Promise<T> {
+  await new Promise<void>(resolve => {
+    waitingRequests.push({ host, start: resolve });
+    startWaitingRequests();
+  });
+  try {
+    return await task();
+  } finally {
+    activeRequests--;
+    const remaining = (activeRequestsByHost.get(host) || 1) - 1;
+    if (remaining > 0) {
+      activeRequestsByHost.set(host, remaining);
+    } else {
+      activeRequestsByHost.delete(host);
+    }
+    startWaitingRequests();
+  }
+}
+
+/**
+ * Checks a submitted URL; returns the parsed URL or the reason it's rejected
+ */
+function parseJobUrl(url: unknown): { parsedUrl: URL } | { error: string } {
+  if (!url || typeof url !== 'string') {
+    return { error: 'URL is required' };
+  }
+
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    return { error: 'Invalid URL format' };
+  }
+
+  // Only allow http/https URLs
+  if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
+    return { error: 'Only HTTP/HTTPS URLs are allowed' };
+  }
+  return { parsedUrl };
+}
+
+/**
+ * Fetches and extracts one posting (no caching)
+ */
+async function extractPosting(parsedUrl: URL): Promise<JobInfo> {
+  const url = parsedUrl.href;
+  console.log(`Analyzing job URL: ${url}`);
+
+  // Greenhouse, Lever, Workday, ... have their own extractors; other pages are parsed generically
+  const extractor = findAtsExtractor(parsedUrl);
+  const extracted = extractor
+    ? await extractAtsJobInfo(extractor, parsedUrl)
+    : extractJobInfo(await fetchText(url, HTML_ACCEPT), url);
+  // Pay, workplace type, employment type and seniority the structured data left out come from the text
+  const jobInfo = { ...extracted, ...inferJobDetails(extracted) };
+
+  console.log(`Extracted job info:`, {
+    source: jobInfo.source,
+    title: jobInfo.title,
+    company: jobInfo.company,
+    location: jobInfo.location,
+    employmentType: jobInfo.employmentType,
+    workplaceType: jobInfo.workplaceType,
+    seniority: jobInfo.seniority,
+    salary: jobInfo.salary,
+    postedDate: jobInfo.postedDate,
+    hasDescription: !!jobInfo.description,
+  });
+  return jobInfo;
+}
+
+/**
+ * Analyzes a posting, reusing a cached or in-progress analysis of the same canonical URL
+ * (so tracking parameters or another URL shape of the same job don't fetch it again)
+ */
+async function analyzePosting(parsedUrl: URL): Promise<{ jobInfo: JobInfo; cached: boolean }> {
+  const key = normalizeUrl(parsedUrl.href) || parsedUrl.href;
+  const cachedEntry = analysisCache.get(key);
+  if (cachedEntry && cachedEntry.expiresAt > Date.now()) {
+    return { jobInfo: { ...cachedEntry.jobInfo, url: parsedUrl.href }, cached: true };
+  }
+  analysisCache.delete(key);
+
+  let pending = pendingAnalyses.get(key);
+  if (!pending) {
+    pending = withHostLimit(parsedUrl.hostname.toLowerCase(), () => extractPosting(parsedUrl))
+      .then(jobInfo => {
+        // Only pages that yielded a title are cached, so failed or blocked fetches are retried
+        if (jobInfo.title) {
+          analysisCache.set(key, { jobInfo, expiresAt: Date.now() + CACHE_TTL_MS });
+          // Maps iterate in insertion order, so the first key is the oldest entry
+          while (analysisCache.size > MAX_CACHE_ENTRIES) {
+            analysisCache.delete(analysisCache.keys().next().value as string);
+          }
+        }
+        return jobInfo;
+      })
+      .finally(() => pendingAnalyses.delete(key));
+    pendingAnalyses.set(key, pending);
+  }
+
+  const jobInfo = await pending;
+  return { jobInfo: { ...jobInfo, url: parsedUrl.href }, cached: false };
+}
+
+/**
+ * One line per URL, in the order the analyses finish: { url, success, jobInfo, cached } or
+ * { url, success: false, error }, with timedOut: true for URLs not finished within
+ * BATCH_TIME_LIMIT_MS (their analyses go on and are cached, so sending them again is cheap).
+ * A URL listed twice is reported twice.
+ */
+async function* analyzeBatch(urls: unknown[]): AsyncGenerator<Record<string, unknown>> {
+  const pending = new Map<number, Promise<{ index: number; line: Record<string, unknown> }>>();
+  urls.forEach((url, index) => {
+    const analysis = (async () => {
+      const parsed = parseJobUrl(url);
+      if ('error' in parsed) {
+        return { url, success: false, error: parsed.error };
+      }
+      try {
+        const { jobInfo, cached } = await analyzePosting(parsed.parsedUrl);
+        return { url, success: true, jobInfo, cached };
+      } catch (err) {
+        console.error(`Error analyzing job URL ${String(url)}:`, err);
+        return { url, success: false, error: (err as Error).message || 'Failed to analyze job URL' };
+      }
+    })();
+    pending.set(index, analysis.then(line => ({ index, line })));
+  });
+
+  const deadline = Date.now() + BATCH_TIME_LIMIT_MS;
+  while (pending.size > 0) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeLimit = new Promise<null>(resolve => {
+      timer = setTimeout(() => resolve(null), Math.max(deadline - Date.now(), 0));
+    });
+    const next = await Promise.race([...pending.values(), timeLimit]);
+    clearTimeout(timer);
+    if (!next) {
+      for (const index of pending.keys()) {
+        yield { url: urls[index], success: false, timedOut: true, error: 'Not analyzed within the time limit; send it again' };
+      }
+      return;
+    }
+    pending.delete(next.index);
+    yield next.line;
+  }
+}
+
+/**
+ * Fetches a job posting page and extracts its title, company, location and description.
+ * With { urls: [...] } instead of { url }, analyzes up to MAX_BATCH_URLS postings and streams
+ * one NDJSON line per URL as each finishes.
+ */
+export async function handleAnalyzeJobRequest(request: ApiRequest): Promise<ApiResult> {
+  if (request.method !== 'POST') {
+    return reply(405, { success: false, error: 'Method not allowed' });
+  }
+
+  const { denied } = await requireUser(request);
+  if (denied) {
+    return denied;
+  }
+
+  const { url, urls } = getBodyObject(request);
+
+  if (urls !== undefined) {
+    if (!Array.isArray(urls) || urls.length === 0) {
+      return reply(400, { success: false, error: 'urls must be a non-empty list' });
+    }
+    if (urls.length > MAX_BATCH_URLS) {
+      return reply(400, { success: false, error: `At most ${MAX_BATCH_URLS} URLs can be analyzed per request` });
+    }
+    return streamReply(200, analyzeBatch(urls));
+  }
+
+  const parsed = parseJobUrl(url);
+  if ('error' in parsed) {
+    return reply(400, { success: false, error: parsed.error });
+  }
+
+  try {
+    const { jobInfo } = await analyzePosting(parsed.parsedUrl);
+    return reply(200, {
+      success: true,
+      jobInfo,
+    });
+  } catch (error) {
+    console.error('Error analyzing job URL:', error);
+    return reply(500, {
+      success: false,
+      error: (error as Error).message || 'Failed to analyze job URL',
+    });
+  }
+}
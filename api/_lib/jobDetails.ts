@@ -0,0 +1,173 @@
+/**
+ * Job details bidders choose postings by (pay range, remote/hybrid/on-site, employment type,
+ * seniority), read from a posting's text when its structured data doesn't give them.
+ */
+
+import type { JobSalary, SeniorityLevel, WorkplaceType } from '../../src/types';
+import { JobFields, mergeJobFields, toSalaryPeriod } from './jobFields';
+
+const CURRENCY = String.raw`(?:US\$|CA?\$|AU?\$|[$€£]|USD|EUR|GBP|CAD|AUD)`;
+const AMOUNT = String.raw`(\d{1,3}(?:[,.]\d{3})+|\d+(?:\.\d+)?)\s*([kK])?`;
+const PERIOD = String.raw`(?:\s*(?:\/|per|an|a)\s*(hour|hr|year|yr|annum|month|mo|week|day)\b)?`;
+
+// "$120,000 - $150,000", "€50k–60k per year", "USD 100,000 to 130,000", "$45/hr"
+// Groups: 1 currency, 2 min, 3 min "k", 4 max, 5 max "k", 6 currency code after, 7 period
+const SALARY_PATTERN = new RegExp(
+  `(${CURRENCY})\\s?${AMOUNT}(?:\\s*(?:-|–|—|to)\\s*${CURRENCY}?\\s?${AMOUNT})?(?:\\s*(USD|EUR|GBP|CAD|AUD)\\b)?${PERIOD}`,
+  'gi'
+);
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  'US$': 'USD',
+  'C$': 'CAD',
+  'CA$': 'CAD',
+  'A$': 'AUD',
+  'AU$': 'AUD',
+  '€': 'EUR',
+  '£': 'GBP',
+};
+
+/**
+ * "120,000" / "120.000" → 120000, "45.50" → 45.5
+ */
+function parseAmount(value: string, thousands: boolean): number {
+  const amount = /^\d{1,3}([,.]\d{3})+$/.test(value) ? Number(value.replace(/[,.]/g, '')) : Number(value);
+  return thousands ? amount * 1000 : amount;
+}
+
+/**
+ * First pay range in a posting's text. A single amount only counts when a period follows it,
+ * so "$50 gift card" or "a $2B company" aren't read as pay.
+ */
+export function parseSalaryText(text: string): JobSalary | undefined {
+  for (const match of text.matchAll(SALARY_PATTERN)) {
+    const [matched, symbol, minText, minK, maxText, maxK, code, periodText] = match;
+    const following = text.slice((match.index ?? 0) + matched.length, (match.index ?? 0) + matched.length + 40);
+    if (/^\s*(b|bn|m|mm|million|billion)\b/i.test(following)) continue;
+
+    let min = parseAmount(minText, !!minK);
+    const max = maxText ? parseAmount(maxText, !!maxK) : min;
+    // "$120-150k": the "k" applies to both ends
+    if (maxK && !minK && min < 1000) min *= 1000;
+
+    let period = toSalaryPeriod(periodText);
+    if (!period) {
+      const spelledOut = following.match(/^\s*(?:\(|,)?\s*(hourly|annually|annual|yearly|monthly|weekly|daily|per annum)\b/i);
+      period = spelledOut ? toSalaryPeriod(spelledOut[1]) : undefined;
+    }
+    if (!period && !maxText) continue;
+    // An unlabelled range is a yearly salary unless it's clearly an hourly rate
+    period = period || (max >= 1000 ? 'year' : 'hour');
+    if (!(min > 0) || max < min || (period === 'hour' && max < 7)) continue;
+
+    return {
+      min,
+      max,
+      currency: (code || CURRENCY_SYMBOLS[symbol.toUpperCase()] || symbol).toUpperCase(),
+      period,
+    };
+  }
+  return undefined;
+}
+
+// Locations and titles name it directly ("Remote - US", "Hybrid (NYC)")
+const SHORT_TEXT_WORKPLACE: Array<[RegExp, WorkplaceType]> = [
+  [/\bhybrid\b/i, 'hybrid'],
+  [/\b(remote|anywhere|work from home|wfh)\b/i, 'remote'],
+  [/\b(on[\s-]?site|in[\s-]office)\b/i, 'on-site'],
+];
+
+// Descriptions mention "remote" in passing ("remote collaboration tools"), so only phrases count
+const DESCRIPTION_WORKPLACE: Array<[RegExp, WorkplaceType]> = [
+  [/\bhybrid\b/i, 'hybrid'],
+  [/\b(fully remote|100% remote|remote[\s-]first|remote[\s-](?:position|role|job|opportunity)|work from (?:home|anywhere)|this (?:is a |role is )?remote)\b/i, 'remote'],
+  [/\b(on[\s-]?site|in[\s-]office|in[\s-]person)\b/i, 'on-site'],
+];
+
+export function detectWorkplaceType(fields: JobFields): WorkplaceType | undefined {
+  const shortText = [fields.location, fields.title].filter(Boolean).join(' ');
+  const match = SHORT_TEXT_WORKPLACE.find(([pattern]) => pattern.test(shortText))
+    || DESCRIPTION_WORKPLACE.find(([pattern]) => pattern.test(fields.description || ''));
+  return match?.[1];
+}
+
+const TITLE_EMPLOYMENT_TYPES: Array<[RegExp, string]> = [
+  [/\b(intern|internship|co-?op)\b/i, 'Internship'],
+  [/\b(contract|contractor|freelance)\b/i, 'Contract'],
+  [/\bpart[\s-]?time\b/i, 'Part-time'],
+  [/\btemporary\b/i, 'Temporary'],
+  [/\bfull[\s-]?time\b/i, 'Full-time'],
+];
+
+const DESCRIPTION_EMPLOYMENT_TYPES: Array<[RegExp, string]> = [
+  [/\bfull[\s-]?time\b/i, 'Full-time'],
+  [/\bpart[\s-]?time\b/i, 'Part-time'],
+  [/\b(contract(?:or)? (?:role|position|basis|assignment)|fixed[\s-]term)\b/i, 'Contract'],
+  [/\binternship\b/i, 'Internship'],
+  [/\btemporary (?:role|position|assignment)\b/i, 'Temporary'],
+];
+
+export function detectEmploymentType(fields: JobFields): string | undefined {
+  const titleMatch = TITLE_EMPLOYMENT_TYPES.find(([pattern]) => pattern.test(fields.title || ''));
+  if (titleMatch) return titleMatch[1];
+
+  // The type mentioned first in the description
+  const description = fields.description || '';
+  let first: { index: number; type: string } | undefined;
+  for (const [pattern, type] of DESCRIPTION_EMPLOYMENT_TYPES) {
+    const index = description.search(pattern);
+    if (index !== -1 && (!first || index < first.index)) {
+      first = { index, type };
+    }
+  }
+  return first?.type;
+}
+
+// The first match wins, so "Senior Engineering Manager" counts as senior
+const TITLE_SENIORITY: Array<[RegExp, SeniorityLevel]> = [
+  [/\b(intern|internship|co-?op)\b/i, 'intern'],
+  [/\b(chief|cto|ceo|cfo|coo|cio|ciso|cpo|svp|evp|vp|vice president)\b/i, 'executive'],
+  [/\b(director|head of)\b/i, 'director'],
+  [/\b(principal|staff|distinguished)\b/i, 'principal'],
+  [/\b(lead|leader)\b/i, 'lead'],
+  [/\b(senior|sr)\b/i, 'senior'],
+  [/\b(manager|mgr)\b/i, 'manager'],
+  [/\b(junior|jr|entry[\s-]level|graduate|new grad)\b/i, 'junior'],
+  [/\b(mid[\s-]?level|intermediate)\b/i, 'mid'],
+  // Numbered levels: "Software Engineer II"
+  [/\s(III|IV)\s*$/, 'senior'],
+  [/\sII\s*$/, 'mid'],
+  [/\sI\s*$/, 'junior'],
+];
+
+// "5+ years of experience", "3-5 years of relevant experience"
+const YEARS_OF_EXPERIENCE = /\b(\d{1,2})\s*\+?\s*(?:(?:-|–|to)\s*\d{1,2}\s*)?years?\s+(?:of\s+)?(?:professional\s+|relevant\s+|industry\s+|hands-on\s+|work\s+)?experience/i;
+
+export function detectSeniority(fields: JobFields): SeniorityLevel | undefined {
+  const titleMatch = TITLE_SENIORITY.find(([pattern]) => pattern.test(fields.title || ''));
+  if (titleMatch) return titleMatch[1];
+  if (fields.employmentType === 'Internship') return 'intern';
+
+  const years = fields.description?.match(YEARS_OF_EXPERIENCE);
+  if (!years) return undefined;
+  const minimum = Number(years[1]);
+  if (minimum >= 5) return 'senior';
+  return minimum >= 2 ? 'mid' : 'junior';
+}
+
+/**
+ * Fills salary, workplace type, employment type and seniority from the posting's text where
+ * its structured data left them out
+ */
+export function inferJobDetails(fields: JobFields): JobFields {
+  const text = [fields.title, fields.description].filter(Boolean).join('\n');
+  const withEmploymentType = mergeJobFields(fields, {
+    salary: fields.salary ? undefined : parseSalaryText(text),
+    workplaceType: fields.workplaceType ? undefined : detectWorkplaceType(fields),
+    employmentType: fields.employmentType ? undefined : detectEmploymentType(fields),
+  });
+  return mergeJobFields(withEmploymentType, {
+    seniority: withEmploymentType.seniority ? undefined : detectSeniority(withEmploymentType),
+  });
+}
@@ -0,0 +1,139 @@
+/**
+ * Helpers shared by the job analyzer's extractors: reading loosely typed JSON from ATS
+ * endpoints and JSON-LD, and writing job fields in one format whatever the source.
+ */
+
+import * as cheerio from 'cheerio';
+import type { JobInfo, JobSalary, WorkplaceType } from '../../src/types';
+
+// What an extractor reads from a posting (the analyzer adds url, source and normalizedContent)
+export type JobFields = Omit<JobInfo, 'url' | 'normalizedContent' | 'source'>;
+
+export type JsonObject = Record<string, unknown>;
+
+export const asObject = (value: unknown): JsonObject =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as JsonObject) : {};
+
+export const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+/**
+ * A non-empty string (or number) with its whitespace collapsed
+ */
+export const asText = (value: unknown): string | undefined => {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.replace(/\s+/g, ' ').trim() : undefined;
+};
+
+/**
+ * Plain text of an HTML fragment, keeping paragraph and line breaks
+ */
+export function htmlToText(html: string): string {
+  const $ = cheerio.load(html);
+  $('br').replaceWith('\n');
+  $('p, div, li, h1, h2, h3, h4, h5, h6, tr').each((_, element) => {
+    $(element).append('\n');
+  });
+  return $.root().text().replace(/[ \t\u00a0]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim();
+}
+
+const EMPLOYMENT_TYPES: Array<[RegExp, string]> = [
+  [/^full[\s_-]*time$/i, 'Full-time'],
+  [/^part[\s_-]*time$/i, 'Part-time'],
+  [/^(contract|contractor|contract[\s_-]*to[\s_-]*hire)$/i, 'Contract'],
+  [/^(temp|temporary|seasonal)$/i, 'Temporary'],
+  [/^(intern|internship)$/i, 'Internship'],
+  [/^(freelance|freelancer)$/i, 'Freelance'],
+];
+
+/**
+ * Spells the employment types ATSs use ("FULL_TIME", "FullTime", "Full time") one way
+ */
+export function formatEmploymentType(value: unknown): string | undefined {
+  const text = asText(value);
+  if (!text) return undefined;
+  // "FullTime" → "Full Time", "Regular Full-Time" → "Full-Time"
+  const words = text.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^(regular|permanent)\s+/i, '');
+  const match = EMPLOYMENT_TYPES.find(([pattern]) => pattern.test(words));
+  return match ? match[1] : text;
+}
+
+/**
+ * Workplace type from ATS values such as "Remote", "HYBRID", "OnSite" or "in_office"
+ */
+export function toWorkplaceType(value: unknown): WorkplaceType | undefined {
+  const text = asText(value)?.toLowerCase();
+  if (!text) return undefined;
+  if (/hybrid/.test(text)) return 'hybrid';
+  if (/remote|telecommute/.test(text)) return 'remote';
+  if (/on[\s_-]*site|office|in[\s_-]*person/.test(text)) return 'on-site';
+  return undefined;
+}
+
+/**
+ * Pay period from ATS intervals such as "YEAR", "1 HOUR", "per-year-salary" or "monthly"
+ */
+export function toSalaryPeriod(value: unknown): JobSalary['period'] {
+  const text = asText(value)?.toLowerCase() || '';
+  if (/hour|\bhrs?\b/.test(text)) return 'hour';
+  if (/day|daily/.test(text)) return 'day';
+  if (/week/.test(text)) return 'week';
+  if (/month/.test(text)) return 'month';
+  if (/year|annual|annum/.test(text)) return 'year';
+  return undefined;
+}
+
+/**
+ * A positive amount from a number or a string such as "120,000"
+ */
+export function toAmount(value: unknown): number | undefined {
+  const amount = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.replace(/[^\d.]/g, '')) : NaN;
+  return Number.isFinite(amount) && amount > 0 ? amount : undefined;
+}
+
+/**
+ * A salary from a min/max pair where either may be missing (null if neither is an amount)
+ */
+export function toSalary(min: unknown, max: unknown, currency: unknown, period: JobSalary['period']): JobSalary | undefined {
+  const minAmount = toAmount(min);
+  const maxAmount = toAmount(max);
+  if (minAmount === undefined && maxAmount === undefined) {
+    return undefined;
+  }
+  return {
+    min: minAmount ?? maxAmount,
+    max: maxAmount ?? minAmount,
+    currency: asText(currency)?.toUpperCase(),
+    period,
+  };
+}
+
+/**
+ * YYYY-MM-DD of a date string (ISO or MM/DD/YYYY) or epoch milliseconds; dates given
+ * without a time are kept as written
+ */
+export function toIsoDate(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    const dateOnly = value.trim().match(/^(\d{4}-\d{2}-\d{2})/);
+    if (dateOnly) return dateOnly[1];
+    const usDate = value.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    if (usDate) return `${usDate[3]}-${usDate[1].padStart(2, '0')}-${usDate[2].padStart(2, '0')}`;
+  } else if (typeof value !== 'number') {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+}
+
+export const joinLocation = (...parts: unknown[]): string | undefined =>
+  asText(parts.map(asText).filter(Boolean).join(', '));
+
+/**
+ * Fields of primary, with the ones it lacks taken from fallback
+ */
+export function mergeJobFields(primary: JobFields, fallback: JobFields): JobFields {
+  const merged: Record<string, unknown> = { ...fallback };
+  for (const [key, value] of Object.entries(primary)) {
+    if (value !== undefined && value !== '') merged[key] = value;
+  }
+  return merged as JobFields;
+}
@@ -0,0 +1,39 @@
+import * as cheerio from 'cheerio';
+import { describe, expect, it } from 'vitest';
+import { findJobPostingFields } from './jsonLd';
+
+const page = (...scripts: string[]) =>
+  cheerio.load(scripts.map(script => `<script type="application/ld+json">${script}</script>`).join('\n'));
+
+describe('findJobPostingFields', () => {
+  it('reads JSON with raw control characters inside strings', () => {
+    const $ = page('{"@type":"JobPosting","title":"Senior\nEngineer\t","hiringOrganization":"Acme\r\n"}');
+    expect(findJobPostingFields($)).toMatchObject({ title: 'Senior Engineer', company: 'Acme' });
+  });
+
+  it('unwraps HTML comment and CDATA wrappers', () => {
+    expect(findJobPostingFields(page('<!-- {"@type":"JobPosting","title":"Designer"} -->')).title).toBe('Designer');
+    expect(findJobPostingFields(page('//<![CDATA[\n{"@type":"JobPosting","title":"Writer"}\n//]]>')).title).toBe('Writer');
+  });
+
+  it('finds the posting in @graph lists, arrays and nested nodes', () => {
+    const graph = page('{"@context":"https://schema.org","@graph":[{"@type":"Organization","name":"Acme"},{"@type":["Thing","JobPosting"],"title":"Analyst"}]}');
+    expect(findJobPostingFields(graph).title).toBe('Analyst');
+
+    const nested = page('[{"@type":"WebPage","mainEntity":{"@type":"schema:JobPosting","title":"Nurse"}}]');
+    expect(findJobPostingFields(nested).title).toBe('Nurse');
+  });
+
+  it('skips scripts that are invalid or have no posting', () => {
+    const $ = page('{not json', '{"@type":"Organization","name":"Acme"}', '{"@type":"JobPosting","title":"Chef"}');
+    expect(findJobPostingFields($).title).toBe('Chef');
+  });
+
+  it('stops searching below the maximum depth', () => {
+    let deep = '{"@type":"JobPosting","title":"Too deep"}';
+    for (let i = 0; i < 20; i++) {
+      deep = `{"child":${deep}}`;
+    }
+    expect(findJobPostingFields(page(deep))).toEqual({});
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * JSON-LD reader for the job analyzer. Pages describe postings with schema.org JobPosting
+ * data in many shapes: several script tags, @graph lists, top-level arrays, @type given as an
+ * array or with a schema prefix, and postings nested under another node (e.g. mainEntity).
+ */
+
+import type { CheerioAPI } from 'cheerio';
+import type { JobSalary } from '../../src/types';
+import {
+  JobFields,
+  JsonObject,
+  asObject,
+  asText,
+  formatEmploymentType,
+  htmlToText,
+  joinLocation,
+  toIsoDate,
+  toSalary,
+  toSalaryPeriod,
+} from './jobFields';
+
+// Nodes deeper than this are not searched (guards against huge or cyclic-looking documents)
+const MAX_DEPTH = 12;
+
+/**
+ * A value given either once or as a list, as a list
+ */
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]);
+
+const isJobPosting = (node: JsonObject) =>
+  asList(node['@type']).some(type => typeof type === 'string' && /(^|[/:])JobPosting$/i.test(type.trim()));
+
+/**
+ * Replaces control characters (U+0000 to U+001F, which JSON only allows escaped) with spaces
+ */
+const replaceControlCharacters = (text: string) =>
+  Array.from(text, char => (char.charCodeAt(0) < 0x20 ? ' ' : char)).join('');
+
+/**
+ * Parses one script's JSON, tolerating HTML comment / CDATA wrappers and raw line breaks
+ * inside strings (both common in hand-written templates)
+ */
+function parseJsonLd(text: string): unknown {
+  const unwrapped = text
+    .trim()
+    .replace(/^(<!--|\/\/\s*<!\[CDATA\[|<!\[CDATA\[)/, '')
+    .replace(/(-->|\/\/\s*\]\]>|\]\]>)$/, '')
+    .trim();
+  try {
+    return JSON.parse(unwrapped);
+  } catch {
+    try {
+      return JSON.parse(replaceControlCharacters(unwrapped));
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * First JobPosting node in a parsed JSON-LD document, searching arrays, @graph and nested nodes
+ */
+function findJobPostingNode(value: unknown, depth = 0): JsonObject | null {
+  if (depth > MAX_DEPTH || !value || typeof value !== 'object') {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findJobPostingNode(item, depth + 1);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  const node = value as JsonObject;
+  if (isJobPosting(node)) {
+    return node;
+  }
+  // @graph first, then any other property (mainEntity, itemListElement, ...)
+  for (const child of [node['@graph'], ...Object.entries(node).filter(([key]) => key !== '@graph').map(([, child]) => child)]) {
+    const found = findJobPostingNode(child, depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * "City, Region, Country" of a schema.org Place (or a plain address string)
+ */
+function formatPlace(place: unknown): string | undefined {
+  if (typeof place === 'string') return asText(place);
+  const node = asObject(place);
+  const address = node.address;
+  if (typeof address === 'string') return asText(address);
+
+  const postal = asObject(asList(address)[0]);
+  // addressCountry can be a code, a name, or a Country node
+  const country = asText(postal.addressCountry) || asText(asObject(postal.addressCountry).name);
+  return joinLocation(postal.addressLocality, postal.addressRegion, country) || asText(node.name);
+}
+
+/**
+ * Reads a MonetaryAmount: { currency, value: { minValue, maxValue | value, unitText } }
+ */
+function readBaseSalary(baseSalary: unknown): JobSalary | undefined {
+  const monetaryAmount = asObject(asList(baseSalary)[0]);
+  const quantity = asObject(monetaryAmount.value);
+  const single = typeof monetaryAmount.value === 'object' ? quantity.value : monetaryAmount.value;
+  const period = toSalaryPeriod(quantity.unitText || monetaryAmount.unitText);
+  return toSalary(quantity.minValue ?? single, quantity.maxValue ?? single, monetaryAmount.currency, period);
+}
+
+/**
+ * Plain text of a description that may be HTML, or HTML-escaped HTML
+ */
+function readDescription(value: unknown): string | undefined {
+  const description = asText(value);
+  if (!description) return undefined;
+  let text = htmlToText(description);
+  // Escaped markup (&lt;p&gt;) only turns into tags after the first pass
+  if (/<\/?[a-z][^>]*>/i.test(text)) {
+    text = htmlToText(text);
+  }
+  return text || undefined;
+}
+
+/**
+ * Reads the job fields of a JobPosting node
+ */
+function readJobPosting(posting: JsonObject): JobFields {
+  const organization = posting.hiringOrganization;
+  const locations = Array.from(new Set(asList(posting.jobLocation).map(formatPlace).filter((place): place is string => !!place)));
+  const remote = asList(posting.jobLocationType).some(type => asText(type)?.toUpperCase() === 'TELECOMMUTE');
+  // Remote postings name the countries they hire from instead of a jobLocation
+  const applicantLocations = asList(posting.applicantLocationRequirements)
+    .map(requirement => asText(requirement) || asText(asObject(requirement).name))
+    .filter(Boolean);
+
+  let location = locations.join(' / ') || undefined;
+  if (!location && remote) {
+    location = applicantLocations.length > 0 ? `Remote (${applicantLocations.join(', ')})` : 'Remote';
+  }
+
+  return {
+    title: asText(posting.title) || asText(posting.name),
+    company: asText(organization) || asText(asObject(asList(organization)[0]).name),
+    location,
+    description: readDescription(posting.description),
+    employmentType: asList(posting.employmentType).map(formatEmploymentType).filter(Boolean).join(', ') || undefined,
+    workplaceType: remote ? 'remote' : undefined,
+    salary: readBaseSalary(posting.baseSalary),
+    postedDate: toIsoDate(posting.datePosted),
+    validThrough: toIsoDate(posting.validThrough),
+  };
+}
+
+/**
+ * Job fields of the first JobPosting in any of the page's JSON-LD scripts ({} if none)
+ */
+export function findJobPostingFields($: CheerioAPI): JobFields {
+  const scripts = $('script').filter((_, element) => /^application\/ld\+json\b/i.test(($(element).attr('type') || '').trim()));
+  for (const element of scripts.toArray()) {
+    const posting = findJobPostingNode(parseJsonLd($(element).html() || ''));
+    if (posting) {
+      return readJobPosting(posting);
+    }
+  }
+  return {};
+}
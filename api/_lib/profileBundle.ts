@@ -0,0 +1,116 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import type { Profile, ProfileBundleFile } from '../../src/types';
+import { ServiceAccountKey, getCredential, parseServiceAccountKey, saveCredential } from './credentialVault';
+
+const BUNDLE_FORMAT = 'bidlinktracker-profiles';
+const BUNDLE_VERSION = 1;
+export const MIN_BUNDLE_PASSWORD_LENGTH = 8;
+
+/**
+ * Decrypted bundle contents: the profiles plus the key of each credential they reference
+ */
+interface BundlePayload {
+  profiles: Profile[];
+  keys: Record<string, ServiceAccountKey>;
+}
+
+function deriveBundleKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, 32, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+// The header fields are authenticated too, so they can't be edited without the password
+const getAad = (file: Pick<ProfileBundleFile, 'format' | 'version' | 'createdAt' | 'profileCount'>) =>
+  Buffer.from(`${file.format}:${file.version}:${file.createdAt}:${file.profileCount}`);
+
+/**
+ * Encrypts profiles and their vaulted keys into a bundle file. Profiles whose credential is
+ * no longer in the vault are exported without it; their names are returned as missingKeys.
+ * Callers check that the user may export each credential first (checkCredentialAccess).
+ */
+export async function sealProfileBundle(
+  profiles: Profile[],
+  password: string
+): Promise<{ bundle: ProfileBundleFile; missingKeys: string[] }> {
+  const keys: Record<string, ServiceAccountKey> = {};
+  const missingKeys: string[] = [];
+  for (const profile of profiles) {
+    if (!profile.credentialId || keys[profile.credentialId]) continue;
+    const key = await getCredential(profile.credentialId);
+    if (key) {
+      keys[profile.credentialId] = key;
+    } else {
+      missingKeys.push(profile.name);
+    }
+  }
+
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const header = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    createdAt: new Date().toISOString(),
+    profileCount: profiles.length,
+  } as const;
+  const cipher = createCipheriv('aes-256-gcm', await deriveBundleKey(password, salt), iv);
+  cipher.setAAD(getAad(header));
+  const payload: BundlePayload = { profiles, keys };
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final()]);
+
+  return {
+    bundle: {
+      ...header,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    },
+    missingKeys,
+  };
+}
+
+/**
+ * Decrypts a bundle file, stores its keys in this server's vault and returns its profiles
+ * pointing at the new credential IDs
+ */
+export async function openProfileBundle(value: unknown, password: string, ownerEmail: string): Promise<Profile[]> {
+  const file = value as Partial<ProfileBundleFile> | null;
+  if (!file || typeof file !== 'object' || file.format !== BUNDLE_FORMAT) {
+    throw new Error('This is not a BidLinkTracker profile bundle');
+  }
+  if (file.version !== BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${file.version}`);
+  }
+
+  let payload: BundlePayload;
+  try {
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      await deriveBundleKey(password, Buffer.from(file.salt || '', 'base64')),
+      Buffer.from(file.iv || '', 'base64')
+    );
+    decipher.setAAD(getAad(file as ProfileBundleFile));
+    decipher.setAuthTag(Buffer.from(file.authTag || '', 'base64'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(file.ciphertext || '', 'base64')), decipher.final()]);
+    payload = JSON.parse(plaintext.toString('utf8')) as BundlePayload;
+  } catch {
+    throw new Error('Wrong password, or the bundle file is damaged');
+  }
+
+  // Same key file referenced by several profiles is stored once
+  const credentialIds = new Map<string, { id: string; clientEmail: string }>();
+  for (const [oldId, key] of Object.entries(payload.keys || {})) {
+    const summary = await saveCredential(parseServiceAccountKey(key), ownerEmail);
+    credentialIds.set(oldId, { id: summary.id, clientEmail: summary.clientEmail });
+  }
+
+  return (payload.profiles || []).map(profile => {
+    const credential = profile.credentialId ? credentialIds.get(profile.credentialId) : undefined;
+    return {
+      ...profile,
+      credentialId: credential?.id,
+      clientEmail: credential?.clientEmail || profile.clientEmail,
+    };
+  });
+}
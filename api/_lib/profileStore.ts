@@ -0,0 +1,96 @@
+import { randomBytes } from 'crypto';
+import type { AssignedProfile, User } from '../../src/types';
+import { readDataFile, updateDataFile } from './dataStore';
+
+const PROFILES_FILE = 'profiles.json';
+
+/**
+ * Fields a Bid Manager sets when sharing one of their accounts with bidders
+ */
+export type AssignedProfileInput = Pick<
+  AssignedProfile,
+  'accountId' | 'profileName' | 'spreadsheetId' | 'credentialId' | 'clientEmail' | 'columnMapping' | 'assignedTo'
+>;
+
+// The Bid Manager who shared a profile (its credential is theirs) and admins manage it
+const canManage = (user: User, profile: AssignedProfile) => user.role === 'admin' || profile.createdBy === user.email;
+
+/**
+ * What a bidder sees of a profile: enough to show and select it, but not its credential
+ * or who else it's assigned to
+ */
+const toBidderView = ({ id, accountId, profileName, spreadsheetId, clientEmail, columnMapping, createdBy, updatedAt }: AssignedProfile): AssignedProfile => ({
+  id,
+  accountId,
+  profileName,
+  spreadsheetId,
+  clientEmail,
+  columnMapping,
+  assignedTo: [],
+  createdBy,
+  updatedAt,
+});
+
+/**
+ * Profiles visible to a user: the ones they shared (everything for admins) in full, and the
+ * ones assigned to them as bidders see them
+ */
+export async function listProfilesFor(user: User): Promise<AssignedProfile[]> {
+  const profiles = await readDataFile<AssignedProfile[]>(PROFILES_FILE, []);
+  return profiles
+    .filter(profile => canManage(user, profile) || profile.assignedTo.includes(user.email))
+    .map(profile => (canManage(user, profile) ? profile : toBidderView(profile)));
+}
+
+/**
+ * Returns a profile the user may use for Sheets calls (null if unknown or not assigned to them)
+ */
+export async function getUsableProfile(user: User, profileId: string): Promise<AssignedProfile | null> {
+  const profiles = await readDataFile<AssignedProfile[]>(PROFILES_FILE, []);
+  const profile = profiles.find(item => item.id === profileId);
+  if (!profile || (!canManage(user, profile) && !profile.assignedTo.includes(user.email))) {
+    return null;
+  }
+  return profile;
+}
+
+/**
+ * Whether a shared profile uses a vaulted credential
+ */
+export async function isCredentialAssigned(credentialId: string): Promise<boolean> {
+  const profiles = await readDataFile<AssignedProfile[]>(PROFILES_FILE, []);
+  return profiles.some(profile => profile.credentialId === credentialId);
+}
+
+/**
+ * Creates or updates the shared profile of an account (one per account); null if the account
+ * is already shared by another Bid Manager
+ */
+export async function saveProfile(input: AssignedProfileInput, savedBy: User): Promise<AssignedProfile | null> {
+  const now = new Date().toISOString();
+  return updateDataFile<AssignedProfile[], AssignedProfile | null>(PROFILES_FILE, [], profiles => {
+    const existing = profiles.find(profile => profile.accountId === input.accountId);
+    if (existing && !canManage(savedBy, existing)) {
+      return { data: profiles, result: null };
+    }
+    const profile: AssignedProfile = {
+      ...input,
+      id: existing?.id || `prof_${randomBytes(12).toString('hex')}`,
+      assignedTo: [...new Set(input.assignedTo.map(email => email.trim().toLowerCase()))],
+      createdBy: existing?.createdBy || savedBy.email,
+      updatedAt: now,
+    };
+    const others = profiles.filter(item => item !== existing);
+    return { data: [...others, profile], result: profile };
+  });
+}
+
+/**
+ * Stops sharing an account; returns whether it was shared (by this user, unless they're an admin)
+ */
+export async function deleteProfile(accountId: string, user: User): Promise<boolean> {
+  return updateDataFile<AssignedProfile[], boolean>(PROFILES_FILE, [], profiles => {
+    const remaining = profiles.filter(profile => profile.accountId !== accountId || !canManage(user, profile));
+    return { data: remaining, result: remaining.length !== profiles.length };
+  });
+}
@@ -0,0 +1,53 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { handleProfilesRequest } from './profilesActions';
+import { createSessionCookie } from './session';
+import { createInvite, createUser, updateUser } from './userStore';
+
+describe('saving an assigned profile', () => {
+  let dataDir: string;
+  let cookie: string;
+
+  beforeAll(async () => {
+    dataDir = mkdtempSync(path.join(tmpdir(), 'profiles-actions-'));
+    process.env.DATA_DIR = dataDir;
+    process.env.AUTH_SESSION_SECRET = 'test-session-secret-with-enough-length';
+    process.env.ADMIN_SETUP_TOKEN = 'setup-token';
+
+    await createUser('Admin', 'admin@example.com', 'password123', { setupToken: 'setup-token' });
+    const { token } = await createInvite('manager@example.com', 'bid-manager', 'admin@example.com');
+    await createUser('Manager', 'manager@example.com', 'password123', { inviteToken: token });
+    await createUser('Bidder', 'bidder@example.com', 'password123');
+    await createUser('Former', 'former@example.com', 'password123');
+    await updateUser('former@example.com', { active: false });
+    cookie = createSessionCookie('manager@example.com', 0).split(';')[0];
+  });
+
+  afterAll(() => {
+    delete process.env.DATA_DIR;
+    delete process.env.AUTH_SESSION_SECRET;
+    delete process.env.ADMIN_SETUP_TOKEN;
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const save = (assignedTo: unknown) => handleProfilesRequest({
+    method: 'POST',
+    query: { action: 'save' },
+    headers: { cookie },
+    body: { accountId: 'acc-1', profileName: 'Account', spreadsheetId: 'sheet-1', credentialId: 'cred-missing', assignedTo },
+  });
+
+  it('rejects emails that are not bidder accounts', async () => {
+    const result = await save(['bidder@example.com', 'stranger@example.com', 'manager@example.com']);
+    expect(result.status).toBe(400);
+    expect(result.body).toEqual({ success: false, error: 'Not a bidder account: stranger@example.com, manager@example.com' });
+  });
+
+  it('accepts bidders in any case, including deactivated ones', async () => {
+    // Validation passes, so the request gets as far as the (missing) credential check
+    const result = await save([' Bidder@Example.com', 'former@example.com']);
+    expect(result.body).toMatchObject({ error: expect.stringContaining('Credential not found') });
+  });
+});
@@ -0,0 +1,101 @@
+import type { ColumnMapping } from '../../src/types';
+import { ApiRequest, ApiResult, getBodyObject, reply } from './http';
+import { requireUser } from './session';
+import { deleteProfile, listProfilesFor, saveProfile } from './profileStore';
+import { listUsers, normalizeEmail } from './userStore';
+import { checkCredentialAccess } from './credentialVault';
+
+/**
+ * Assigned profiles endpoint (?action=list|save|delete|bidders). Bid Managers share their
+ * accounts with bidder users; bidders list the profiles assigned to them.
+ */
+export async function handleProfilesRequest(request: ApiRequest): Promise<ApiResult> {
+  if (request.method !== 'POST') {
+    return reply(405, { success: false, error: 'Method not allowed' });
+  }
+
+  const { action } = request.query;
+  const { user, denied } = await requireUser(request, action === 'list' ? undefined : ['bid-manager', 'admin']);
+  if (denied) {
+    return denied;
+  }
+
+  const body = getBodyObject(request);
+  const accountId = typeof body.accountId === 'string' ? body.accountId : '';
+
+  try {
+    switch (action) {
+      case 'list': {
+        return reply(200, { success: true, data: await listProfilesFor(user) });
+      }
+
+      case 'save': {
+        const { profileName, spreadsheetId, credentialId, clientEmail, columnMapping, assignedTo } = body;
+        if (!accountId || typeof profileName !== 'string' || typeof spreadsheetId !== 'string' || !spreadsheetId) {
+          return reply(400, { success: false, error: 'accountId, profileName and spreadsheetId are required' });
+        }
+        if (typeof credentialId !== 'string' || !credentialId) {
+          return reply(400, { success: false, error: 'The account needs a service account key before it can be assigned' });
+        }
+        if (!Array.isArray(assignedTo) || assignedTo.some(email => typeof email !== 'string')) {
+          return reply(400, { success: false, error: 'assignedTo must be an array of bidder emails' });
+        }
+        // Deactivated bidders stay assignable, so saving doesn't fail over an earlier assignment
+        const bidderEmails = new Set((await listUsers()).filter(item => item.role === 'bidder').map(item => item.email));
+        const unknown = (assignedTo as string[]).filter(email => !bidderEmails.has(normalizeEmail(email)));
+        if (unknown.length > 0) {
+          return reply(400, { success: false, error: `Not a bidder account: ${unknown.join(', ')}` });
+        }
+        // Only a key this user uploaded (or any key, for admins) can be shared
+        const access = await checkCredentialAccess(user, credentialId);
+        if (access !== 'allowed') {
+          return reply(access === 'denied' ? 403 : 400, {
+            success: false,
+            error: access === 'denied' ? 'This credential belongs to another user' : 'Credential not found. Please upload the service account JSON file again.',
+          });
+        }
+
+        const profile = await saveProfile({
+          accountId,
+          profileName,
+          spreadsheetId,
+          credentialId,
+          clientEmail: typeof clientEmail === 'string' ? clientEmail : undefined,
+          columnMapping: columnMapping as Partial<ColumnMapping> | undefined,
+          assignedTo: assignedTo as string[],
+        }, user);
+        if (!profile) {
+          return reply(403, { success: false, error: 'This account is shared by another Bid Manager' });
+        }
+        console.log(`[profiles] ${user.email} assigned "${profile.profileName}" to ${profile.assignedTo.join(', ') || 'nobody'}`);
+        return reply(200, { success: true, data: profile });
+      }
+
+      case 'delete': {
+        if (!accountId) {
+          return reply(400, { success: false, error: 'accountId is required' });
+        }
+        const deleted = await deleteProfile(accountId, user);
+        return reply(200, { success: true, data: { deleted } });
+      }
+
+      case 'bidders': {
+        // Active bidder users a profile can be assigned to
+        const users = await listUsers();
+        const bidders = users
+          .filter(item => item.role === 'bidder' && item.active)
+          .map(({ email, name }) => ({ email, name }));
+        return reply(200, { success: true, data: bidders });
+      }
+
+      default:
+        return reply(400, {
+          success: false,
+          error: `Invalid action: "${action}". Available actions: list, save, delete, bidders`,
+        });
+    }
+  } catch (err) {
+    console.error('Profiles error:', err);
+    return reply(500, { success: false, error: (err as Error).message || 'Internal server error' });
+  }
+}
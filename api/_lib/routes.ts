@@ -0,0 +1,21 @@
+import type { ApiHandler } from './http';
+import { handleAuthRequest } from './authActions';
+import { handleCredentialsRequest } from './credentialsActions';
+import { handleAnalyzeJobRequest } from './jobAnalysis';
+import { handleProfilesRequest } from './profilesActions';
+import { handleSheetsRequest } from './sheetsActions';
+import { handleUsersRequest } from './usersActions';
+
+/**
+ * Every API endpoint, keyed by its path under /api. Vercel serves each one from its own
+ * file in api/ (a one-line createVercelHandler wrapper); the local dev server mounts this table,
+ * so a new endpoint only needs an entry here plus that wrapper.
+ */
+export const API_ROUTES: Record<string, ApiHandler> = {
+  sheets: handleSheetsRequest,
+  'analyze-job': handleAnalyzeJobRequest,
+  credentials: handleCredentialsRequest,
+  auth: handleAuthRequest,
+  users: handleUsersRequest,
+  profiles: handleProfilesRequest,
+};
@@ -0,0 +1,112 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { User, UserRole } from '../../src/types';
+import { ApiRequest, ApiResult, reply } from './http';
+import { findUserSession } from './userStore';
+
+const SESSION_COOKIE = 'bidlinktracker_session';
+const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+interface SessionPayload {
+  email: string;
+  v: number; // User's session version; bumping it signs out every existing session
+  exp: number; // Unix seconds
+}
+
+function getSessionSecret(): string {
+  const secret = process.env.AUTH_SESSION_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_SESSION_SECRET is not set, so sign-in sessions cannot be issued or verified');
+  }
+  return secret;
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getSessionSecret()).update(value).digest('base64url');
+}
+
+/**
+ * Creates a signed session token: base64url(payload).signature
+ */
+function createSessionToken(email: string, sessionVersion: number): string {
+  const payload: SessionPayload = { email, v: sessionVersion, exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+function verifySessionToken(token: string): SessionPayload | null {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) {
+    return null;
+  }
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as SessionPayload;
+    return typeof payload.email === 'string' && payload.exp > Date.now() / 1000 ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+function buildCookie(value: string, maxAge: number): string {
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  return `${SESSION_COOKIE}=${value}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAge}${secure}`;
+}
+
+/**
+ * Set-Cookie header that signs the user in
+ */
+export function createSessionCookie(email: string, sessionVersion: number): string {
+  return buildCookie(createSessionToken(email, sessionVersion), SESSION_MAX_AGE_SECONDS);
+}
+
+/**
+ * Set-Cookie header that signs the user out
+ */
+export function clearSessionCookie(): string {
+  return buildCookie('', 0);
+}
+
+function readCookie(request: ApiRequest, name: string): string | undefined {
+  const header = request.headers.cookie;
+  const cookies = Array.isArray(header) ? header.join('; ') : header || '';
+  for (const part of cookies.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) {
+      return rest.join('=');
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the signed-in user of a request, or null. The user is re-read from the user store,
+ * so role changes, deactivation and password resets take effect on the next request.
+ */
+export async function getSessionUser(request: ApiRequest): Promise<User | null> {
+  const token = readCookie(request, SESSION_COOKIE);
+  const session = token ? verifySessionToken(token) : null;
+  const current = session ? await findUserSession(session.email) : null;
+  return current && current.sessionVersion === (session?.v || 0) ? current.user : null;
+}
+
+/**
+ * Resolves the signed-in user, or the 401/403 response to send when the request isn't allowed
+ * (roles limits access to those roles; omit it to allow any signed-in user)
+ */
+export async function requireUser(
+  request: ApiRequest,
+  roles?: UserRole[]
+): Promise<{ user: User; denied?: undefined } | { user?: undefined; denied: ApiResult }> {
+  const user = await getSessionUser(request);
+  if (!user) {
+    return { denied: reply(401, { success: false, error: 'Please sign in to continue' }) };
+  }
+  if (roles && !roles.includes(user.role)) {
+    return { denied: reply(403, { success: false, error: 'Your role is not allowed to perform this action' }) };
+  }
+  return { user };
+}
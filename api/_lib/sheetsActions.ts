@@ -0,0 +1,914 @@
+import { google, sheets_v4 } from 'googleapis';
+import { ApiRequest, ApiResult, getBodyObject, reply } from './http';
+import type { ColumnMapping, FeedbackPreviewRow, JobColumn, NewJobEntry, User, UserRole } from '../../src/types';
+import {
+  resolveColumnMapping,
+  getMappingRange,
+  getCellValue,
+  detectColumnMapping,
+  DETAIL_COLUMNS,
+} from '../../src/utils/columnSchema';
+import { validateTabSchema } from '../../src/utils/schemaValidation';
+import { findTabForDate, generateTabName, isValidDateFormat, parseDate } from '../../src/utils/dateUtils';
+import { findLatestTab, getTabInsertIndex } from '../../src/utils/tabUtils';
+import { getIndexedEntries, getUrlIndex, invalidateUrlIndex, JobUrlEntry, lookupUrl, quoteTabName } from './urlIndex';
+import { checkCredentialAccess, getCredential, ServiceAccountKey } from './credentialVault';
+import { requireUser } from './session';
+import { getUsableProfile } from './profileStore';
+import { testSheetsConnection } from './connectionTest';
+import { withDataLock } from './dataStore';
+import { CellValue, FeedbackBatch, FeedbackCellChange, claimFeedbackBatch, recordFeedbackBatch, releaseFeedbackBatch } from './feedbackBatches';
+
+interface FeedbackUpdate {
+  tabName: string;
+  rowIndex: number;
+  feedback: string;
+  sourceColumn?: 'F' | 'G';
+}
+
+interface FeedbackPlan {
+  previousValues: Map<string, CellValue>;
+  filteredUpdates: FeedbackUpdate[];
+  skippedUpdates: Array<{ tabName: string; rowIndex: number; reason: string }>;
+}
+
+// Actions limited to particular roles; every other action is open to any signed-in user.
+// Bidders mark duplicates through markDuplicates, which only writes server-built feedback.
+const ACTION_ROLES: Record<string, UserRole[]> = {
+  batchUpdateFeedback: ['bid-manager', 'admin'],
+  undoFeedbackBatch: ['bid-manager', 'admin'],
+};
+
+/**
+ * The request's stored credentials if provided, otherwise (for admins only) the key in the environment
+ */
+function resolveServiceAccount(user: User, credentialsFromVault?: ServiceAccountKey): ServiceAccountKey {
+  if (credentialsFromVault) {
+    return credentialsFromVault;
+  }
+  if (user.role !== 'admin') {
+    throw new Error('No credentialId provided in request. Upload a service account key for this account first.');
+  }
+
+  const serviceAccountKey = process.env.VITE_GOOGLE_SERVICE_ACCOUNT_KEY;
+  if (!serviceAccountKey) {
+    throw new Error('VITE_GOOGLE_SERVICE_ACCOUNT_KEY is not set and no credentialId provided in request');
+  }
+
+  try {
+    return JSON.parse(serviceAccountKey);
+  } catch (error) {
+    throw new Error('Failed to parse service account key JSON');
+  }
+}
+
+// Initialize Google Sheets API client
+function initializeSheetsClient(credentials: ServiceAccountKey) {
+  const auth = new google.auth.GoogleAuth({
+    credentials,
+    // Drive metadata is only read: edit rights for the connection test, and the file's modified
+    // time for the URL index
+    scopes: ['https://www.googleapis.com/auth/spreadsheets', 'https://www.googleapis.com/auth/drive.metadata.readonly'],
+  });
+
+  return { auth, sheets: google.sheets({ version: 'v4', auth }), drive: google.drive({ version: 'v3', auth }) };
+}
+
+/**
+ * Looks up the service account key referenced by a request's credentialId
+ */
+async function getRequestCredentials(credentialId: unknown): Promise<ServiceAccountKey | undefined> {
+  if (!credentialId) {
+    return undefined;
+  }
+  const credentials = typeof credentialId === 'string' ? await getCredential(credentialId) : null;
+  if (!credentials) {
+    throw new Error('Stored credentials not found. Please upload the service account JSON file again.');
+  }
+  return credentials;
+}
+
+function getSpreadsheetId(requestSpreadsheetId?: string): string {
+  // Use spreadsheet ID from request if provided, otherwise fall back to environment variable
+  if (requestSpreadsheetId) {
+    return requestSpreadsheetId;
+  }
+  
+  const id = process.env.VITE_SPREADSHEET_ID;
+  if (!id) {
+    throw new Error('Spreadsheet ID is required. Please provide it in your account settings or set VITE_SPREADSHEET_ID environment variable.');
+  }
+  return id;
+}
+
+/**
+ * Feedback written to the original row of a duplicate link:
+ * "Duplicated of Sheet - [Date] in [Tab Name] Tab- No.[No] - [Position] - [Applied Url/Job Url]"
+ */
+function buildDuplicateFeedback(original: JobUrlEntry): string {
+  const sourceType = original.sourceColumn === 'G' ? 'Applied Url' : 'Job Url';
+  return `Duplicated of Sheet - ${original.date || 'N/A'} in [${original.tabName}] Tab- No.${original.no || 'N/A'} - ${original.position || 'N/A'} - ${sourceType}`;
+}
+
+/**
+ * Reads the current Approved and Feedback values of the rows to update, as entered (formulas
+ * included) so an undo can put back exactly what was there, and works out which rows the
+ * "Job Url beats Applied Url" rule skips. Shared by writing and previewing (dryRun) a marking.
+ */
+async function planFeedbackUpdates(
+  sheets: sheets_v4.Sheets,
+  spreadsheetId: string,
+  columnMapping: ColumnMapping,
+  updates: FeedbackUpdate[]
+): Promise<FeedbackPlan> {
+  const approvedCol = columnMapping.approved;
+  const feedbackCol = columnMapping.feedback;
+
+  // key: the cell's A1 range, `'Tab Name'!I5`
+  const previousValues = new Map<string, CellValue>();
+  
+  // Group updates by tab for efficient batch reading
+  const updatesByTab = new Map<string, number[]>();
+  updates.forEach(({ tabName, rowIndex }) => {
+    if (!updatesByTab.has(tabName)) {
+      updatesByTab.set(tabName, []);
+    }
+    updatesByTab.get(tabName)!.push(rowIndex);
+  });
+
+  // Read existing values for each tab; without them the write couldn't be undone, so nothing is written
+  for (const [tabName, rowIndices] of updatesByTab.entries()) {
+    const minRow = Math.min(...rowIndices);
+    const maxRow = Math.max(...rowIndices);
+
+    let valueRanges: sheets_v4.Schema$ValueRange[];
+    try {
+      const response = await sheets.spreadsheets.values.batchGet({
+        spreadsheetId,
+        ranges: [
+          `${quoteTabName(tabName)}!${approvedCol}${minRow}:${approvedCol}${maxRow}`,
+          `${quoteTabName(tabName)}!${feedbackCol}${minRow}:${feedbackCol}${maxRow}`,
+        ],
+        valueRenderOption: 'FORMULA',
+      });
+      valueRanges = response.data.valueRanges || [];
+    } catch (error) {
+      console.error(`Error reading feedback for tab ${tabName}:`, error);
+      throw new Error(`Could not read the current values of columns ${approvedCol} and ${feedbackCol} in tab "${tabName}", so nothing was changed: ${(error as Error).message}`);
+    }
+
+    const approvedValues = valueRanges[0]?.values || [];
+    const feedbackValues = valueRanges[1]?.values || [];
+    rowIndices.forEach(rowIndex => {
+      const arrayIndex = rowIndex - minRow; // The first value is row minRow
+      previousValues.set(`${quoteTabName(tabName)}!${approvedCol}${rowIndex}`, approvedValues[arrayIndex]?.[0] ?? '');
+      previousValues.set(`${quoteTabName(tabName)}!${feedbackCol}${rowIndex}`, feedbackValues[arrayIndex]?.[0] ?? '');
+    });
+  }
+
+  // Filter updates: skip if existing feedback contains "- Job Url" and we're trying to write "- Applied Url"
+  const filteredUpdates: FeedbackUpdate[] = [];
+  const skippedUpdates: Array<{ tabName: string; rowIndex: number; reason: string }> = [];
+  
+  updates.forEach(update => {
+    const { tabName, rowIndex, feedback, sourceColumn } = update;
+    const key = `${quoteTabName(tabName)}!${feedbackCol}${rowIndex}`;
+    const existingFeedback = String(previousValues.get(key) ?? '').trim();
+    
+    // Check if we should skip this update
+    const isAppliedUrl = sourceColumn === 'G' || feedback.includes('- Applied Url');
+    const hasJobUrlFeedback = existingFeedback.includes('- Job Url');
+    
+    if (isAppliedUrl && hasJobUrlFeedback) {
+      // Skip: Don't overwrite Job Url feedback with Applied Url feedback
+      skippedUpdates.push({ 
+        tabName, 
+        rowIndex, 
+        reason: 'Already marked as duplicate with Job Url' 
+      });
+      console.log(`Skipping feedback update for ${tabName} row ${rowIndex}: Already has Job Url duplicate feedback`);
+      return;
+    }
+    
+    // Include this update
+    filteredUpdates.push(update);
+  });
+
+  return { previousValues, filteredUpdates, skippedUpdates };
+}
+
+/**
+ * What a marking would change in each row, without writing anything
+ */
+function previewFeedbackUpdates(plan: FeedbackPlan, columnMapping: ColumnMapping, updates: FeedbackUpdate[]): FeedbackPreviewRow[] {
+  // Checkboxes read back as booleans
+  const display = (value: CellValue | undefined) => (typeof value === 'boolean' ? String(value).toUpperCase() : String(value ?? ''));
+  return updates.map(({ tabName, rowIndex, feedback }) => ({
+    tabName,
+    rowIndex,
+    currentApproved: display(plan.previousValues.get(`${quoteTabName(tabName)}!${columnMapping.approved}${rowIndex}`)),
+    currentFeedback: display(plan.previousValues.get(`${quoteTabName(tabName)}!${columnMapping.feedback}${rowIndex}`)),
+    feedback,
+    skipReason: plan.skippedUpdates.find(skipped => skipped.tabName === tabName && skipped.rowIndex === rowIndex)?.reason,
+  }));
+}
+
+/**
+ * Writes duplicate feedback: clears the Approved column and sets the Feedback column of each row.
+ * Applied Url feedback never overwrites existing Job Url feedback; protected cells are retried one by one.
+ * The values the cells held before are recorded, and the returned batchId undoes the write
+ * (undoWarning instead when they couldn't be recorded; the feedback stays written).
+ */
+async function writeFeedbackUpdates(
+  sheets: sheets_v4.Sheets,
+  spreadsheetId: string,
+  columnMapping: ColumnMapping,
+  updates: FeedbackUpdate[],
+  userEmail: string
+): Promise<ApiResult> {
+  const approvedCol = columnMapping.approved;
+  const feedbackCol = columnMapping.feedback;
+  const { previousValues, filteredUpdates, skippedUpdates } = await planFeedbackUpdates(sheets, spreadsheetId, columnMapping, updates);
+
+  // Update both the Approved column (clear it) and the Feedback column
+  const valueUpdates: Array<{ range: string; values: CellValue[][] }> = [];
+  
+  filteredUpdates.forEach(({ tabName, rowIndex, feedback }) => {
+    // Clear Approved (Column H by default) - set to FALSE
+    valueUpdates.push({
+      range: `${quoteTabName(tabName)}!${approvedCol}${rowIndex}`,
+      values: [['FALSE']], // Use string FALSE to uncheck checkbox
+    });
+    // Update Feedback (Column I by default)
+    valueUpdates.push({
+      range: `${quoteTabName(tabName)}!${feedbackCol}${rowIndex}`,
+      values: [[feedback]],
+    });
+  });
+
+  // Cells actually written; the cell-by-cell retry below replaces it with the ones that went through
+  let writtenCells = valueUpdates;
+  let cellByCell = false;
+  const successful: string[] = [];
+  const failed: Array<{ tabName: string; rowIndex: number; reason: string }> = [];
+
+  try {
+    // Try batch update first
+    await sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        valueInputOption: 'USER_ENTERED',
+        data: valueUpdates,
+      },
+    });
+  } catch (batchError) {
+    // Re-throw if it's not a protection error
+    if (!(batchError as Error).message?.includes('protected')) {
+      throw batchError;
+    }
+
+    // If batch update fails due to protected cells, try updating individually
+    cellByCell = true;
+    writtenCells = [];
+
+    // Try updating each cell individually (rows skipped above stay skipped)
+    for (const { tabName, rowIndex, feedback } of filteredUpdates) {
+      try {
+        // Try to update the Approved column
+        const approvedCell = { range: `${quoteTabName(tabName)}!${approvedCol}${rowIndex}`, values: [['FALSE']] };
+        try {
+          await sheets.spreadsheets.values.update({
+            spreadsheetId,
+            range: approvedCell.range,
+            valueInputOption: 'USER_ENTERED',
+            requestBody: { values: approvedCell.values },
+          });
+          writtenCells.push(approvedCell);
+        } catch (hError) {
+          if ((hError as Error).message?.includes('protected')) {
+            failed.push({ tabName, rowIndex, reason: `Column ${approvedCol} (Approved) is protected` });
+            continue; // Skip this row entirely
+          }
+          throw hError; // Re-throw if it's a different error
+        }
+
+        // Try to update the Feedback column
+        const feedbackCell = { range: `${quoteTabName(tabName)}!${feedbackCol}${rowIndex}`, values: [[feedback]] };
+        try {
+          await sheets.spreadsheets.values.update({
+            spreadsheetId,
+            range: feedbackCell.range,
+            valueInputOption: 'USER_ENTERED',
+            requestBody: { values: feedbackCell.values },
+          });
+          writtenCells.push(feedbackCell);
+        } catch (iError) {
+          if ((iError as Error).message?.includes('protected')) {
+            failed.push({ tabName, rowIndex, reason: `Column ${feedbackCol} (Feedback) is protected` });
+            continue;
+          }
+          throw iError;
+        }
+
+        successful.push(`${tabName}!${rowIndex}`);
+      } catch (error) {
+        failed.push({ tabName, rowIndex, reason: (error as Error).message || 'Unknown error' });
+      }
+    }
+  }
+
+  // Records the cells that were written so they can be undone; no batch when nothing was.
+  // The feedback is already in the sheet, so a failure here only costs the undo.
+  let batchId: string | undefined;
+  let undoWarning: string | undefined;
+  if (writtenCells.length > 0) {
+    try {
+      const cells: FeedbackCellChange[] = writtenCells.map(({ range, values }) => ({
+        range,
+        previous: previousValues.get(range) ?? '',
+        written: values[0][0],
+      }));
+      batchId = await recordFeedbackBatch(spreadsheetId, userEmail, cells);
+    } catch (recordError) {
+      console.error('Error recording feedback batch:', recordError);
+      undoWarning = `The feedback was written, but undo is unavailable for it: ${(recordError as Error).message}`;
+    }
+  }
+
+  if (!cellByCell) {
+    const message = skippedUpdates.length > 0
+      ? `Updated ${filteredUpdates.length} entries. ${skippedUpdates.length} skipped (already marked as duplicate with Job Url).`
+      : `Updated ${filteredUpdates.length} entries`;
+    return reply(200, { 
+      success: true, 
+      message,
+      data: { batchId, undoWarning },
+      skipped: skippedUpdates.length,
+      total: updates.length,
+      updated: filteredUpdates.length
+    });
+  }
+
+  const allSkipped = [...skippedUpdates];
+  if (failed.length > 0) {
+    allSkipped.push(...failed);
+  }
+  
+  if (allSkipped.length > 0) {
+    const skippedDetails = skippedUpdates.length > 0 
+      ? skippedUpdates.map(f => `${f.tabName} row ${f.rowIndex}: ${f.reason}`).join('; ')
+      : '';
+    const failedDetails = failed.length > 0
+      ? failed.map(f => `${f.tabName} row ${f.rowIndex}: ${f.reason}`).join('; ')
+      : '';
+    const allDetails = [skippedDetails, failedDetails].filter(d => d).join('; ');
+    
+    return reply(207, { 
+      success: true,
+      partial: true,
+      message: `Updated ${successful.length} of ${updates.length} entries. ${skippedUpdates.length > 0 ? `${skippedUpdates.length} skipped (already has Job Url feedback). ` : ''}${failed.length > 0 ? 'Some cells are protected.' : ''}`,
+      data: { batchId, undoWarning },
+      successful: successful.length,
+      failed: allSkipped.length,
+      skipped: skippedUpdates.length,
+      failedDetails: allDetails.length <= 200 ? allDetails : `${allDetails.substring(0, 200)}...`,
+      error: failed.length > 0 
+        ? `Some cells are protected. Please contact the spreadsheet owner to remove protection from Columns ${approvedCol} and ${feedbackCol}, or share the spreadsheet with edit permissions for the service account.`
+        : undefined
+    });
+  }
+
+  const message = skippedUpdates.length > 0
+    ? `Updated ${successful.length} entries. ${skippedUpdates.length} skipped (already marked as duplicate with Job Url).`
+    : `Updated ${successful.length} entries`;
+  return reply(200, { success: true, message, data: { batchId, undoWarning }, skipped: skippedUpdates.length });
+}
+
+// Columns batchAddJobEntries fills from the job page (after the bidder has reviewed them)
+const ENTRY_TEXT_COLUMNS: Array<Extract<JobColumn, 'jobSite' | 'companyName' | 'position'>> = ['jobSite', 'companyName', 'position'];
+
+// Text for a cell written with USER_ENTERED; page text starting with "=", "+" or "@" would be read as a formula
+const asCellText = (value: unknown) => (typeof value === 'string' ? value.trim().replace(/^([=+@])/, "'$1") : '');
+
+// An entry sent to batchAddJobEntries; the other fields are optional and only written as text
+const isNewJobEntry = (entry: unknown): entry is NewJobEntry =>
+  !!entry && typeof entry === 'object' && typeof (entry as NewJobEntry).date === 'string' && typeof (entry as NewJobEntry).jobUrl === 'string';
+
+// Checkboxes read back as booleans but are written as "TRUE"/"FALSE"
+const normalizeCellValue = (value: unknown) => (typeof value === 'boolean' ? String(value).toUpperCase() : String(value ?? ''));
+
+/**
+ * Puts back the values a feedback batch overwrote. Cells edited since the batch was written
+ * are left alone and returned as changed.
+ */
+async function restoreFeedbackBatch(
+  sheets: sheets_v4.Sheets,
+  spreadsheetId: string,
+  batch: FeedbackBatch
+): Promise<{ restored: number; changed: string[] }> {
+  const response = await sheets.spreadsheets.values.batchGet({
+    spreadsheetId,
+    ranges: batch.cells.map(cell => cell.range),
+    valueRenderOption: 'FORMULA',
+  });
+  const valueRanges = response.data.valueRanges || [];
+
+  const restores: Array<{ range: string; values: CellValue[][] }> = [];
+  const changed: string[] = [];
+  batch.cells.forEach((cell, index) => {
+    const current = valueRanges[index]?.values?.[0]?.[0] ?? '';
+    if (normalizeCellValue(current) === normalizeCellValue(cell.written)) {
+      restores.push({ range: cell.range, values: [[cell.previous]] });
+    } else {
+      changed.push(cell.range);
+    }
+  });
+
+  if (restores.length > 0) {
+    await sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        valueInputOption: 'USER_ENTERED',
+        data: restores,
+      },
+    });
+  }
+  return { restored: restores.length, changed };
+}
+
+/**
+ * Runs a Google Sheets action (?action=...) against the request's spreadsheet
+ */
+export async function handleSheetsRequest(request: ApiRequest): Promise<ApiResult> {
+  const { user, denied } = await requireUser(request, ACTION_ROLES[String(request.query.action)]);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    // Get the credential ID and spreadsheet ID from request body if provided
+    const {
+      credentials: inlineCredentials,
+      profileId,
+      credentialId: requestCredentialId,
+      spreadsheetId: requestSpreadsheetId,
+      columnMapping: requestColumnMapping,
+      ...bodyData
+    } = getBodyObject(request);
+    if (inlineCredentials) {
+      return reply(400, {
+        success: false,
+        error: 'Service account keys are no longer accepted with each request. Upload the key once via /api/credentials and send its credentialId.',
+      });
+    }
+
+    let connection = { credentialId: requestCredentialId, spreadsheetId: requestSpreadsheetId, columnMapping: requestColumnMapping };
+    if (profileId) {
+      // An assigned profile supplies the connection, so bidders never see its credential
+      const profile = typeof profileId === 'string' ? await getUsableProfile(user, profileId) : null;
+      if (!profile) {
+        return reply(403, { success: false, error: 'This profile is not assigned to you. Ask your Bid Manager to assign it again.' });
+      }
+      connection = { credentialId: profile.credentialId, spreadsheetId: profile.spreadsheetId, columnMapping: profile.columnMapping };
+    } else if (typeof connection.credentialId === 'string' && connection.credentialId) {
+      // A credential sent directly must be the user's own (assigned ones go through profileId)
+      if ((await checkCredentialAccess(user, connection.credentialId)) === 'denied') {
+        return reply(403, { success: false, error: 'This credential belongs to another user' });
+      }
+    }
+    const credentials = resolveServiceAccount(user, await getRequestCredentials(connection.credentialId));
+    const { auth, sheets, drive } = initializeSheetsClient(credentials);
+    const spreadsheetId = getSpreadsheetId(typeof connection.spreadsheetId === 'string' ? connection.spreadsheetId : undefined);
+    // Per-spreadsheet column layout; missing columns fall back to the default A–J layout
+    const columnMapping = resolveColumnMapping(connection.columnMapping as Partial<ColumnMapping> | undefined);
+    const dataRange = getMappingRange(columnMapping);
+    const { action } = request.query;
+    
+    // Debug logging
+    console.log('[API] Received request:', { 
+      action, 
+      method: request.method,
+      hasCredentialId: !!connection.credentialId,
+      hasProfileId: !!profileId,
+      hasSpreadsheetId: !!connection.spreadsheetId,
+      hasColumnMapping: !!connection.columnMapping,
+      bodyKeys: Object.keys(bodyData || {})
+    });
+    
+    if (!action || typeof action !== 'string') {
+      return reply(400, { 
+        success: false, 
+        error: `Action parameter is required. Received: ${action}. Use ?action=getAllTabs or similar.` 
+      });
+    }
+
+    switch (action) {
+      case 'getAllTabs': {
+        const response = await sheets.spreadsheets.get({ spreadsheetId });
+        const tabs = (response.data.sheets || []).map(sheet => sheet.properties?.title || '');
+        return reply(200, { success: true, data: tabs });
+      }
+
+      case 'getTabData': {
+        const { tabName } = bodyData;
+        if (!tabName || typeof tabName !== 'string') {
+          return reply(400, { success: false, error: 'tabName is required' });
+        }
+        const response = await sheets.spreadsheets.values.get({
+          spreadsheetId,
+          range: `${quoteTabName(tabName)}!${dataRange}`,
+        });
+        return reply(200, { success: true, data: response.data.values || [] });
+      }
+
+      case 'getAllJobUrls': {
+        // Optional tabNames limits the result; refresh forces every tab to be re-read
+        const { tabNames, refresh } = bodyData;
+        const { index } = await getUrlIndex(sheets, drive, spreadsheetId, columnMapping, { forceRefresh: !!refresh });
+        const filter = Array.isArray(tabNames) ? tabNames : undefined;
+        return reply(200, { success: true, data: getIndexedEntries(index, filter) });
+      }
+
+      case 'getJobUrlsFromTabs': {
+        const { tabNames, refresh } = bodyData;
+        if (!tabNames || !Array.isArray(tabNames) || tabNames.length === 0) {
+          return reply(400, { success: false, error: 'tabNames array is required' });
+        }
+
+        const { index } = await getUrlIndex(sheets, drive, spreadsheetId, columnMapping, { forceRefresh: !!refresh });
+        const allUrls = getIndexedEntries(index, tabNames);
+        const missingTabs = tabNames.filter((tabName: string) => !index.tabs.has(tabName));
+        if (missingTabs.length > 0) {
+          console.error(`Tabs not found in spreadsheet: ${missingTabs.join(', ')}`);
+        }
+
+        console.log(`Total URLs from ${tabNames.length} tab(s): ${allUrls.length}`);
+        return reply(200, { success: true, data: allUrls });
+      }
+
+      case 'lookupUrls':
+      case 'isDuplicate': {
+        // Answers duplicate checks for many URLs in one request from the spreadsheet's URL index.
+        // Optional tabNames or lastTabs (the last N tabs in sheet order) limit where matches count.
+        const { url, urls, tabNames, lastTabs, refresh } = bodyData;
+        const urlList = action === 'isDuplicate' ? [url] : urls;
+        if (!Array.isArray(urlList) || urlList.length === 0 || urlList.some(item => typeof item !== 'string' || !item)) {
+          return reply(400, {
+            success: false,
+            error: action === 'isDuplicate' ? 'url is required' : 'urls must be a non-empty array of strings',
+          });
+        }
+
+        const { index, refreshedTabs } = await getUrlIndex(sheets, drive, spreadsheetId, columnMapping, { forceRefresh: !!refresh });
+        let scope: string[] | undefined;
+        if (Array.isArray(tabNames)) {
+          scope = tabNames;
+        } else if (typeof lastTabs === 'number' && lastTabs > 0) {
+          scope = index.tabOrder.slice(-lastTabs);
+        }
+
+        const results = (urlList as string[]).map(item => {
+          const matches = lookupUrl(index, item, scope);
+          return { url: item, isDuplicate: matches.length > 0, matches };
+        });
+
+        if (action === 'isDuplicate') {
+          return reply(200, { success: true, data: results[0] });
+        }
+        return reply(200, {
+          success: true,
+          data: {
+            results,
+            tabNames: scope || index.tabOrder,
+            indexedUrlCount: getIndexedEntries(index, scope).length,
+            refreshedTabs,
+          },
+        });
+      }
+
+      case 'batchUpdateFeedback': {
+        // dryRun returns what each row would get (and which rows would be skipped) without writing
+        const { updates, dryRun } = bodyData;
+        if (!Array.isArray(updates)) {
+          return reply(400, { success: false, error: 'updates must be an array' });
+        }
+        if (dryRun) {
+          const plan = await planFeedbackUpdates(sheets, spreadsheetId, columnMapping, updates);
+          return reply(200, { success: true, data: previewFeedbackUpdates(plan, columnMapping, updates) });
+        }
+        return writeFeedbackUpdates(sheets, spreadsheetId, columnMapping, updates, user.email);
+      }
+
+      case 'undoFeedbackBatch': {
+        const { batchId } = bodyData;
+        if (typeof batchId !== 'string' || !batchId) {
+          return reply(400, { success: false, error: 'batchId is required' });
+        }
+        const batch = await claimFeedbackBatch(batchId, spreadsheetId, user);
+        if (batch === 'missing') {
+          return reply(404, { success: false, error: 'This marking was already undone or is too old to undo' });
+        }
+        if (batch === 'denied') {
+          return reply(403, { success: false, error: 'Only the Bid Manager who made this marking, or an admin, can undo it' });
+        }
+
+        try {
+          const result = await restoreFeedbackBatch(sheets, spreadsheetId, batch);
+          console.log(`Undid feedback batch ${batch.id}: ${result.restored} cell(s) restored, ${result.changed.length} changed since`);
+          return reply(200, { success: true, data: result });
+        } catch (undoError) {
+          await releaseFeedbackBatch(batch.id);
+          throw undoError;
+        }
+      }
+
+      case 'markDuplicates': {
+        // Writes the standard duplicate feedback to the original row of each URL found in the
+        // URL index (optionally limited to tabNames); the caller can't choose rows or text
+        const { urls, tabNames } = bodyData;
+        if (!Array.isArray(urls) || urls.some(item => typeof item !== 'string')) {
+          return reply(400, { success: false, error: 'urls must be an array of strings' });
+        }
+
+        const { index } = await getUrlIndex(sheets, drive, spreadsheetId, columnMapping);
+        const scope = Array.isArray(tabNames) ? tabNames : undefined;
+        const updates = new Map<string, FeedbackUpdate>();
+        for (const item of urls as string[]) {
+          // The earliest matching row is the original the link duplicates
+          const [original] = lookupUrl(index, item, scope);
+          if (original) {
+            updates.set(`${original.tabName}!${original.rowIndex}`, {
+              tabName: original.tabName,
+              rowIndex: original.rowIndex,
+              feedback: buildDuplicateFeedback(original),
+              sourceColumn: original.sourceColumn,
+            });
+          }
+        }
+
+        if (updates.size === 0) {
+          return reply(200, { success: true, message: 'No duplicates to mark', updated: 0 });
+        }
+        return writeFeedbackUpdates(sheets, spreadsheetId, columnMapping, [...updates.values()], user.email);
+      }
+
+      case 'batchAddJobEntries': {
+        const { tabName, entries } = bodyData;
+        if (!tabName || typeof tabName !== 'string' || !Array.isArray(entries)) {
+          return reply(400, { success: false, error: 'tabName and entries are required' });
+        }
+        if (!entries.every(isNewJobEntry)) {
+          return reply(400, { success: false, error: 'Every entry needs a date and a jobUrl' });
+        }
+        if (entries.length === 0) {
+          return reply(200, { success: true, data: { tabName, rows: [] } });
+        }
+
+        // Rows are numbered from what the tab holds, so two additions to the same tab at once would
+        // pick the same rows; reading and writing under one lock keeps the second one after the first
+        const rows = await withDataLock(`sheet-rows:${spreadsheetId}:${tabName}`, async () => {
+          const dataResponse = await sheets.spreadsheets.values.get({
+            spreadsheetId,
+            range: `${quoteTabName(tabName)}!${dataRange}`,
+          });
+          const data = dataResponse.data.values || [];
+
+          // Append after the last row that has a Date or Job Url, so gaps left in the
+          // middle of the tab never cause existing rows below them to be overwritten
+          let lastFilledRow = 1; // Header row
+          let lastNo = 0;
+          for (let i = 1; i < data.length; i++) {
+            if (getCellValue(data[i], columnMapping, 'date') || getCellValue(data[i], columnMapping, 'jobUrl')) {
+              lastFilledRow = i + 1;
+              const no = parseInt(getCellValue(data[i], columnMapping, 'no'), 10);
+              if (!isNaN(no) && no > lastNo) {
+                lastNo = no;
+              }
+            }
+          }
+          const startRow = lastFilledRow + 1;
+          const endRow = startRow + entries.length - 1;
+
+          const newRows = entries.map(({ date, jobUrl }, index) => ({
+            rowIndex: startRow + index,
+            no: lastNo + index + 1,
+            date: asCellText(date),
+            jobUrl: asCellText(jobUrl),
+          }));
+
+          // Write the Date, No. and Job Url columns as separate ranges in one batch (all or nothing),
+          // leaving the columns between them (which may hold formulas in custom layouts) untouched
+          const writes: sheets_v4.Schema$ValueRange[] = [
+            {
+              range: `${quoteTabName(tabName)}!${columnMapping.date}${startRow}:${columnMapping.date}${endRow}`,
+              values: newRows.map(row => [row.date]),
+            },
+            {
+              range: `${quoteTabName(tabName)}!${columnMapping.no}${startRow}:${columnMapping.no}${endRow}`,
+              values: newRows.map(row => [row.no]),
+            },
+            {
+              range: `${quoteTabName(tabName)}!${columnMapping.jobUrl}${startRow}:${columnMapping.jobUrl}${endRow}`,
+              values: newRows.map(row => [row.jobUrl]),
+            },
+          ];
+
+          // Job Site, Company Name, Position and the mapped detail columns (Salary, ...) are only
+          // written when some entry has a value for them
+          const optionalColumns: Array<{ letter?: string; values: string[] }> = [
+            ...ENTRY_TEXT_COLUMNS.map(column => ({
+              letter: columnMapping[column],
+              values: entries.map(entry => asCellText(entry[column])),
+            })),
+            ...DETAIL_COLUMNS.map(column => ({
+              letter: columnMapping[column],
+              values: entries.map(entry => asCellText(entry.details?.[column])),
+            })),
+          ];
+          for (const { letter, values } of optionalColumns) {
+            if (letter && values.some(Boolean)) {
+              writes.push({
+                range: `${quoteTabName(tabName)}!${letter}${startRow}:${letter}${endRow}`,
+                values: values.map(value => [value]),
+              });
+            }
+          }
+
+          await sheets.spreadsheets.values.batchUpdate({
+            spreadsheetId,
+            requestBody: { valueInputOption: 'USER_ENTERED', data: writes },
+          });
+          return newRows;
+        });
+        invalidateUrlIndex(spreadsheetId);
+
+        return reply(200, { success: true, data: { tabName, rows } });
+      }
+
+      case 'ensureTabForDate': {
+        // Return the tab covering a date, creating the week's tab from the most recent one if missing
+        const { date } = bodyData;
+        if (typeof date !== 'string' || !isValidDateFormat(date)) {
+          return reply(400, { success: false, error: 'date is required in MM/DD/YYYY format' });
+        }
+        const targetDate = parseDate(date);
+
+        const spreadsheetResponse = await sheets.spreadsheets.get({
+          spreadsheetId,
+          fields: 'sheets(properties(sheetId,title))',
+        });
+        const sheetProperties = (spreadsheetResponse.data.sheets || []).map(sheet => sheet.properties || {});
+        const tabNames = sheetProperties.map(properties => properties.title || '');
+
+        const existingTab = findTabForDate(targetDate, tabNames);
+        if (existingTab) {
+          return reply(200, { success: true, data: { tabName: existingTab, created: false } });
+        }
+
+        const templateTab = findLatestTab(tabNames);
+        const template = sheetProperties.find(properties => properties.title === templateTab);
+        if (!template || template.sheetId == null) {
+          return reply(400, { success: false, error: 'Spreadsheet has no tab to copy the header row from' });
+        }
+
+        const tabName = generateTabName(targetDate);
+        const usedSheetIds = new Set(sheetProperties.map(properties => properties.sheetId));
+        let newSheetId: number;
+        do {
+          newSheetId = Math.floor(Math.random() * 2_000_000_000) + 1;
+        } while (usedSheetIds.has(newSheetId));
+
+        try {
+          // Duplicate the template (header row, formatting, checkbox validation) and clear
+          // every value below the header in one batch, so a half-copied tab is never left behind
+          await sheets.spreadsheets.batchUpdate({
+            spreadsheetId,
+            requestBody: {
+              requests: [
+                {
+                  duplicateSheet: {
+                    sourceSheetId: template.sheetId,
+                    newSheetId,
+                    newSheetName: tabName,
+                    insertSheetIndex: getTabInsertIndex(tabNames, tabName),
+                  },
+                },
+                {
+                  updateCells: {
+                    range: { sheetId: newSheetId, startRowIndex: 1 },
+                    fields: 'userEnteredValue',
+                  },
+                },
+              ],
+            },
+          });
+        } catch (createError) {
+          // Another bidder created the same week's tab first
+          if ((createError as Error).message?.includes('already exists')) {
+            return reply(200, { success: true, data: { tabName, created: false } });
+          }
+          throw createError;
+        }
+
+        invalidateUrlIndex(spreadsheetId);
+        console.log(`Created tab "${tabName}" from template "${templateTab}"`);
+        return reply(200, { success: true, data: { tabName, created: true, templateTab } });
+      }
+
+      case 'detectColumnMapping': {
+        // Propose a column mapping from a tab's header row (defaults to the most recent tab)
+        let tabName = typeof bodyData.tabName === 'string' ? bodyData.tabName : '';
+        if (!tabName) {
+          const tabsResponse = await sheets.spreadsheets.get({ spreadsheetId });
+          const tabs = (tabsResponse.data.sheets || []).map(sheet => sheet.properties?.title || '');
+          tabName = tabs[tabs.length - 1];
+        }
+        if (!tabName) {
+          return reply(400, { success: false, error: 'Spreadsheet has no tabs to read a header row from' });
+        }
+
+        const headerResponse = await sheets.spreadsheets.values.get({
+          spreadsheetId,
+          range: `${quoteTabName(tabName)}!1:1`,
+        });
+        const headers = (headerResponse.data.values || [])[0] || [];
+        const detected = detectColumnMapping(headers);
+
+        return reply(200, { success: true, data: { tabName, headers, ...detected } });
+      }
+
+      case 'validateSchema': {
+        // Report tabs with unexpected headers, non-date names, or merged/protected Approved/Feedback columns
+        const spreadsheetResponse = await sheets.spreadsheets.get({
+          spreadsheetId,
+          fields: 'sheets(properties(title),merges,protectedRanges)',
+        });
+        const sheetList = spreadsheetResponse.data.sheets || [];
+        const tabNames = sheetList.map(sheet => sheet.properties?.title || '');
+
+        const headerResponse = tabNames.length > 0
+          ? await sheets.spreadsheets.values.batchGet({
+              spreadsheetId,
+              ranges: tabNames.map(tabName => `${quoteTabName(tabName)}!1:1`),
+            })
+          : null;
+        const valueRanges = headerResponse?.data.valueRanges || [];
+
+        const tabs = sheetList.map((sheet, index) => validateTabSchema(
+          {
+            tabName: tabNames[index],
+            headers: (valueRanges[index]?.values || [])[0] || [],
+            merges: sheet.merges,
+            protectedRanges: sheet.protectedRanges,
+          },
+          columnMapping
+        ));
+
+        return reply(200, {
+          success: true,
+          data: {
+            tabs,
+            invalidCount: tabs.filter(tab => !tab.isValid).length,
+            columnMapping,
+          },
+        });
+      }
+
+      case 'testConnection': {
+        // Health check run before an account is used: sign-in, sharing, edit rights and tab names
+        const result = await testSheetsConnection(auth, sheets, drive, credentials.client_email, spreadsheetId, columnMapping);
+        return reply(200, { success: true, data: result });
+      }
+
+      default:
+        return reply(400, { 
+          success: false, 
+          error: `Invalid action: "${action}". Available actions: getAllTabs, getTabData, getAllJobUrls, getJobUrlsFromTabs, lookupUrls, isDuplicate, batchUpdateFeedback, undoFeedbackBatch, markDuplicates, batchAddJobEntries, ensureTabForDate, detectColumnMapping, validateSchema, testConnection` 
+        });
+    }
+  } catch (error) {
+    console.error('API Error:', error);
+    const errorMessage = (error as Error).message || 'Internal server error';
+    
+    // Provide more specific error messages
+    if (errorMessage.includes('Spreadsheet ID')) {
+      return reply(400, { 
+        success: false, 
+        error: errorMessage 
+      });
+    }
+    
+    if (errorMessage.includes('service account') || errorMessage.includes('credentials')) {
+      return reply(401, { 
+        success: false, 
+        error: errorMessage 
+      });
+    }
+    
+    return reply(500, { 
+      success: false, 
+      error: errorMessage 
+    });
+  }
+}
+
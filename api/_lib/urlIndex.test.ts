@@ -0,0 +1,149 @@
+import type { drive_v3, sheets_v4 } from 'googleapis';
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_COLUMN_MAPPING, columnLetterToIndex } from '../../src/utils/columnSchema';
+import { extractJobUrls, getUrlIndex, lookupUrl } from './urlIndex';
+
+const HEADER = ['Date', 'No.', 'Job Site', 'Company Name', 'Position', 'Job Url', 'Applied Url', 'Approved', 'Feedback', 'Bonus'];
+
+const row = (no: number, jobUrl: string, appliedUrl = '', position = 'Engineer') =>
+  ['01/15/2024', String(no), 'LinkedIn', 'Acme', position, jobUrl, appliedUrl, 'TRUE', '', ''];
+
+describe('extractJobUrls', () => {
+  it('lists the Job Url and a different Applied Url as separate entries of one row', () => {
+    const entries = extractJobUrls([HEADER, row(1, 'https://a.com/job/1', 'https://a.com/apply/1')], 'Tab', DEFAULT_COLUMN_MAPPING);
+    expect(entries).toEqual([
+      expect.objectContaining({ url: 'https://a.com/job/1', rowIndex: 2, sourceColumn: 'F', no: '1', companyName: 'Acme', approved: true }),
+      expect.objectContaining({ url: 'https://a.com/apply/1', rowIndex: 2, sourceColumn: 'G' }),
+    ]);
+  });
+
+  it('lists an Applied Url equal to the Job Url once', () => {
+    const entries = extractJobUrls([HEADER, row(1, 'https://a.com/job/1', 'https://a.com/job/1')], 'Tab', DEFAULT_COLUMN_MAPPING);
+    expect(entries.map(entry => entry.sourceColumn)).toEqual(['F']);
+  });
+
+  it('skips the header, empty rows and rows without URLs, keeping sheet row numbers', () => {
+    const entries = extractJobUrls([HEADER, [], row(2, ''), row(3, '', 'https://a.com/apply/3')], 'Tab', DEFAULT_COLUMN_MAPPING);
+    expect(entries).toEqual([expect.objectContaining({ url: 'https://a.com/apply/3', rowIndex: 4, sourceColumn: 'G' })]);
+  });
+
+  it('reads the columns of a custom layout', () => {
+    const mapping = { ...DEFAULT_COLUMN_MAPPING, jobUrl: 'B', no: 'F' };
+    const entries = extractJobUrls([['Date', 'Job Url'], ['01/15/2024', 'https://a.com/job/9']], 'Tab', mapping);
+    expect(entries).toEqual([expect.objectContaining({ url: 'https://a.com/job/9', sourceColumn: 'F' })]);
+  });
+});
+
+/**
+ * Sheets and Drive clients over in-memory tabs, counting the tabs each read covers
+ */
+function createClients(tabs: Record<string, { rowCount: number; rows: unknown[][] }>) {
+  let modifiedTime = '2024-01-15T10:00:00.000Z';
+  const reads = { fullTabs: [] as string[], fingerprintTabs: [] as string[] };
+
+  const readRange = (range: string) => {
+    const [, tabName, first, last] = range.match(/^'(.*)'!([A-Z]+):([A-Z]+)$/)!;
+    const rows = tabs[tabName].rows;
+    if (first !== last) {
+      reads.fullTabs.push(tabName);
+      return { values: rows };
+    }
+    reads.fingerprintTabs.push(tabName);
+    return { values: rows.map(cells => [cells[columnLetterToIndex(first)] ?? '']) };
+  };
+
+  const sheets = {
+    spreadsheets: {
+      get: vi.fn(async () => ({
+        data: { sheets: Object.entries(tabs).map(([title, tab]) => ({ properties: { title, gridProperties: { rowCount: tab.rowCount } } })) },
+      })),
+      values: {
+        batchGet: vi.fn(async ({ ranges }: { ranges: string[] }) => ({ data: { valueRanges: ranges.map(readRange) } })),
+      },
+    },
+  } as unknown as sheets_v4.Sheets;
+  const drive = {
+    files: { get: vi.fn(async () => ({ data: { modifiedTime } })) },
+  } as unknown as drive_v3.Drive;
+
+  return {
+    sheets,
+    drive,
+    reads,
+    touch: () => {
+      modifiedTime = new Date(Date.parse(modifiedTime) + 1000).toISOString();
+    },
+    clearReads: () => {
+      reads.fullTabs = [];
+      reads.fingerprintTabs = [];
+    },
+  };
+}
+
+describe('getUrlIndex', () => {
+  const spreadsheetTabs = () => ({
+    'Week 1': { rowCount: 100, rows: [HEADER, row(1, 'https://a.com/job/1')] },
+    'Week 2': { rowCount: 100, rows: [HEADER, row(1, 'https://a.com/job/2')] },
+  });
+
+  it('reads every tab the first time', async () => {
+    const clients = createClients(spreadsheetTabs());
+    const { index, refreshedTabs } = await getUrlIndex(clients.sheets, clients.drive, 'sheet-first', DEFAULT_COLUMN_MAPPING);
+    expect(refreshedTabs).toEqual(['Week 1', 'Week 2']);
+    expect(lookupUrl(index, 'https://a.com/job/2?utm_source=x')).toEqual([expect.objectContaining({ tabName: 'Week 2', rowIndex: 2 })]);
+  });
+
+  it('reads nothing from Sheets while Drive reports the file unchanged', async () => {
+    const clients = createClients(spreadsheetTabs());
+    await getUrlIndex(clients.sheets, clients.drive, 'sheet-unchanged', DEFAULT_COLUMN_MAPPING);
+    const now = vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 60_000);
+    clients.clearReads();
+
+    const { refreshedTabs } = await getUrlIndex(clients.sheets, clients.drive, 'sheet-unchanged', DEFAULT_COLUMN_MAPPING);
+    now.mockRestore();
+    expect(refreshedTabs).toEqual([]);
+    expect(clients.sheets.spreadsheets.get).toHaveBeenCalledTimes(1);
+    expect(clients.reads).toEqual({ fullTabs: [], fingerprintTabs: [] });
+  });
+
+  it('re-reads only the tab edited in place when the file changed', async () => {
+    const tabs = spreadsheetTabs();
+    const clients = createClients(tabs);
+    await getUrlIndex(clients.sheets, clients.drive, 'sheet-edited', DEFAULT_COLUMN_MAPPING);
+    tabs['Week 1'].rows[1] = row(1, 'https://a.com/job/1', '', 'Staff Engineer');
+    clients.touch();
+    clients.clearReads();
+
+    const { index, refreshedTabs } = await getUrlIndex(clients.sheets, clients.drive, 'sheet-edited', DEFAULT_COLUMN_MAPPING);
+    expect(refreshedTabs).toEqual([]); // Still within the freshness window
+    const now = vi.spyOn(Date, 'now').mockReturnValue(index.checkedAt + 60_000);
+    const refreshed = await getUrlIndex(clients.sheets, clients.drive, 'sheet-edited', DEFAULT_COLUMN_MAPPING);
+    now.mockRestore();
+
+    expect(refreshed.refreshedTabs).toEqual(['Week 1']);
+    expect(clients.reads.fullTabs).toEqual(['Week 1']);
+    expect(lookupUrl(refreshed.index, 'https://a.com/job/1')[0].position).toBe('Staff Engineer');
+  });
+
+  it('re-reads a resized tab without fingerprinting it', async () => {
+    const tabs = spreadsheetTabs();
+    const clients = createClients(tabs);
+    await getUrlIndex(clients.sheets, clients.drive, 'sheet-resized', DEFAULT_COLUMN_MAPPING);
+    tabs['Week 2'] = { rowCount: 200, rows: [...tabs['Week 2'].rows, row(2, 'https://a.com/job/3')] };
+    clients.touch();
+    clients.clearReads();
+
+    const { refreshedTabs } = await getUrlIndex(clients.sheets, clients.drive, 'sheet-resized', DEFAULT_COLUMN_MAPPING, { forceRefresh: true });
+    expect(refreshedTabs).toEqual(['Week 1', 'Week 2']); // A forced refresh re-reads every tab
+
+    tabs['Week 2'] = { rowCount: 300, rows: [...tabs['Week 2'].rows, row(3, 'https://a.com/job/4')] };
+    clients.touch();
+    clients.clearReads();
+    const now = vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 60_000);
+    const refreshed = await getUrlIndex(clients.sheets, clients.drive, 'sheet-resized', DEFAULT_COLUMN_MAPPING);
+    now.mockRestore();
+
+    expect(refreshed.refreshedTabs).toEqual(['Week 2']);
+    expect(clients.reads).toEqual({ fullTabs: ['Week 2'], fingerprintTabs: Array(8).fill('Week 1') });
+  });
+});
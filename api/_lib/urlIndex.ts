@@ -0,0 +1,269 @@
+import type { drive_v3, sheets_v4 } from 'googleapis';
+import type { ColumnMapping, JobColumn } from '../../src/types';
+import { columnLetterToIndex, getCellValue, getMappingRange } from '../../src/utils/columnSchema';
+import { normalizeUrl } from '../../src/utils/duplicateChecker';
+
+export type JobUrlEntry = {
+  url: string;
+  tabName: string;
+  rowIndex: number;
+  position: string;
+  date: string;
+  no: string;
+  companyName: string;
+  approved: boolean;
+  bonus: string;
+  sourceColumn: 'F' | 'G';
+};
+
+interface TabIndex {
+  rowCount: number;
+  fingerprint: string;
+  entries: JobUrlEntry[];
+}
+
+/**
+ * Every Job Url / Applied Url of one spreadsheet, with the row details copied into each entry
+ * (see INDEXED_COLUMNS), kept in memory between requests (per warm server instance) and
+ * refreshed tab by tab
+ */
+export interface UrlIndex {
+  tabOrder: string[];
+  tabs: Map<string, TabIndex>;
+  byUrl: Map<string, JobUrlEntry[]>; // normalized URL -> rows, earliest tab first
+  modifiedTime: string | null; // Drive's modified time of the file when it was last read
+  checkedAt: number;
+}
+
+// Every column extractJobUrls copies into an entry. The fingerprint covers all of them, so an
+// edited Position, Company or Date (read by the company/position rule) or Approved/Bonus (which
+// pick the original of a duplicate group) refreshes the tab, not only a changed URL.
+const INDEXED_COLUMNS: JobColumn[] = ['jobUrl', 'appliedUrl', 'position', 'date', 'no', 'companyName', 'approved', 'bonus'];
+
+// Lookups within this window reuse the index without checking the sheet for changes
+const FRESH_MS = 15_000;
+
+const indexes = new Map<string, UrlIndex>();
+
+/**
+ * Quotes a tab name for an A1 range so names with spaces or symbols can't break a batch read
+ */
+export function quoteTabName(tabName: string): string {
+  return `'${tabName.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Extracts Job Url and Applied Url entries from a tab's rows using the column mapping, each
+ * with the row's other indexed columns. Row 0 is the header row; an Applied Url is only listed
+ * when it differs from the Job Url.
+ */
+export function extractJobUrls(data: unknown[][], tabName: string, columnMapping: ColumnMapping): JobUrlEntry[] {
+  const urls: JobUrlEntry[] = [];
+
+  for (let i = 1; i < data.length; i++) {
+    const row = data[i];
+    // Ensure row has enough elements (handle sparse arrays from Google Sheets)
+    if (!row || row.length === 0) continue;
+
+    const jobUrl = getCellValue(row, columnMapping, 'jobUrl');
+    const appliedUrl = getCellValue(row, columnMapping, 'appliedUrl');
+    const base = {
+      tabName,
+      rowIndex: i + 1,
+      position: getCellValue(row, columnMapping, 'position'),
+      date: getCellValue(row, columnMapping, 'date'),
+      no: getCellValue(row, columnMapping, 'no'),
+      companyName: getCellValue(row, columnMapping, 'companyName'),
+      approved: getCellValue(row, columnMapping, 'approved').toUpperCase() === 'TRUE',
+      bonus: getCellValue(row, columnMapping, 'bonus'),
+    };
+
+    if (jobUrl) {
+      urls.push({ ...base, url: jobUrl, sourceColumn: 'F' });
+    }
+
+    if (appliedUrl && appliedUrl !== jobUrl) {
+      urls.push({ ...base, url: appliedUrl, sourceColumn: 'G' });
+    }
+  }
+
+  return urls;
+}
+
+/**
+ * Cheap string hash (djb2) for change detection
+ */
+function hashString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Fingerprint of a tab's indexed entries, for finding tabs edited since the last read
+ */
+const fingerprintEntries = (entries: JobUrlEntry[]) => hashString(JSON.stringify(entries));
+
+/**
+ * Rebuilds sheet rows from single-column reads, so extractJobUrls can read them by column letter
+ */
+function readColumnsAsRows(columns: Array<{ letter: string; values: unknown[][] }>): unknown[][] {
+  const rows: unknown[][] = [];
+  for (const { letter, values } of columns) {
+    const columnIndex = columnLetterToIndex(letter);
+    values.forEach((cells, rowIndex) => {
+      rows[rowIndex] = rows[rowIndex] || [];
+      rows[rowIndex][columnIndex] = cells?.[0];
+    });
+  }
+  return rows;
+}
+
+const getIndexKey = (spreadsheetId: string, columnMapping: ColumnMapping) =>
+  `${spreadsheetId}|${JSON.stringify(columnMapping)}`;
+
+/**
+ * Forces the next lookup to check the spreadsheet for changes (call after writing to it)
+ */
+export function invalidateUrlIndex(spreadsheetId: string): void {
+  for (const [key, index] of indexes.entries()) {
+    if (key.startsWith(`${spreadsheetId}|`)) {
+      index.checkedAt = 0;
+    }
+  }
+}
+
+/**
+ * Last-modified time of the spreadsheet file from Drive, or null when Drive can't be asked
+ * (e.g. the Drive API isn't enabled for the service account's project)
+ */
+async function getModifiedTime(drive: drive_v3.Drive, spreadsheetId: string): Promise<string | null> {
+  try {
+    const response = await drive.files.get({ fileId: spreadsheetId, fields: 'modifiedTime', supportsAllDrives: true });
+    return response.data.modifiedTime || null;
+  } catch (err) {
+    console.warn(`[urlIndex] Could not read the modified time of ${spreadsheetId}: ${(err as Error).message}`);
+    return null;
+  }
+}
+
+/**
+ * Returns the URL index for a spreadsheet, refreshing only tabs that changed.
+ * Drive's modified time is checked first, and an unchanged file is not read at all. Otherwise
+ * new tabs and tabs whose row count changed are re-read, and the other tabs are fingerprinted
+ * from their indexed columns to find the ones edited in place; full rows are then read (in
+ * one request) only for the changed tabs.
+ */
+export async function getUrlIndex(
+  sheets: sheets_v4.Sheets,
+  drive: drive_v3.Drive,
+  spreadsheetId: string,
+  columnMapping: ColumnMapping,
+  options: { forceRefresh?: boolean } = {}
+): Promise<{ index: UrlIndex; refreshedTabs: string[] }> {
+  const key = getIndexKey(spreadsheetId, columnMapping);
+  const cached = options.forceRefresh ? undefined : indexes.get(key);
+  if (cached && Date.now() - cached.checkedAt < FRESH_MS) {
+    return { index: cached, refreshedTabs: [] };
+  }
+
+  // Read before the tabs, so an edit made while they're read shows up as a change next time
+  const modifiedTime = await getModifiedTime(drive, spreadsheetId);
+  if (cached && modifiedTime && cached.modifiedTime === modifiedTime) {
+    cached.checkedAt = Date.now();
+    return { index: cached, refreshedTabs: [] };
+  }
+
+  const spreadsheetResponse = await sheets.spreadsheets.get({
+    spreadsheetId,
+    fields: 'sheets(properties(title,gridProperties(rowCount)))',
+  });
+  const tabProperties = (spreadsheetResponse.data.sheets || []).map(sheet => ({
+    title: sheet.properties?.title || '',
+    rowCount: sheet.properties?.gridProperties?.rowCount || 0,
+  }));
+  const tabOrder = tabProperties.map(tab => tab.title);
+  const rowCounts = new Map(tabProperties.map(tab => [tab.title, tab.rowCount]));
+
+  // A forced refresh re-reads every tab
+  const previousTabs = (!options.forceRefresh && indexes.get(key)?.tabs) || new Map<string, TabIndex>();
+  const resizedTabs = tabOrder.filter(tabName => previousTabs.get(tabName)?.rowCount !== rowCounts.get(tabName));
+  const sameSizeTabs = tabOrder.filter(tabName => !resizedTabs.includes(tabName));
+
+  // Fingerprint the tabs that kept their size from their indexed columns, in a single read
+  const fingerprintColumns = [...new Set(INDEXED_COLUMNS.map(column => columnMapping[column]))];
+  const fingerprintResponse = sameSizeTabs.length > 0
+    ? await sheets.spreadsheets.values.batchGet({
+        spreadsheetId,
+        ranges: sameSizeTabs.flatMap(tabName => fingerprintColumns.map(column => `${quoteTabName(tabName)}!${column}:${column}`)),
+      })
+    : null;
+  const fingerprintRanges = fingerprintResponse?.data.valueRanges || [];
+  const editedTabs = sameSizeTabs.filter((tabName, tabIndex) => {
+    const columns = fingerprintColumns.map((letter, columnIndex) => ({
+      letter,
+      values: fingerprintRanges[tabIndex * fingerprintColumns.length + columnIndex]?.values || [],
+    }));
+    const rows = readColumnsAsRows(columns);
+    return previousTabs.get(tabName)?.fingerprint !== fingerprintEntries(extractJobUrls(rows, tabName, columnMapping));
+  });
+  const changedTabs = tabOrder.filter(tabName => resizedTabs.includes(tabName) || editedTabs.includes(tabName));
+
+  const tabs = new Map<string, TabIndex>();
+  for (const tabName of tabOrder) {
+    const previous = previousTabs.get(tabName);
+    if (previous && !changedTabs.includes(tabName)) {
+      tabs.set(tabName, previous);
+    }
+  }
+
+  if (changedTabs.length > 0) {
+    const dataRange = getMappingRange(columnMapping);
+    const dataResponse = await sheets.spreadsheets.values.batchGet({
+      spreadsheetId,
+      ranges: changedTabs.map(tabName => `${quoteTabName(tabName)}!${dataRange}`),
+    });
+    const dataRanges = dataResponse.data.valueRanges || [];
+    changedTabs.forEach((tabName, i) => {
+      const entries = extractJobUrls(dataRanges[i]?.values || [], tabName, columnMapping);
+      tabs.set(tabName, { rowCount: rowCounts.get(tabName) || 0, fingerprint: fingerprintEntries(entries), entries });
+    });
+  }
+
+  const byUrl = new Map<string, JobUrlEntry[]>();
+  for (const tabName of tabOrder) {
+    for (const entry of tabs.get(tabName)?.entries || []) {
+      const normalized = normalizeUrl(entry.url);
+      if (!normalized) continue;
+      const matches = byUrl.get(normalized) || [];
+      matches.push(entry);
+      byUrl.set(normalized, matches);
+    }
+  }
+
+  const index: UrlIndex = { tabOrder, tabs, byUrl, modifiedTime, checkedAt: Date.now() };
+  indexes.set(key, index);
+
+  if (changedTabs.length > 0) {
+    console.log(`[urlIndex] Refreshed ${changedTabs.length} of ${tabOrder.length} tab(s) for ${spreadsheetId}`);
+  }
+  return { index, refreshedTabs: changedTabs };
+}
+
+/**
+ * Lists indexed entries in sheet order, optionally limited to some tabs
+ */
+export function getIndexedEntries(index: UrlIndex, tabNames?: string[]): JobUrlEntry[] {
+  const tabs = tabNames ? index.tabOrder.filter(tabName => tabNames.includes(tabName)) : index.tabOrder;
+  return tabs.flatMap(tabName => index.tabs.get(tabName)?.entries || []);
+}
+
+/**
+ * Finds the indexed rows whose URL matches, optionally limited to some tabs
+ */
+export function lookupUrl(index: UrlIndex, url: string, tabNames?: string[]): JobUrlEntry[] {
+  const matches = index.byUrl.get(normalizeUrl(url)) || [];
+  return tabNames ? matches.filter(entry => tabNames.includes(entry.tabName)) : matches;
+}
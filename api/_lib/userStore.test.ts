@@ -0,0 +1,62 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createInvite, createUser, findInvite, listUsers } from './userStore';
+
+const failingWrites = vi.hoisted(() => new Set<string>());
+
+vi.mock('./dataStore', async importOriginal => {
+  const dataStore = await importOriginal<typeof import('./dataStore')>();
+  return {
+    ...dataStore,
+    writeDataFile: async (fileName: string, data: unknown) => {
+      if (failingWrites.has(fileName)) {
+        throw new Error(`Could not write ${fileName}`);
+      }
+      return dataStore.writeDataFile(fileName, data);
+    },
+  };
+});
+
+describe('createUser with an invite', () => {
+  let dataDir: string;
+
+  beforeAll(() => {
+    dataDir = mkdtempSync(path.join(tmpdir(), 'user-store-'));
+    process.env.DATA_DIR = dataDir;
+  });
+
+  afterAll(() => {
+    delete process.env.DATA_DIR;
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("gives the account the invite's role and uses the invite up", async () => {
+    const { token } = await createInvite('manager@example.com', 'bid-manager', 'admin@example.com');
+    const user = await createUser('Manager', 'Manager@Example.com', 'password123', { inviteToken: token });
+
+    expect(user).toEqual({ name: 'Manager', email: 'manager@example.com', role: 'bid-manager' });
+    expect(await findInvite(token)).toBeNull();
+  });
+
+  it('keeps the invite when the account cannot be saved', async () => {
+    const { token } = await createInvite('bidder@example.com', 'bidder', 'admin@example.com');
+    failingWrites.add('users.json');
+    await expect(createUser('Bidder', 'bidder@example.com', 'password123', { inviteToken: token })).rejects.toThrow('Could not write users.json');
+    failingWrites.delete('users.json');
+
+    expect(await findInvite(token)).toMatchObject({ email: 'bidder@example.com' });
+    await createUser('Bidder', 'bidder@example.com', 'password123', { inviteToken: token });
+    expect(await findInvite(token)).toBeNull();
+  });
+
+  it('keeps the invite for another email, and a taken email does not use it up', async () => {
+    const { token } = await createInvite('new@example.com', 'bid-manager', 'admin@example.com');
+    await expect(createUser('Other', 'other@example.com', 'password123', { inviteToken: token })).rejects.toThrow('This invite is for new@example.com');
+    await expect(createUser('Manager', 'manager@example.com', 'password123', { inviteToken: token })).rejects.toThrow('already exists');
+
+    expect(await findInvite(token)).toMatchObject({ email: 'new@example.com' });
+    expect((await listUsers()).map(user => user.email)).toEqual(['manager@example.com', 'bidder@example.com']);
+  });
+});
@@ -0,0 +1,297 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import type { ManagedUser, User, UserInvite, UserRole } from '../../src/types';
+import { readDataFile, updateDataFile, withDataLock, writeDataFile } from './dataStore';
+
+/**
+ * Stored user record: the password is kept only as a salted scrypt hash
+ */
+interface StoredUserRecord {
+  email: string;
+  fullName: string;
+  role: UserRole;
+  passwordHash: string;
+  createdAt: string;
+  active?: boolean; // false once deactivated (missing on records from before deactivation existed)
+  sessionVersion?: number; // Bumped to sign out every existing session (password reset, deactivation)
+}
+
+/**
+ * Pending invite: only a hash of the one-time token is stored
+ */
+interface StoredInviteRecord extends UserInvite {
+  tokenHash: string;
+}
+
+/**
+ * A signed-in user plus the session version their cookie must carry
+ */
+export interface UserSession {
+  user: User;
+  sessionVersion: number;
+}
+
+const USERS_FILE = 'users.json';
+const INVITES_FILE = 'invites.json';
+const KEY_LENGTH = 64;
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const USER_ROLES: UserRole[] = ['admin', 'bid-manager', 'bidder'];
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+/**
+ * Hashes a password as "scrypt$<salt>$<hash>" (base64)
+ */
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'base64');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'));
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+// Verified against when the email is unknown, so sign-in takes as long either way
+const DUMMY_HASH = hashPassword(randomBytes(16).toString('hex'));
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+const isActive = (record: StoredUserRecord) => record.active !== false;
+
+const toUser = ({ email, fullName, role }: StoredUserRecord): User => ({ email, name: fullName, role });
+
+const toSession = (record: StoredUserRecord): UserSession => ({
+  user: toUser(record),
+  sessionVersion: record.sessionVersion || 0,
+});
+
+const toManagedUser = (record: StoredUserRecord): ManagedUser => ({
+  ...toUser(record),
+  active: isActive(record),
+  createdAt: record.createdAt,
+});
+
+const toInvite = ({ email, role, invitedBy, createdAt, expiresAt }: StoredInviteRecord): UserInvite => ({
+  email,
+  role,
+  invitedBy,
+  createdAt,
+  expiresAt,
+});
+
+const isPending = (invite: StoredInviteRecord) => new Date(invite.expiresAt).getTime() > Date.now();
+
+/**
+ * Whether a token matches ADMIN_SETUP_TOKEN, the server's one-off secret for creating its first admin
+ */
+function isSetupToken(token: string): boolean {
+  const setupToken = process.env.ADMIN_SETUP_TOKEN;
+  return !!setupToken && timingSafeEqual(Buffer.from(hashToken(token), 'hex'), Buffer.from(hashToken(setupToken), 'hex'));
+}
+
+/**
+ * Creates a user; throws if the email is already registered. Accounts are bidders unless created
+ * with an invite token (the role comes from the invite, which must be for the same email and is
+ * used up) or, while the server has no admin yet, with the ADMIN_SETUP_TOKEN, which makes an admin.
+ */
+export async function createUser(
+  fullName: string,
+  email: string,
+  password: string,
+  tokens: { inviteToken?: string; setupToken?: string } = {}
+): Promise<User> {
+  const normalizedEmail = normalizeEmail(email);
+  const passwordHash = await hashPassword(password);
+
+  // The email check, the invite redemption and the insert run under the users file's lock, so
+  // a taken email never uses up an invite and two signups can't both become the first admin
+  return withDataLock(USERS_FILE, async () => {
+    const users = await readDataFile<StoredUserRecord[]>(USERS_FILE, []);
+    if (users.some(user => user.email === normalizedEmail)) {
+      throw new Error('An account with this email already exists');
+    }
+
+    const saveUser = async (role: UserRole) => {
+      const record: StoredUserRecord = {
+        email: normalizedEmail,
+        fullName: fullName.trim(),
+        role,
+        passwordHash,
+        createdAt: new Date().toISOString(),
+        active: true,
+      };
+      await writeDataFile(USERS_FILE, [...users, record]);
+      return toUser(record);
+    };
+
+    if (tokens.setupToken) {
+      if (!isSetupToken(tokens.setupToken)) {
+        throw new Error('This setup link is invalid');
+      }
+      if (users.some(user => user.role === 'admin')) {
+        throw new Error('This server already has an admin. Ask them for an invite link.');
+      }
+      return saveUser('admin');
+    }
+
+    const inviteToken = tokens.inviteToken;
+    if (!inviteToken) {
+      return saveUser('bidder');
+    }
+
+    // The invite is only removed once the user is saved, with both files locked throughout, so a
+    // failed insert leaves it usable. If removing it fails, the saved account already blocks reuse.
+    return withDataLock(INVITES_FILE, async () => {
+      const invites = await readDataFile<StoredInviteRecord[]>(INVITES_FILE, []);
+      const invite = findRedeemableInvite(invites, inviteToken, normalizedEmail);
+      const user = await saveUser(invite.role);
+      await writeDataFile(INVITES_FILE, invites.filter(item => item !== invite));
+      return user;
+    });
+  });
+}
+
+/**
+ * Returns the user's session details if the email and password match an active account, otherwise null
+ */
+export async function authenticateUser(email: string, password: string): Promise<UserSession | null> {
+  const users = await readDataFile<StoredUserRecord[]>(USERS_FILE, []);
+  const record = users.find(user => user.email === normalizeEmail(email));
+  const valid = await verifyPassword(password, record ? record.passwordHash : await DUMMY_HASH);
+  return record && valid && isActive(record) ? toSession(record) : null;
+}
+
+/**
+ * Looks up an active user by email (null if unknown or deactivated)
+ */
+export async function findUserSession(email: string): Promise<UserSession | null> {
+  const users = await readDataFile<StoredUserRecord[]>(USERS_FILE, []);
+  const record = users.find(user => user.email === normalizeEmail(email));
+  return record && isActive(record) ? toSession(record) : null;
+}
+
+export async function listUsers(): Promise<ManagedUser[]> {
+  const users = await readDataFile<StoredUserRecord[]>(USERS_FILE, []);
+  return users.map(toManagedUser);
+}
+
+/**
+ * Changes a user's role or active flag. Throws if the user is unknown or the change would leave
+ * the server without an active admin.
+ */
+export async function updateUser(email: string, changes: { role?: UserRole; active?: boolean }): Promise<ManagedUser> {
+  const normalizedEmail = normalizeEmail(email);
+  return updateDataFile<StoredUserRecord[], ManagedUser>(USERS_FILE, [], users => {
+    const record = users.find(user => user.email === normalizedEmail);
+    if (!record) {
+      throw new Error(`No user with email ${normalizedEmail}`);
+    }
+
+    const updated: StoredUserRecord = { ...record, ...changes };
+    if (changes.active === false && isActive(record)) {
+      updated.sessionVersion = (record.sessionVersion || 0) + 1;
+    }
+    const updatedUsers = users.map(user => (user === record ? updated : user));
+    if (!updatedUsers.some(user => user.role === 'admin' && isActive(user))) {
+      throw new Error('At least one active admin is required');
+    }
+    return { data: updatedUsers, result: toManagedUser(updated) };
+  });
+}
+
+/**
+ * Replaces a user's password with a random temporary one (returned once) and signs out
+ * their existing sessions
+ */
+export async function resetPassword(email: string): Promise<string> {
+  const normalizedEmail = normalizeEmail(email);
+  const temporaryPassword = randomBytes(9).toString('base64url');
+  const passwordHash = await hashPassword(temporaryPassword);
+  await updateDataFile<StoredUserRecord[], void>(USERS_FILE, [], users => {
+    const record = users.find(user => user.email === normalizedEmail);
+    if (!record) {
+      throw new Error(`No user with email ${normalizedEmail}`);
+    }
+    const updated = { ...record, passwordHash, sessionVersion: (record.sessionVersion || 0) + 1 };
+    return { data: users.map(user => (user === record ? updated : user)), result: undefined };
+  });
+  return temporaryPassword;
+}
+
+/**
+ * Creates a one-time invite for an email with a pre-assigned role, replacing any earlier invite
+ * for that email. Returns the invite and its token (only this hash of it is stored).
+ */
+export async function createInvite(email: string, role: UserRole, invitedBy: string): Promise<{ invite: UserInvite; token: string }> {
+  const normalizedEmail = normalizeEmail(email);
+  const users = await readDataFile<StoredUserRecord[]>(USERS_FILE, []);
+  if (users.some(user => user.email === normalizedEmail)) {
+    throw new Error('An account with this email already exists');
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const record: StoredInviteRecord = {
+    email: normalizedEmail,
+    role,
+    invitedBy,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + INVITE_TTL_MS).toISOString(),
+    tokenHash: hashToken(token),
+  };
+  await updateDataFile<StoredInviteRecord[], void>(INVITES_FILE, [], invites => ({
+    data: [...invites.filter(invite => invite.email !== normalizedEmail && isPending(invite)), record],
+    result: undefined,
+  }));
+  return { invite: toInvite(record), token };
+}
+
+export async function listInvites(): Promise<UserInvite[]> {
+  const invites = await readDataFile<StoredInviteRecord[]>(INVITES_FILE, []);
+  return invites.filter(isPending).map(toInvite);
+}
+
+/**
+ * Returns the pending invite for a token (null if unknown, used or expired)
+ */
+export async function findInvite(token: string): Promise<UserInvite | null> {
+  const invites = await readDataFile<StoredInviteRecord[]>(INVITES_FILE, []);
+  const invite = invites.find(item => item.tokenHash === hashToken(token) && isPending(item));
+  return invite ? toInvite(invite) : null;
+}
+
+export async function revokeInvite(email: string): Promise<boolean> {
+  const normalizedEmail = normalizeEmail(email);
+  return updateDataFile<StoredInviteRecord[], boolean>(INVITES_FILE, [], invites => {
+    const remaining = invites.filter(invite => invite.email !== normalizedEmail);
+    return { data: remaining, result: remaining.length !== invites.length };
+  });
+}
+
+/**
+ * Returns the pending invite a token grants to the given email; throws if there is none
+ */
+function findRedeemableInvite(invites: StoredInviteRecord[], token: string, email: string): StoredInviteRecord {
+  const invite = invites.find(item => item.tokenHash === hashToken(token) && isPending(item));
+  if (!invite) {
+    throw new Error('This invite link is invalid or has expired');
+  }
+  if (invite.email !== email) {
+    throw new Error(`This invite is for ${invite.email}`);
+  }
+  return invite;
+}
@@ -0,0 +1,98 @@
+import type { UserRole } from '../../src/types';
+import { ApiRequest, ApiResult, getBodyObject, reply } from './http';
+import { requireUser } from './session';
+import {
+  createInvite,
+  listInvites,
+  listUsers,
+  normalizeEmail,
+  resetPassword,
+  revokeInvite,
+  updateUser,
+  USER_ROLES,
+} from './userStore';
+
+/**
+ * User management endpoint for admins (?action=list|invite|revokeInvite|setRole|setActive|resetPassword)
+ */
+export async function handleUsersRequest(request: ApiRequest): Promise<ApiResult> {
+  if (request.method !== 'POST') {
+    return reply(405, { success: false, error: 'Method not allowed' });
+  }
+
+  const { user: admin, denied } = await requireUser(request, ['admin']);
+  if (denied) {
+    return denied;
+  }
+
+  const { action } = request.query;
+  const body = getBodyObject(request);
+  const email = typeof body.email === 'string' ? normalizeEmail(body.email) : '';
+  const role = body.role as UserRole;
+
+  if (action !== 'list' && !email) {
+    return reply(400, { success: false, error: 'email is required' });
+  }
+  if ((action === 'invite' || action === 'setRole') && !USER_ROLES.includes(role)) {
+    return reply(400, { success: false, error: `role must be one of: ${USER_ROLES.join(', ')}` });
+  }
+
+  try {
+    switch (action) {
+      case 'list': {
+        const [users, invites] = await Promise.all([listUsers(), listInvites()]);
+        return reply(200, { success: true, data: { users, invites } });
+      }
+
+      case 'invite': {
+        if (!email.includes('@') || !email.includes('.')) {
+          return reply(400, { success: false, error: 'Please enter a valid email address' });
+        }
+        const { invite, token } = await createInvite(email, role, admin.email);
+        console.log(`[users] ${admin.email} invited ${invite.email} as ${invite.role}`);
+        return reply(200, { success: true, data: { invite, token } });
+      }
+
+      case 'revokeInvite': {
+        const revoked = await revokeInvite(email);
+        return reply(200, { success: true, data: { revoked } });
+      }
+
+      case 'setRole': {
+        const user = await updateUser(email, { role });
+        console.log(`[users] ${admin.email} changed the role of ${user.email} to ${user.role}`);
+        return reply(200, { success: true, data: user });
+      }
+
+      case 'setActive': {
+        if (typeof body.active !== 'boolean') {
+          return reply(400, { success: false, error: 'active must be true or false' });
+        }
+        if (email === admin.email && !body.active) {
+          return reply(400, { success: false, error: 'You cannot deactivate your own account' });
+        }
+        const user = await updateUser(email, { active: body.active });
+        console.log(`[users] ${admin.email} ${user.active ? 'reactivated' : 'deactivated'} ${user.email}`);
+        return reply(200, { success: true, data: user });
+      }
+
+      case 'resetPassword': {
+        const temporaryPassword = await resetPassword(email);
+        console.log(`[users] ${admin.email} reset the password of ${email}`);
+        return reply(200, { success: true, data: { temporaryPassword } });
+      }
+
+      default:
+        return reply(400, {
+          success: false,
+          error: `Invalid action: "${action}". Available actions: list, invite, revokeInvite, setRole, setActive, resetPassword`,
+        });
+    }
+  } catch (err) {
+    console.error('User management error:', err);
+    const message = (err as Error).message || 'Internal server error';
+    // Rule violations (unknown user, last admin, existing account) are the caller's to fix
+    const status = /No user|admin is required|already exists/.test(message) ? 400 : 500;
+    return reply(status, { success: false, error: message });
+  }
+}
@@ -0,0 +1,4 @@
+import { createVercelHandler } from './_lib/http';
+import { handleAuthRequest } from './_lib/authActions';
+
+export default createVercelHandler(handleAuthRequest);
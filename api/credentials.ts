@@ -0,0 +1,4 @@
+import { createVercelHandler } from './_lib/http';
+import { handleCredentialsRequest } from './_lib/credentialsActions';
+
+export default createVercelHandler(handleCredentialsRequest);
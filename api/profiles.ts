@@ -0,0 +1,4 @@
+import { createVercelHandler } from './_lib/http';
+import { handleProfilesRequest } from './_lib/profilesActions';
+
+export default createVercelHandler(handleProfilesRequest);
@@ -0,0 +1,4 @@
+import { createVercelHandler } from './_lib/http';
+import { handleUsersRequest } from './_lib/usersActions';
+
+export default createVercelHandler(handleUsersRequest);
@@ -0,0 +1,45 @@
+// Local API server for development: serves the same handlers as the Vercel functions in api/
+import express from 'express';
+import cors from 'cors';
+import type { ApiRequest } from './api/_lib/http';
+import { API_ROUTES } from './api/_lib/routes';
+
+const app = express();
+const PORT = 3001;
+
+app.use(cors());
+app.use(express.json());
+
+for (const [name, handler] of Object.entries(API_ROUTES)) {
+  app.all(`/api/${name}`, async (req, res) => {
+    try {
+      const result = await handler({
+        method: req.method,
+        query: req.query as ApiRequest['query'],
+        headers: req.headers,
+        body: req.body,
+      });
+      res.set(result.headers || {});
+      if (result.stream) {
+        res.status(result.status);
+        for await (const chunk of result.stream) {
+          res.write(chunk);
+        }
+        res.end();
+        return;
+      }
+      res.status(result.status).json(result.body);
+    } catch (err) {
+      console.error(`Unhandled error in /api/${name}:`, err);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json({ success: false, error: (err as Error).message || 'Internal server error' });
+    }
+  });
+}
+
+app.listen(PORT, () => {
+  console.log(`API server running on http://localhost:${PORT}`);
+});
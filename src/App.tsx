@@ -5,28 +5,47 @@ import { Login } from './components/common/Login';
 import { Layout } from './components/common/Layout';
 import { DuplicateChecker } from './components/BidManager/DuplicateChecker';
 import { JobLinkInput } from './components/Bidder/JobLinkInput';
+import { UserManager } from './components/Admin/UserManager';
+import { UserRole } from './types';
+import { ROLE_HOME_PATHS } from './utils/roles';
 import './App.css';
 
-function ProtectedRoute({ children, requiredRole }: { children: React.ReactNode; requiredRole: 'bid-manager' | 'bidder' }) {
+// Admins can open every page; other roles only their own
+function ProtectedRoute({ children, requiredRole }: { children: React.ReactNode; requiredRole: UserRole }) {
   const { user, isAuthenticated } = useAuth();
 
   if (!isAuthenticated) {
     return <Navigate to="/login" replace />;
   }
 
-  if (user?.role !== requiredRole) {
-    return <Navigate to={user?.role === 'bid-manager' ? '/bid-manager' : '/bidder'} replace />;
+  if (user && user.role !== requiredRole && user.role !== 'admin') {
+    return <Navigate to={ROLE_HOME_PATHS[user.role]} replace />;
   }
 
   return <>{children}</>;
 }
 
 function AppRoutes() {
-  const { isAuthenticated, user } = useAuth();
+  const { isAuthenticated, isLoading, user } = useAuth();
+
+  // Wait for the server session check so signed-in users aren't bounced to the login page
+  if (isLoading) {
+    return null;
+  }
 
   return (
     <Routes>
       <Route path="/login" element={!isAuthenticated ? <Login /> : <Navigate to="/" replace />} />
+      <Route
+        path="/admin"
+        element={
+          <ProtectedRoute requiredRole="admin">
+            <Layout>
+              <UserManager />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/bid-manager"
         element={
@@ -50,8 +69,8 @@ function AppRoutes() {
       <Route
         path="/"
         element={
-          isAuthenticated ? (
-            <Navigate to={user?.role === 'bid-manager' ? '/bid-manager' : '/bidder'} replace />
+          isAuthenticated && user ? (
+            <Navigate to={ROLE_HOME_PATHS[user.role]} replace />
           ) : (
             <Navigate to="/login" replace />
           )
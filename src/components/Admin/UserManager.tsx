@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { ManagedUser, UserInvite, UserRole } from '../../types';
+import { inviteUser, listUsers, resetUserPassword, revokeInvite, setUserActive, setUserRole } from '../../services/usersApi';
+import { ROLE_LABELS } from '../../utils/roles';
+import { formatDate } from '../../utils/dateUtils';
+import './UserManager.css';
+
+const ROLES: UserRole[] = ['bidder', 'bid-manager', 'admin'];
+
+export function UserManager() {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [invites, setInvites] = useState<UserInvite[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<UserRole>('bidder');
+  // One-time secrets (invite links, temporary passwords) are only shown right after they're created
+  const [notice, setNotice] = useState<{ label: string; value: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyEmail, setBusyEmail] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    try {
+      const data = await listUsers();
+      setUsers(data.users);
+      setInvites(data.invites);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Runs a change for one user, then reloads the list
+  const runForUser = async (email: string, change: () => Promise<void>) => {
+    setError(null);
+    setBusyEmail(email);
+    try {
+      await change();
+      await loadUsers();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyEmail(null);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = inviteEmail.trim();
+    if (!email) {
+      setError('Email is required');
+      return;
+    }
+    await runForUser(email, async () => {
+      const { invite, link } = await inviteUser(email, inviteRole);
+      setNotice({ label: `Invite link for ${invite.email} (${ROLE_LABELS[invite.role]}, one-time use)`, value: link });
+      setInviteEmail('');
+    });
+  };
+
+  const handleRoleChange = (user: ManagedUser, role: UserRole) =>
+    runForUser(user.email, async () => {
+      await setUserRole(user.email, role);
+    });
+
+  const handleToggleActive = (user: ManagedUser) => {
+    if (user.active && !window.confirm(`Deactivate ${user.email}? They will be signed out and unable to sign in.`)) {
+      return;
+    }
+    runForUser(user.email, async () => {
+      await setUserActive(user.email, !user.active);
+    });
+  };
+
+  const handleResetPassword = (user: ManagedUser) => {
+    if (!window.confirm(`Reset the password of ${user.email}? They will be signed out everywhere.`)) {
+      return;
+    }
+    runForUser(user.email, async () => {
+      const temporaryPassword = await resetUserPassword(user.email);
+      setNotice({ label: `Temporary password for ${user.email}`, value: temporaryPassword });
+    });
+  };
+
+  const handleRevokeInvite = (invite: UserInvite) =>
+    runForUser(invite.email, async () => {
+      await revokeInvite(invite.email);
+    });
+
+  const copyNotice = () => {
+    if (notice) {
+      navigator.clipboard.writeText(notice.value).catch(err => console.error('Error copying to clipboard:', err));
+    }
+  };
+
+  if (loading) {
+    return <div className="user-manager">Loading users...</div>;
+  }
+
+  return (
+    <div className="user-manager">
+      <div className="manager-header">
+        <h2>User Management</h2>
+        <p>Invite people with a pre-assigned role, change roles, deactivate accounts and reset passwords.</p>
+      </div>
+
+      {error && <div className="user-manager-error">{error}</div>}
+
+      {notice && (
+        <div className="user-manager-notice">
+          <span>{notice.label}:</span>
+          <code>{notice.value}</code>
+          <button type="button" onClick={copyNotice}>Copy</button>
+          <button type="button" onClick={() => setNotice(null)}>Dismiss</button>
+        </div>
+      )}
+
+      <form className="invite-form" onSubmit={handleInvite}>
+        <input
+          type="email"
+          value={inviteEmail}
+          onChange={(e) => setInviteEmail(e.target.value)}
+          placeholder="Email to invite"
+          required
+        />
+        <select value={inviteRole} onChange={(e) => setInviteRole(e.target.value as UserRole)}>
+          {ROLES.map(role => (
+            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+          ))}
+        </select>
+        <button type="submit" disabled={!!busyEmail}>Create Invite</button>
+      </form>
+
+      <h3>Users ({users.length})</h3>
+      <table className="user-table">
+        <thead>
+          <tr>
+            <th>Name</th>
+            <th>Email</th>
+            <th>Role</th>
+            <th>Status</th>
+            <th>Created</th>
+            <th>Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {users.map(user => {
+            const isSelf = user.email === currentUser?.email;
+            const busy = busyEmail === user.email;
+            return (
+              <tr key={user.email} className={user.active ? '' : 'inactive'}>
+                <td>{user.name}</td>
+                <td>{user.email}</td>
+                <td>
+                  <select
+                    value={user.role}
+                    onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                    disabled={busy || isSelf}
+                  >
+                    {ROLES.map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                </td>
+                <td>{user.active ? 'Active' : 'Deactivated'}</td>
+                <td>{formatDate(new Date(user.createdAt))}</td>
+                <td className="user-actions">
+                  <button type="button" onClick={() => handleResetPassword(user)} disabled={busy}>
+                    Reset Password
+                  </button>
+                  <button type="button" onClick={() => handleToggleActive(user)} disabled={busy || isSelf}>
+                    {user.active ? 'Deactivate' : 'Reactivate'}
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <h3>Pending Invites ({invites.length})</h3>
+      {invites.length === 0 ? (
+        <p className="no-invites">No pending invites.</p>
+      ) : (
+        <table className="user-table">
+          <thead>
+            <tr>
+              <th>Email</th>
+              <th>Role</th>
+              <th>Invited By</th>
+              <th>Expires</th>
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {invites.map(invite => (
+              <tr key={invite.email}>
+                <td>{invite.email}</td>
+                <td>{ROLE_LABELS[invite.role]}</td>
+                <td>{invite.invitedBy}</td>
+                <td>{formatDate(new Date(invite.expiresAt))}</td>
+                <td className="user-actions">
+                  <button type="button" onClick={() => handleRevokeInvite(invite)} disabled={busyEmail === invite.email}>
+                    Revoke
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
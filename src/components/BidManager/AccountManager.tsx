@@ -1,56 +1,115 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { AssignedProfile, ColumnMapping, CredentialSummary, Profile } from '../../types';
+import { deleteCredentials, uploadCredentialFile } from '../../services/credentialsApi';
+import { activateProfile, extractSpreadsheetId } from '../../services/profileStore';
+import { useProfiles } from '../../hooks/useProfiles';
+import { useConnectionHealth } from '../../hooks/useConnectionHealth';
+import { BidderUser, deleteAssignedProfile, listAssignedProfiles, listBidders, saveAssignedProfile } from '../../services/profilesApi';
+import { ColumnMappingEditor } from '../common/ColumnMappingEditor';
+import { ConnectionStatusBadge } from '../common/ConnectionStatusBadge';
+import { ProfileBundleTransfer } from '../common/ProfileBundleTransfer';
 import './AccountManager.css';
 
-export interface Account {
-  id: string;
-  name: string;
-  bidderName: string;
-  fileName: string;
-  spreadsheetId?: string; // Optional for backward compatibility
-  credentials: any;
-  createdAt: string;
-}
-
-const STORAGE_KEY = 'bidlinktracker_accounts';
-const ACTIVE_ACCOUNT_KEY = 'bidlinktracker_active_account';
+const withoutAssignment = (assignments: Record<string, AssignedProfile>, accountId: string) =>
+  Object.fromEntries(Object.entries(assignments).filter(([id]) => id !== accountId));
 
 export function AccountManager() {
-  const [accounts, setAccounts] = useState<Account[]>([]);
-  const [activeAccountId, setActiveAccountId] = useState<string | null>(null);
+  const { profiles: accounts, activeProfile, saveProfile, deleteProfile, selectProfile } = useProfiles();
+  const activeAccountId = activeProfile?.id || null;
+  const { checkConnection, getOrCheckConnection } = useConnectionHealth();
   const [showForm, setShowForm] = useState(false);
-  const [formData, setFormData] = useState({ name: '', bidderName: '', spreadsheetId: '', file: null as File | null });
+  const [formData, setFormData] = useState({
+    name: '',
+    bidderName: '',
+    spreadsheetId: '',
+    file: null as File | null,
+    columnMapping: undefined as Partial<ColumnMapping> | undefined,
+  });
   const [error, setError] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
+  // Key file uploaded for the open form (by column detection or submit), not yet saved to an account
+  const pendingUploadRef = useRef<{ file: File; credential: CredentialSummary } | null>(null);
+  // Accounts shared with bidder users, keyed by account ID
+  const [assignments, setAssignments] = useState<Record<string, AssignedProfile>>({});
+  const [bidders, setBidders] = useState<BidderUser[]>([]);
+  const [showAssignForm, setShowAssignForm] = useState(false);
+  const [assignForm, setAssignForm] = useState({ accountId: '', bidderEmail: '' });
 
   useEffect(() => {
-    loadAccounts();
+    loadAssignments();
   }, []);
 
-  const loadAccounts = () => {
+  // API calls use the active account's spreadsheet and key (kept per browser tab)
+  useEffect(() => {
+    if (activeProfile) {
+      activateProfile(activeProfile);
+    }
+  }, [activeProfile]);
+
+  const loadAssignments = async () => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const accountsList = JSON.parse(stored) as Account[];
-        setAccounts(accountsList);
-        
-        const activeId = localStorage.getItem(ACTIVE_ACCOUNT_KEY);
-        if (activeId && accountsList.find(a => a.id === activeId)) {
-          setActiveAccountId(activeId);
-          // Set active credentials in sessionStorage for API calls
-          const activeAccount = accountsList.find(a => a.id === activeId);
-          if (activeAccount) {
-            sessionStorage.setItem('bidlinktracker_service_account', JSON.stringify(activeAccount.credentials));
-            if (activeAccount.spreadsheetId) {
-              sessionStorage.setItem('bidlinktracker_spreadsheet_id', activeAccount.spreadsheetId);
-            }
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Error loading accounts:', error);
+      const [profiles, bidderUsers] = await Promise.all([listAssignedProfiles(), listBidders()]);
+      setAssignments(Object.fromEntries(profiles.map(profile => [profile.accountId, profile])));
+      setBidders(bidderUsers);
+    } catch (err) {
+      console.error('Error loading profile assignments:', err);
+    }
+  };
+
+  /**
+   * Shares an account with exactly these bidders (an empty list stops sharing it).
+   * Also called after an account is edited, so bidders always get its current settings.
+   */
+  const saveAssignment = async (account: Profile, assignedTo: string[]) => {
+    if (assignedTo.length === 0) {
+      await deleteAssignedProfile(account.id);
+      setAssignments(prev => withoutAssignment(prev, account.id));
+      return;
+    }
+    if (!account.spreadsheetId) {
+      throw new Error('Add a spreadsheet to this account before assigning it');
+    }
+    const profile = await saveAssignedProfile({
+      accountId: account.id,
+      profileName: account.name,
+      spreadsheetId: account.spreadsheetId,
+      credentialId: account.credentialId,
+      clientEmail: account.clientEmail,
+      columnMapping: account.columnMapping,
+      assignedTo,
+    });
+    setAssignments(prev => ({ ...prev, [account.id]: profile }));
+  };
+
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const account = accounts.find(a => a.id === assignForm.accountId);
+    if (!account || !assignForm.bidderEmail) {
+      setError('Select an account and a bidder');
+      return;
+    }
+    const assignedTo = assignments[account.id]?.assignedTo || [];
+    try {
+      await saveAssignment(account, [...assignedTo, assignForm.bidderEmail]);
+      setShowAssignForm(false);
+      setAssignForm({ accountId: '', bidderEmail: '' });
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleUnassign = async (account: Profile, bidderEmail: string) => {
+    setError(null);
+    const assignedTo = assignments[account.id]?.assignedTo || [];
+    try {
+      await saveAssignment(account, assignedTo.filter(email => email !== bidderEmail));
+    } catch (err) {
+      setError((err as Error).message);
     }
   };
 
+  const getBidderLabel = (email: string) => bidders.find(b => b.email === email)?.name || email;
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -59,32 +118,40 @@ export function AccountManager() {
     }
   };
 
-  const validateAndParseFile = (file: File): Promise<any> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const text = e.target?.result as string;
-          const json = JSON.parse(text);
-
-          if (!json.type || json.type !== 'service_account') {
-            reject(new Error('Invalid service account key. The file must contain a service_account type.'));
-            return;
-          }
-
-          if (!json.client_email || !json.private_key) {
-            reject(new Error('Invalid service account key. Missing required fields.'));
-            return;
-          }
-
-          resolve(json);
-        } catch (err) {
-          reject(new Error('Failed to parse JSON file. Please ensure it is valid JSON.'));
-        }
-      };
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
-    });
+  // Uploads the selected key file to the credential vault once, however often it's needed
+  const uploadFormFile = async (file: File): Promise<CredentialSummary> => {
+    if (pendingUploadRef.current?.file === file) {
+      return pendingUploadRef.current.credential;
+    }
+    await discardPendingUpload();
+    const credential = await uploadCredentialFile(file);
+    pendingUploadRef.current = { file, credential };
+    return credential;
+  };
+
+  const discardPendingUpload = async () => {
+    const pending = pendingUploadRef.current;
+    pendingUploadRef.current = null;
+    await deleteCredentials(pending?.credential.id);
+  };
+
+  // Connection for the account being added/edited, used to detect its column layout
+  const getFormConnection = async () => {
+    if (!formData.spreadsheetId.trim()) {
+      throw new Error('Enter the Spreadsheet ID or URL first');
+    }
+
+    let credentialId;
+    if (formData.file) {
+      credentialId = (await uploadFormFile(formData.file)).id;
+    } else if (editingId) {
+      credentialId = accounts.find(a => a.id === editingId)?.credentialId;
+    }
+    if (!credentialId) {
+      throw new Error('Select the JSON file first');
+    }
+
+    return { credentialId, spreadsheetId: extractSpreadsheetId(formData.spreadsheetId) };
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -106,18 +173,7 @@ export function AccountManager() {
       return;
     }
 
-    // Extract spreadsheet ID from URL if a full URL is provided
-    let spreadsheetId = formData.spreadsheetId.trim();
-    try {
-      const url = new URL(spreadsheetId);
-      // Extract ID from Google Sheets URL format: https://docs.google.com/spreadsheets/d/{ID}/...
-      const match = url.pathname.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
-      if (match) {
-        spreadsheetId = match[1];
-      }
-    } catch {
-      // Not a URL, assume it's already an ID
-    }
+    const spreadsheetId = extractSpreadsheetId(formData.spreadsheetId);
 
     if (!formData.file && !editingId) {
       setError('Please select a JSON file');
@@ -125,118 +181,102 @@ export function AccountManager() {
     }
 
     try {
-      // If editing and no new file, use existing credentials
-      let credentials;
+      // If editing and no new file, keep the existing credential
+      const existingAccount = editingId ? accounts.find(a => a.id === editingId) : undefined;
+      let credentialId: string | undefined;
+      let clientEmail: string | undefined;
       if (editingId && !formData.file) {
-        const existingAccount = accounts.find(a => a.id === editingId);
         if (!existingAccount) {
           setError('Account not found');
           return;
         }
-        credentials = existingAccount.credentials;
+        credentialId = existingAccount.credentialId;
+        clientEmail = existingAccount.clientEmail;
       } else {
         if (!formData.file) {
           setError('Please select a JSON file');
           return;
         }
-        credentials = await validateAndParseFile(formData.file);
+        const credential = await uploadFormFile(formData.file);
+        credentialId = credential.id;
+        clientEmail = credential.clientEmail;
       }
       
-      const account: Account = {
+      const account: Profile = {
         id: editingId || `account_${Date.now()}`,
         name: formData.name.trim(),
         bidderName: formData.bidderName.trim(),
-        fileName: formData.file ? formData.file.name : (accounts.find(a => a.id === editingId)?.fileName || ''),
-        spreadsheetId: spreadsheetId || undefined,
-        credentials,
-        createdAt: editingId 
-          ? accounts.find(a => a.id === editingId)?.createdAt || new Date().toISOString()
-          : new Date().toISOString(),
+        fileName: formData.file ? formData.file.name : existingAccount?.fileName,
+        spreadsheetId,
+        credentialId,
+        clientEmail,
+        columnMapping: formData.columnMapping,
+        createdAt: existingAccount?.createdAt || new Date().toISOString(),
       };
 
-      let updatedAccounts: Account[];
-      if (editingId) {
-        updatedAccounts = accounts.map(a => a.id === editingId ? account : a);
-      } else {
-        updatedAccounts = [...accounts, account];
+      // The first account becomes active; editing the active one updates the active connection
+      saveProfile(account);
+      pendingUploadRef.current = null;
+      // Show straight away whether the new key and spreadsheet actually work
+      checkConnection(account);
+      if (assignments[account.id]) {
+        // Bidders the account is assigned to get its new spreadsheet, key and columns
+        await saveAssignment(account, assignments[account.id].assignedTo);
       }
-
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedAccounts));
-      setAccounts(updatedAccounts);
-      
-      // If this is the first account or we're editing the active one, set it as active
-      if (updatedAccounts.length === 1 || activeAccountId === editingId) {
-        setActiveAccountId(account.id);
-        localStorage.setItem(ACTIVE_ACCOUNT_KEY, account.id);
-        sessionStorage.setItem('bidlinktracker_service_account', JSON.stringify(account.credentials));
-        if (account.spreadsheetId) {
-          sessionStorage.setItem('bidlinktracker_spreadsheet_id', account.spreadsheetId);
-        }
+      if (
+        existingAccount &&
+        existingAccount.credentialId !== credentialId &&
+        !accounts.some(a => a.id !== existingAccount.id && a.credentialId === existingAccount.credentialId)
+      ) {
+        // The replaced key file is no longer referenced
+        await deleteCredentials(existingAccount.credentialId);
       }
 
-      // Dispatch custom event to notify other components
-      window.dispatchEvent(new Event('accountUpdated'));
 
       setShowForm(false);
-      setFormData({ name: '', bidderName: '', spreadsheetId: '', file: null });
+      setFormData({ name: '', bidderName: '', spreadsheetId: '', file: null, columnMapping: undefined });
       setEditingId(null);
-    } catch (err: any) {
-      setError(err.message || 'Failed to process file');
-    }
-  };
-
-  const handleSetActive = (accountId: string) => {
-    const account = accounts.find(a => a.id === accountId);
-    if (account) {
-      setActiveAccountId(accountId);
-      localStorage.setItem(ACTIVE_ACCOUNT_KEY, accountId);
-      sessionStorage.setItem('bidlinktracker_service_account', JSON.stringify(account.credentials));
-      if (account.spreadsheetId) {
-        sessionStorage.setItem('bidlinktracker_spreadsheet_id', account.spreadsheetId);
-      } else {
-        sessionStorage.removeItem('bidlinktracker_spreadsheet_id');
-      }
-      // Dispatch custom event to notify other components
-      window.dispatchEvent(new Event('accountUpdated'));
+    } catch (err) {
+      setError((err as Error).message || 'Failed to process file');
     }
   };
 
-  const handleEdit = (account: Account) => {
+  const handleEdit = (account: Profile) => {
     setFormData({
       name: account.name,
       bidderName: account.bidderName,
-      spreadsheetId: account.spreadsheetId || '',
+      spreadsheetId: account.spreadsheetId,
       file: null,
+      columnMapping: account.columnMapping,
     });
     setEditingId(account.id);
     setShowForm(true);
   };
 
+  // Accounts are checked before they become active, so a broken one isn't switched to unnoticed
+  const handleSetActive = async (account: Profile) => {
+    const result = await getOrCheckConnection(account);
+    if (result.status === 'failing' && !window.confirm(`"${account.name}" failed its connection check. Make it active anyway?`)) {
+      return;
+    }
+    selectProfile(account.id);
+  };
+
   const handleDelete = (accountId: string) => {
     if (window.confirm('Are you sure you want to delete this account?')) {
-      const updatedAccounts = accounts.filter(a => a.id !== accountId);
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedAccounts));
-      setAccounts(updatedAccounts);
-      
-      if (activeAccountId === accountId) {
-        if (updatedAccounts.length > 0) {
-          handleSetActive(updatedAccounts[0].id);
-        } else {
-          setActiveAccountId(null);
-          localStorage.removeItem(ACTIVE_ACCOUNT_KEY);
-          sessionStorage.removeItem('bidlinktracker_service_account');
-          sessionStorage.removeItem('bidlinktracker_spreadsheet_id');
-        }
+      // Also deletes its credential and activates the next account if it was active
+      deleteProfile(accountId);
+      if (assignments[accountId]) {
+        deleteAssignedProfile(accountId).catch(err => console.error('Error removing profile assignment:', err));
+        setAssignments(prev => withoutAssignment(prev, accountId));
       }
-      
-      // Dispatch custom event to notify other components
-      window.dispatchEvent(new Event('accountUpdated'));
     }
   };
 
   const handleCancel = () => {
+    discardPendingUpload();
     setShowForm(false);
-    setFormData({ name: '', bidderName: '', spreadsheetId: '', file: null });
+    setFormData({ name: '', bidderName: '', spreadsheetId: '', file: null, columnMapping: undefined });
     setEditingId(null);
     setError(null);
   };
@@ -254,8 +294,65 @@ export function AccountManager() {
             <button onClick={() => setShowForm(true)} className="add-account-button">
               + Add New Account
             </button>
+            {accounts.length > 0 && bidders.length > 0 && (
+              <button onClick={() => setShowAssignForm(!showAssignForm)} className="assign-button">
+                Assign Profile to Bidder
+              </button>
+            )}
           </div>
 
+          <ProfileBundleTransfer itemLabel="accounts" />
+
+          {showAssignForm && (
+            <form onSubmit={handleAssign} className="account-form">
+              <h4>Assign Profile to Bidder</h4>
+              <p className="file-hint">The bidder can use the account's spreadsheet without ever seeing its service account key.</p>
+              <div className="form-group">
+                <label htmlFor="assign-account">Account *</label>
+                <select
+                  id="assign-account"
+                  value={assignForm.accountId}
+                  onChange={(e) => setAssignForm({ ...assignForm, accountId: e.target.value })}
+                  required
+                >
+                  <option value="">Select an account</option>
+                  {accounts.map(account => (
+                    <option key={account.id} value={account.id}>{account.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label htmlFor="assign-bidder">Bidder *</label>
+                <select
+                  id="assign-bidder"
+                  value={assignForm.bidderEmail}
+                  onChange={(e) => setAssignForm({ ...assignForm, bidderEmail: e.target.value })}
+                  required
+                >
+                  <option value="">Select a bidder</option>
+                  {bidders
+                    .filter(bidder => !assignments[assignForm.accountId]?.assignedTo.includes(bidder.email))
+                    .map(bidder => (
+                      <option key={bidder.email} value={bidder.email}>{bidder.name} ({bidder.email})</option>
+                    ))}
+                </select>
+              </div>
+              {error && (
+                <div className="form-error">{error}</div>
+              )}
+              <div className="form-actions">
+                <button type="submit" className="submit-button">Assign</button>
+                <button type="button" onClick={() => { setShowAssignForm(false); setError(null); }} className="cancel-button">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+
+          {!showAssignForm && error && (
+            <div className="form-error">{error}</div>
+          )}
+
           {accounts.length === 0 ? (
             <div className="no-accounts">
               <p>No accounts added yet. Click "Add New Account" to get started.</p>
@@ -275,15 +372,36 @@ export function AccountManager() {
                       )}
                     </div>
                     <p className="bidder-name">Bidder: {account.bidderName}</p>
-                    <p className="file-name">File: {account.fileName}</p>
+                    {account.fileName && (
+                      <p className="file-name">File: {account.fileName}</p>
+                    )}
+                    {account.clientEmail && (
+                      <p className="file-name">Service account: {account.clientEmail}</p>
+                    )}
                     {account.spreadsheetId && (
                       <p className="spreadsheet-id">Spreadsheet: {account.spreadsheetId.length > 30 ? `${account.spreadsheetId.substring(0, 30)}...` : account.spreadsheetId}</p>
                     )}
+                    {account.spreadsheetId && <ConnectionStatusBadge profile={account} />}
+                    {assignments[account.id] && (
+                      <div className="assigned-info">
+                        {assignments[account.id].assignedTo.map(email => (
+                          <div key={email} className="assigned-bidder-item">
+                            <p className="assigned-badge">✓ Assigned to {getBidderLabel(email)}</p>
+                            <button
+                              onClick={() => handleUnassign(account, email)}
+                              className="unassign-from-card-button"
+                            >
+                              Unassign
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <div className="account-actions">
                     {activeAccountId !== account.id && (
                       <button
-                        onClick={() => handleSetActive(account.id)}
+                        onClick={() => handleSetActive(account)}
                         className="set-active-button"
                       >
                         Set Active
@@ -306,6 +424,27 @@ export function AccountManager() {
               ))}
             </div>
           )}
+
+          {bidders.length > 0 && (
+            <div className="bidder-names-section">
+              <h4>Bidders</h4>
+              <div className="bidder-names-list">
+                {bidders.map(bidder => {
+                  const assignedCount = Object.values(assignments).filter(p => p.assignedTo.includes(bidder.email)).length;
+                  return (
+                    <div key={bidder.email} className={`bidder-name-item ${assignedCount > 0 ? 'assigned' : ''}`}>
+                      <span className="bidder-name-text">{bidder.name} ({bidder.email})</span>
+                      {assignedCount > 0 ? (
+                        <span className="bidder-assigned-badge">{assignedCount} profile{assignedCount === 1 ? '' : 's'}</span>
+                      ) : (
+                        <span className="bidder-unassigned-badge">No profile</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
         </>
       ) : (
         <form onSubmit={handleSubmit} className="account-form">
@@ -365,6 +504,16 @@ export function AccountManager() {
             )}
           </div>
 
+          <div className="form-group">
+            <label>Columns</label>
+            <ColumnMappingEditor
+              value={formData.columnMapping}
+              onChange={(columnMapping) => setFormData(prev => ({ ...prev, columnMapping }))}
+              getConnection={getFormConnection}
+            />
+            <small>Only needed if this spreadsheet doesn't use the standard A–J layout</small>
+          </div>
+
           {error && (
             <div className="form-error">{error}</div>
           )}
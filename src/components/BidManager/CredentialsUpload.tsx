@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
+import { getActiveCredentialId, setActiveCredentialId } from '../../services/sheetsApi';
+import { deleteCredentials, uploadCredentialFile } from '../../services/credentialsApi';
 import './CredentialsUpload.css';
 
-const STORAGE_KEY = 'bidlinktracker_service_account';
+const FILENAME_KEY = 'bidlinktracker_credential_filename';
 
 export function CredentialsUpload() {
   const [isUploaded, setIsUploaded] = useState(false);
@@ -10,14 +12,13 @@ export function CredentialsUpload() {
 
   useEffect(() => {
     // Check if credentials are already uploaded
-    const stored = sessionStorage.getItem(STORAGE_KEY);
-    if (stored) {
+    if (getActiveCredentialId()) {
       setIsUploaded(true);
-      setFileName(sessionStorage.getItem(`${STORAGE_KEY}_filename`) || 'Service Account Key');
+      setFileName(sessionStorage.getItem(FILENAME_KEY) || 'Service Account Key');
     }
   }, []);
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
@@ -29,45 +30,24 @@ export function CredentialsUpload() {
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const text = e.target?.result as string;
-        const json = JSON.parse(text);
+    try {
+      // The key itself is kept in the server's credential vault, only its ID is stored here
+      const credential = await uploadCredentialFile(file);
+      setActiveCredentialId(credential.id);
+      sessionStorage.setItem(FILENAME_KEY, file.name);
 
-        // Validate it's a service account key
-        if (!json.type || json.type !== 'service_account') {
-          setError('Invalid service account key. The file must contain a service_account type.');
-          return;
-        }
-
-        if (!json.client_email || !json.private_key) {
-          setError('Invalid service account key. Missing required fields.');
-          return;
-        }
-
-        // Store in sessionStorage
-        sessionStorage.setItem(STORAGE_KEY, JSON.stringify(json));
-        sessionStorage.setItem(`${STORAGE_KEY}_filename`, file.name);
-        
-        setIsUploaded(true);
-        setFileName(file.name);
-      } catch (err) {
-        setError('Failed to parse JSON file. Please ensure it is valid JSON.');
-        console.error('Error parsing JSON:', err);
-      }
-    };
-
-    reader.onerror = () => {
-      setError('Failed to read file');
-    };
-
-    reader.readAsText(file);
+      setIsUploaded(true);
+      setFileName(file.name);
+    } catch (err) {
+      setError((err as Error).message);
+      console.error('Error uploading credentials:', err);
+    }
   };
 
   const handleClear = () => {
-    sessionStorage.removeItem(STORAGE_KEY);
-    sessionStorage.removeItem(`${STORAGE_KEY}_filename`);
+    deleteCredentials(getActiveCredentialId());
+    setActiveCredentialId(undefined);
+    sessionStorage.removeItem(FILENAME_KEY);
     setIsUploaded(false);
     setFileName(null);
     setError(null);
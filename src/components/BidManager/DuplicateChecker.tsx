@@ -1,64 +1,268 @@
-import { useState, useEffect } from 'react';
-import { getAllJobUrls, batchUpdateFeedback, getAllTabs } from '../../services/sheetsApi';
-import { findDuplicates } from '../../utils/duplicateChecker';
-import { DuplicateInfo } from '../../types';
+import { useState } from 'react';
+import { getAllJobUrls, batchUpdateFeedback, getActiveColumnMapping, getAllTabs, previewFeedbackUpdates, undoFeedbackBatch, validateSchema, SheetConnection } from '../../services/sheetsApi';
+import { findDuplicates, findContentDuplicates, chooseOriginal, orderDuplicateGroup } from '../../utils/duplicateChecker';
+import { CONTENT_CHECK_MAX_PAGES, analyzeJobUrls, getJobContentKey, limitContentCheckRows } from '../../utils/jobAnalyzer';
+import { DEFAULT_COMPANY_POSITION_RULE, findCompanyPositionDuplicates } from '../../utils/companyPositionRule';
+import { CompanyPositionRule, DuplicateInfo, JobUrlRecord, OriginalEntryPolicy, Profile, SchemaValidationReport } from '../../types';
+import { useProfiles } from '../../hooks/useProfiles';
 import { AccountManager } from './AccountManager';
+import { MarkingPreview, MarkingPreviewRow } from './MarkingPreview';
+import { SchemaReport } from '../common/SchemaReport';
 import './DuplicateChecker.css';
 
+const COMPANY_POSITION_RULE_KEY = 'bidlinktracker_company_position_rule';
+
+const loadCompanyPositionRule = (): CompanyPositionRule => {
+  try {
+    const stored = localStorage.getItem(COMPANY_POSITION_RULE_KEY);
+    return stored ? { ...DEFAULT_COMPANY_POSITION_RULE, ...JSON.parse(stored) } : DEFAULT_COMPANY_POSITION_RULE;
+  } catch {
+    return DEFAULT_COMPANY_POSITION_RULE;
+  }
+};
+
+const ORIGINAL_POLICY_KEY = 'bidlinktracker_original_policy';
+
+const loadOriginalPolicy = (): OriginalEntryPolicy => {
+  try {
+    const stored = localStorage.getItem(ORIGINAL_POLICY_KEY);
+    return stored ? JSON.parse(stored) : { type: 'earliest' };
+  } catch {
+    return { type: 'earliest' };
+  }
+};
+
+type FeedbackUpdate = {
+  tabName: string;
+  rowIndex: number;
+  feedback: string;
+  sourceColumn?: 'F' | 'G';
+  accountId?: string;
+  // Shown in the marking preview: the duplicated URL's group, and the tab with its account
+  groupKey?: string;
+  groupLabel?: string;
+  tabLabel?: string;
+};
+
+// Updates go to each entry's own spreadsheet: the active one unless it came from a cross-account check
+const groupUpdatesByAccount = (updates: FeedbackUpdate[]) => {
+  const updatesByAccount = new Map<string | undefined, FeedbackUpdate[]>();
+  for (const update of updates) {
+    const group = updatesByAccount.get(update.accountId) || [];
+    group.push(update);
+    updatesByAccount.set(update.accountId, group);
+  }
+  return updatesByAccount;
+};
+
+const toFeedbackPayload = (updates: FeedbackUpdate[]) =>
+  updates.map(({ tabName, rowIndex, feedback, sourceColumn }) => ({ tabName, rowIndex, feedback, sourceColumn }));
+
+// Feedback written to one spreadsheet in a marking; batchId undoes it
+type MarkingBatch = { batchId: string; connection?: SheetConnection };
+
+const getAccountConnection = (account: Profile): SheetConnection => ({
+  credentialId: account.credentialId,
+  spreadsheetId: account.spreadsheetId,
+  columnMapping: account.columnMapping,
+});
+
+// Tabs are only unique per spreadsheet, so cross-account results prefix them with the account name
+const getTabLabel = (entry: { tabName: string; accountName?: string }) =>
+  entry.accountName ? `${entry.accountName} / ${entry.tabName}` : entry.tabName;
+
 export function DuplicateChecker() {
+  const { profiles: accounts, activeProfile } = useProfiles();
+  const hasActiveAccount = !!activeProfile;
+  const activeAccountName = activeProfile?.name || null;
   const [loading, setLoading] = useState(false);
   const [duplicates, setDuplicates] = useState<Map<string, DuplicateInfo[]>>(new Map());
   const [updating, setUpdating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
-  const [hasActiveAccount, setHasActiveAccount] = useState(false);
-  const [activeAccountName, setActiveAccountName] = useState<string | null>(null);
   const [tabCount, setTabCount] = useState<number | 'all'>('all');
   const [checkedTabs, setCheckedTabs] = useState<string[]>([]);
   const [totalUrls, setTotalUrls] = useState<number>(0);
   const [copiedUrl, setCopiedUrl] = useState<string | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [schemaReport, setSchemaReport] = useState<SchemaValidationReport | null>(null);
+  const [checkContent, setCheckContent] = useState(false);
+  const [analyzeProgress, setAnalyzeProgress] = useState<{ done: number; total: number } | null>(null);
+  const [probableDuplicates, setProbableDuplicates] = useState<Map<string, DuplicateInfo[]>>(new Map());
+  const [companyPositionRule, setCompanyPositionRule] = useState<CompanyPositionRule>(loadCompanyPositionRule);
+  const [similarRoleDuplicates, setSimilarRoleDuplicates] = useState<Map<string, DuplicateInfo[]>>(new Map());
+  const [markingSimilar, setMarkingSimilar] = useState(false);
+  const [crossAccount, setCrossAccount] = useState(false);
+  const [originalPolicy, setOriginalPolicy] = useState<OriginalEntryPolicy>(loadOriginalPolicy);
+  // Batches written by the last marking (one per spreadsheet), for "Undo last marking"
+  const [lastMarking, setLastMarking] = useState<MarkingBatch[] | null>(null);
+  const [undoing, setUndoing] = useState(false);
+  // Dry run of the next duplicate marking, shown until it's confirmed or cancelled
+  const [markingPreview, setMarkingPreview] = useState<Array<MarkingPreviewRow & { update: FeedbackUpdate }> | null>(null);
 
-  const checkActiveAccount = () => {
-    const activeId = localStorage.getItem('bidlinktracker_active_account');
-    const accounts = localStorage.getItem('bidlinktracker_accounts');
-    if (activeId && accounts) {
-      try {
-        const accountsList = JSON.parse(accounts);
-        const activeAccount = accountsList.find((a: any) => a.id === activeId);
-        setHasActiveAccount(!!activeAccount);
-        setActiveAccountName(activeAccount ? activeAccount.name : null);
-      } catch (error) {
-        setHasActiveAccount(false);
-        setActiveAccountName(null);
+  const updateCompanyPositionRule = (changes: Partial<CompanyPositionRule>) => {
+    const updated = { ...companyPositionRule, ...changes };
+    setCompanyPositionRule(updated);
+    localStorage.setItem(COMPANY_POSITION_RULE_KEY, JSON.stringify(updated));
+    setSimilarRoleDuplicates(new Map());
+  };
+
+  // Bidder names of the saved accounts, for the "bidder first" policy
+  const bidderNames = Array.from(new Set(accounts.map(account => account.bidderName.trim()).filter(Boolean)));
+
+  /**
+   * Saves the policy and re-picks the original of every group found, which also drops
+   * originals chosen by hand
+   */
+  const updateOriginalPolicy = (policy: OriginalEntryPolicy) => {
+    setOriginalPolicy(policy);
+    localStorage.setItem(ORIGINAL_POLICY_KEY, JSON.stringify(policy));
+    setDuplicates(prev => new Map(Array.from(prev.entries(), ([normalizedUrl, entries]) => [normalizedUrl, orderDuplicateGroup(entries, policy)])));
+    setMarkingPreview(null);
+  };
+
+  // Keeps another row of its duplicate group as the original (until the next check or policy change)
+  const handleChooseOriginal = (entry: DuplicateInfo) => {
+    setDuplicates(prev => {
+      const updated = new Map(prev);
+      for (const [normalizedUrl, entries] of prev.entries()) {
+        const index = entries.indexOf(entry);
+        if (index > 0) {
+          updated.set(normalizedUrl, chooseOriginal(entries, index));
+        }
       }
-    } else {
-      setHasActiveAccount(false);
-      setActiveAccountName(null);
+      return updated;
+    });
+    setMarkingPreview(null);
+  };
+
+  /**
+   * Connection of an entry's spreadsheet. Marking and undo use it explicitly, so they reach the
+   * same spreadsheet even if another account is activated meanwhile.
+   */
+  const getUpdateConnection = (accountId: string | undefined): SheetConnection | undefined => {
+    const account = accountId ? accounts.find(a => a.id === accountId) : activeProfile;
+    if (accountId && !account) {
+      throw new Error('An account in these results was removed. Please check for duplicates again.');
     }
+    return account ? getAccountConnection(account) : undefined;
   };
 
-  useEffect(() => {
-    checkActiveAccount();
+  /**
+   * Writes feedback to each entry's own spreadsheet and keeps the batches it wrote,
+   * even when it fails partway, so the marking can be undone
+   */
+  // The active spreadsheet's column letters; accounts in a cross-account check may each use a
+  // different layout, so their columns are named instead
+  const columnLetter = (column: 'jobUrl' | 'appliedUrl') =>
+    crossAccount ? '' : ` (Column ${getActiveColumnMapping()[column]})`;
+  const markedColumnsHint = crossAccount
+    ? 'the Approved and Feedback columns'
+    : `Columns ${getActiveColumnMapping().approved} (Approved) and ${getActiveColumnMapping().feedback} (Feedback)`;
 
-    // Poll for changes (since localStorage changes in same tab don't trigger storage events)
-    const interval = setInterval(checkActiveAccount, 1000);
+  const writeFeedback = async (updates: FeedbackUpdate[]) => {
+    const batches: MarkingBatch[] = [];
+    let undoWarning: string | undefined;
+    try {
+      for (const [accountId, accountUpdates] of groupUpdatesByAccount(updates).entries()) {
+        const connection = getUpdateConnection(accountId);
+        try {
+          const result = await batchUpdateFeedback(toFeedbackPayload(accountUpdates), connection);
+          if (result.batchId) {
+            batches.push({ batchId: result.batchId, connection });
+          }
+          undoWarning = undoWarning || result.undoWarning;
+        } catch (err) {
+          // A partial update still returns the batch of the cells it did write
+          const { batchId } = err as { batchId?: string };
+          if (batchId) {
+            batches.push({ batchId, connection });
+          }
+          throw err;
+        }
+      }
+    } finally {
+      if (batches.length > 0) {
+        setLastMarking(batches);
+      }
+    }
+    // The marking went through; only (part of) its undo is missing
+    if (undoWarning) {
+      setError(undoWarning);
+    }
+  };
 
-    // Also listen for custom events
-    const handleAccountChange = () => {
-      checkActiveAccount();
-    };
+  // Restores the Approved/Feedback values the last marking overwrote
+  const handleUndoLastMarking = async () => {
+    if (!lastMarking) return;
 
-    window.addEventListener('accountUpdated', handleAccountChange);
+    setUndoing(true);
+    setError(null);
+    setSuccess(null);
 
-    return () => {
-      clearInterval(interval);
-      window.removeEventListener('accountUpdated', handleAccountChange);
-    };
-  }, []);
+    let remaining = lastMarking;
+    let restored = 0;
+    const changed: string[] = [];
+    try {
+      for (const { batchId, connection } of lastMarking) {
+        const result = await undoFeedbackBatch(batchId, connection);
+        restored += result.restored;
+        changed.push(...result.changed);
+        remaining = remaining.slice(1);
+      }
+      setSuccess(`Undid the last marking: ${restored} cell(s) restored to their previous values`);
+      if (changed.length > 0) {
+        setError(
+          `${changed.length} cell(s) were edited after the marking and were left as they are: ` +
+          `${changed.slice(0, 10).join(', ')}${changed.length > 10 ? ', ...' : ''}`
+        );
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to undo the last marking');
+      console.error('Error undoing marking:', err);
+    } finally {
+      // Batches already undone can't be undone again
+      setLastMarking(remaining.length > 0 ? remaining : null);
+      setUndoing(false);
+    }
+  };
+
+  /**
+   * Loads URLs from the last N tabs of every account's spreadsheet, tagged with the account
+   */
+  const loadCrossAccountUrls = async (): Promise<{ urls: JobUrlRecord[]; tabLabels: string[]; failedAccounts: string[] }> => {
+    const accountsWithSheets = accounts.filter(account => account.spreadsheetId);
+    if (accountsWithSheets.length === 0) {
+      throw new Error('No accounts with a spreadsheet ID. Please add an account first.');
+    }
+
+    const urls: JobUrlRecord[] = [];
+    const tabLabels: string[] = [];
+    const failedAccounts: string[] = [];
+
+    for (const account of accountsWithSheets) {
+      try {
+        const connection = getAccountConnection(account);
+        const accountTabs = await getAllTabs(connection);
+        const tabsToCheck = tabCount === 'all' ? accountTabs : accountTabs.slice(-tabCount);
+        const accountUrls = await getAllJobUrls(connection, tabsToCheck);
+
+        for (const url of accountUrls) {
+          urls.push({ ...url, accountId: account.id, accountName: account.name, bidderName: account.bidderName });
+        }
+        tabLabels.push(...tabsToCheck.map(tabName => getTabLabel({ tabName, accountName: account.name })));
+      } catch (err) {
+        console.error(`Error loading account "${account.name}":`, err);
+        failedAccounts.push(`${account.name} (${(err as Error).message})`);
+      }
+    }
+
+    return { urls, tabLabels, failedAccounts };
+  };
 
   const handleCheckDuplicates = async () => {
     // Check if there's an active account
-    if (!hasActiveAccount) {
+    if (!crossAccount && !hasActiveAccount) {
       setError('Please add and activate an account first');
       return;
     }
@@ -67,35 +271,50 @@ export function DuplicateChecker() {
       setError(null);
       setSuccess(null);
       setDuplicates(new Map());
+      setProbableDuplicates(new Map());
+      setMarkingPreview(null);
+      setSimilarRoleDuplicates(new Map());
       setTotalUrls(0);
 
     try {
-      // Get all tabs first
-      const allTabs = await getAllTabs();
-      
-      // Get tabs based on selected tab count (or all tabs)
-      const tabsToCheck = tabCount === 'all' ? allTabs : allTabs.slice(-tabCount);
+      let tabsToCheck: string[];
+      let filteredUrls: JobUrlRecord[];
+      let failedAccounts: string[] = [];
+
+      if (crossAccount) {
+        // Union of every account's spreadsheet, so the same job applied to from different profiles is caught
+        const crossAccountResult = await loadCrossAccountUrls();
+        tabsToCheck = crossAccountResult.tabLabels;
+        filteredUrls = crossAccountResult.urls;
+        failedAccounts = crossAccountResult.failedAccounts;
+      } else {
+        // Get all tabs first
+        const allTabs = await getAllTabs();
+        
+        // Get tabs based on selected tab count (or all tabs)
+        tabsToCheck = tabCount === 'all' ? allTabs : allTabs.slice(-tabCount);
+        
+        console.log(`Total tabs available: ${allTabs.length}`);
+        
+        // The server's URL index only re-reads tabs that changed since the last check
+        filteredUrls = await getAllJobUrls(undefined, tabsToCheck);
+      }
       
       // Store the checked tabs so we can filter when marking
       setCheckedTabs(tabsToCheck);
       
-      console.log(`Total tabs available: ${allTabs.length}`);
       console.log(`Checking duplicates in ${tabCount === 'all' ? 'ALL' : `last ${tabCount}`} tabs:`, tabsToCheck);
-      console.log(`Tab names: ${tabsToCheck.join(', ')}`);
-      
-      // Get all URLs from all tabs
-      const allUrls = await getAllJobUrls();
+      console.log(`Found ${filteredUrls.length} URLs in ${tabCount === 'all' ? 'ALL' : `last ${tabCount}`} tabs`);
       
-      // Filter to only include URLs from the selected tabs
-      const filteredUrls = allUrls.filter(url => tabsToCheck.includes(url.tabName));
-      
-      console.log(`Found ${filteredUrls.length} URLs in ${tabCount === 'all' ? 'ALL' : `last ${tabCount}`} tabs (out of ${allUrls.length} total)`);
+      if (failedAccounts.length > 0) {
+        setError(`Could not read these accounts, so they were skipped: ${failedAccounts.join('; ')}`);
+      }
       
       // Verify which tabs actually have URLs
-      const tabsWithUrls = new Set(filteredUrls.map(url => url.tabName));
+      const tabsWithUrls = new Set(filteredUrls.map(getTabLabel));
       console.log(`Tabs with URLs:`, Array.from(tabsWithUrls));
       
-      const duplicateMap = findDuplicates(filteredUrls);
+      const duplicateMap = findDuplicates(filteredUrls, originalPolicy);
       
       // Store total URLs checked
       setTotalUrls(filteredUrls.length);
@@ -122,6 +341,38 @@ export function DuplicateChecker() {
       }
       
       setDuplicates(duplicateMap);
+
+      // Same company, similar position within N days (uses the Company Name and Position columns)
+      const similarRoleMap = findCompanyPositionDuplicates(filteredUrls, companyPositionRule);
+      setSimilarRoleDuplicates(similarRoleMap);
+
+      // Optional second pass: same title/company/location under different URLs
+      let probableCount = 0;
+      let contentCheckNote = '';
+      if (checkContent && filteredUrls.length > 0) {
+        try {
+          // Capped so one click opens a bounded number of pages
+          const contentRows = limitContentCheckRows(filteredUrls);
+          if (contentRows.length < filteredUrls.length) {
+            contentCheckNote = ` Content check covered the ${contentRows.length} most recent of ${filteredUrls.length} rows.`;
+          }
+          setAnalyzeProgress({ done: 0, total: contentRows.length });
+          const jobInfos = await analyzeJobUrls(
+            contentRows.map(u => u.url),
+            (done, total) => setAnalyzeProgress({ done, total })
+          );
+          const contentKeys = new Map<string, string | null>();
+          jobInfos.forEach((jobInfo, url) => contentKeys.set(url, getJobContentKey(jobInfo)));
+
+          const probableMap = findContentDuplicates(contentRows, contentKeys);
+          probableCount = probableMap.size;
+          setProbableDuplicates(probableMap);
+        } catch (contentError) {
+          console.error('Error checking content duplicates:', contentError);
+        } finally {
+          setAnalyzeProgress(null);
+        }
+      }
       
       // Calculate and log the count for debugging
       let calculatedCount = 0;
@@ -132,18 +383,18 @@ export function DuplicateChecker() {
       }
       console.log(`Found ${duplicateMap.size} duplicate groups, ${calculatedCount} total duplicate entries`);
       
-      if (duplicateMap.size === 0) {
-        setSuccess(`No duplicates found in ${tabCount === 'all' ? 'all' : `the last ${tabCount}`} tabs!`);
+      if (duplicateMap.size === 0 && probableCount === 0 && similarRoleMap.size === 0) {
+        setSuccess(`No duplicates found in ${tabCount === 'all' ? 'all' : `the last ${tabCount}`} tabs!${contentCheckNote}`);
       } else {
-        setSuccess(`Checked ${tabCount === 'all' ? 'all' : `last ${tabCount}`} tabs: ${tabsToCheck.length} tabs`);
+        setSuccess(`Checked ${tabCount === 'all' ? 'all' : `last ${tabCount}`} tabs: ${tabsToCheck.length} tabs${crossAccount ? ' across all accounts' : ''}.${contentCheckNote}`);
       }
-    } catch (err: any) {
-      const errorMessage = err.message || 'Failed to check duplicates';
+    } catch (err) {
+      const errorMessage = (err as Error).message || 'Failed to check duplicates';
       setError(errorMessage);
       console.error('Error checking duplicates:', err);
       console.error('Error details:', {
-        message: err.message,
-        stack: err.stack,
+        message: errorMessage,
+        stack: (err as Error).stack,
         hasActiveAccount,
         activeAccountName,
       });
@@ -156,7 +407,7 @@ export function DuplicateChecker() {
     if (duplicates.size === 0) return;
 
     // Check if there's an active account
-    if (!hasActiveAccount) {
+    if (!crossAccount && !hasActiveAccount) {
       setError('Please add and activate an account first');
       return;
     }
@@ -170,16 +421,16 @@ export function DuplicateChecker() {
     setUpdating(true);
     setError(null);
     setSuccess(null);
+    setMarkingPreview(null);
 
     try {
-      const updates: Array<{ tabName: string; rowIndex: number; feedback: string }> = [];
-      const tabsToMark = new Set<string>();
+      const updates: FeedbackUpdate[] = [];
 
-      for (const [, entries] of duplicates.entries()) {
-        // First entry (index 0) is the original/first occurrence
+      for (const [normalizedUrl, entries] of duplicates.entries()) {
+        // First entry (index 0) is the original: the earliest row unless the policy or the user chose another
         const firstEntry = entries[0];
         const firstDate = firstEntry.date || 'N/A';
-        const firstTabName = firstEntry.tabName || 'N/A';
+        const firstTabName = getTabLabel(firstEntry) || 'N/A';
         const firstNo = firstEntry.no || 'N/A';
         const firstPosition = firstEntry.position || 'N/A';
         
@@ -189,7 +440,7 @@ export function DuplicateChecker() {
           const entry = entries[i];
           
           // Only mark if this entry is in one of the checked tabs
-          if (checkedTabs.includes(entry.tabName)) {
+          if (checkedTabs.includes(getTabLabel(entry))) {
             // Determine source type based on the duplicate entry's sourceColumn
             const sourceType = entry.sourceColumn === 'G' ? 'Applied Url' : 'Job Url';
             // Format: "Duplicated of Sheet - [Date] in [Tab Name] Tab- No.[No] - [Position] - [Applied Url/Job Url]"
@@ -200,58 +451,95 @@ export function DuplicateChecker() {
               rowIndex: entry.rowIndex,
               feedback,
               sourceColumn: entry.sourceColumn,
+              accountId: entry.accountId,
+              groupKey: normalizedUrl,
+              groupLabel: firstEntry.url,
+              tabLabel: getTabLabel(entry),
             });
-            tabsToMark.add(entry.tabName);
           }
         }
       }
 
-      // Verify the count matches
-      console.log(`Marking ${updates.length} duplicate entries from ${duplicates.size} duplicate groups`);
+      console.log(`Previewing ${updates.length} duplicate entries from ${duplicates.size} duplicate groups`);
+      if (updates.length === 0) {
+        setError('No duplicates to mark in the selected tabs.');
+        return;
+      }
+
+      // Read what each row holds now; nothing is written until the preview is confirmed
+      const rows: Array<MarkingPreviewRow & { update: FeedbackUpdate }> = [];
+      for (const [accountId, accountUpdates] of groupUpdatesByAccount(updates).entries()) {
+        const preview = await previewFeedbackUpdates(toFeedbackPayload(accountUpdates), getUpdateConnection(accountId));
+        preview.forEach((row, index) => {
+          const update = accountUpdates[index];
+          rows.push({
+            ...row,
+            key: String(rows.length),
+            groupKey: update.groupKey || '',
+            groupLabel: update.groupLabel || '',
+            tabLabel: update.tabLabel || update.tabName,
+            update,
+          });
+        });
+      }
+      setMarkingPreview(rows);
+    } catch (err) {
+      setError((err as Error).message || 'Failed to preview the marking');
+      console.error('Error previewing duplicate marking:', err);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  // Writes the rows left selected in the marking preview
+  const handleConfirmMarking = async (selectedKeys: Set<string>) => {
+    if (!markingPreview) return;
+    const updates = markingPreview.filter(row => selectedKeys.has(row.key)).map(row => row.update);
+    const tabsToMark = new Set(updates.map(update => update.tabLabel || update.tabName));
+
+    setUpdating(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      console.log(`Marking ${updates.length} of ${markingPreview.length} previewed duplicate entries`);
       console.log(`Tabs that will be marked:`, Array.from(tabsToMark));
 
-      if (updates.length > 0) {
-        try {
-          const result: any = await batchUpdateFeedback(updates);
-          const skipped = result?.skipped || 0;
-          const updated = result?.updated || updates.length;
+      try {
+        await writeFeedback(updates);
+        setMarkingPreview(null);
+        const tabsList = Array.from(tabsToMark).join(', ');
+        setSuccess(`Successfully marked ${updates.length} duplicate(s) in tabs: ${tabsList}`);
+        // Clear duplicates after successful update
+        setDuplicates(new Map());
+        setCheckedTabs([]);
+        setTotalUrls(0);
+      } catch (err) {
+        const markError = err as Error & { partial?: boolean; successful?: number; failed?: number };
+        // Check if it's a partial success (some cells protected)
+        if (markError.partial) {
           const tabsList = Array.from(tabsToMark).join(', ');
-          let successMsg = `Successfully marked ${updated} duplicate(s) in tabs: ${tabsList}`;
-          if (skipped > 0) {
-            successMsg += `. ${skipped} skipped (already marked as duplicate with Job Url)`;
-          }
+          const successMsg = `Partially completed: ${markError.successful} of ${updates.length} duplicates marked in tabs: ${tabsList}`;
+          const errorMsg = 
+            `Some cells are protected and could not be updated.\n\n` +
+            `Successfully updated: ${markError.successful}\n` +
+            `Failed (protected): ${markError.failed}\n\n` +
+            `To fix this:\n` +
+            `1. Open the Google Spreadsheet\n` +
+            `2. Go to Data > Protect sheets and ranges\n` +
+            `3. Remove protection from ${markedColumnsHint}\n` +
+            `4. Or share the spreadsheet with edit permissions for your service account email`;
+          
           setSuccess(successMsg);
-          // Clear duplicates after successful update
-          setDuplicates(new Map());
-          setCheckedTabs([]);
-          setTotalUrls(0);
-        } catch (err: any) {
-          // Check if it's a partial success (some cells protected)
-          if (err.partial) {
-            const tabsList = Array.from(tabsToMark).join(', ');
-            const successMsg = `Partially completed: ${err.successful} of ${updates.length} duplicates marked in tabs: ${tabsList}`;
-            const errorMsg = 
-              `Some cells are protected and could not be updated.\n\n` +
-              `Successfully updated: ${err.successful}\n` +
-              `Failed (protected): ${err.failed}\n\n` +
-              `To fix this:\n` +
-              `1. Open the Google Spreadsheet\n` +
-              `2. Go to Data > Protect sheets and ranges\n` +
-              `3. Remove protection from Columns H (Approved) and I (Feedback)\n` +
-              `4. Or share the spreadsheet with edit permissions for your service account email`;
-            
-            setSuccess(successMsg);
-            setError(errorMsg);
-            // Don't clear duplicates if partial - user might want to retry after fixing protection
-          } else {
-            throw err; // Re-throw other errors
-          }
+          setError(errorMsg);
+          setMarkingPreview(null);
+          // Don't clear duplicates if partial - user might want to retry after fixing protection
+        } else {
+          throw err; // Re-throw other errors
         }
-      } else {
-        setError('No duplicates to mark in the selected tabs.');
       }
-    } catch (err: any) {
-      const errorMessage = err.message || 'Failed to mark duplicates';
+    } catch (err) {
+      const errorMessage = (err as Error).message || 'Failed to mark duplicates';
       
       // Check for protected cell errors
       if (errorMessage.includes('protected') || errorMessage.includes('Protected')) {
@@ -260,7 +548,7 @@ export function DuplicateChecker() {
           'To fix this:\n' +
           '1. Open the Google Spreadsheet\n' +
           '2. Go to Data > Protect sheets and ranges\n' +
-          '3. Remove protection from Columns H (Approved) and I (Feedback)\n' +
+          `3. Remove protection from ${markedColumnsHint}\n` +
           '4. Or share the spreadsheet with edit permissions for your service account email'
         );
       } else {
@@ -272,6 +560,69 @@ export function DuplicateChecker() {
     }
   };
 
+  // Mark rows flagged by the company + position rule (the group's first row is the original)
+  const handleMarkSimilarRoles = async () => {
+    const updates: FeedbackUpdate[] = [];
+
+    for (const [, entries] of similarRoleDuplicates.entries()) {
+      const original = entries[0];
+      for (const entry of entries.slice(1)) {
+        if (!checkedTabs.includes(getTabLabel(entry))) continue;
+        updates.push({
+          tabName: entry.tabName,
+          rowIndex: entry.rowIndex,
+          feedback: `Duplicated of Sheet - ${original.date || 'N/A'} in [${getTabLabel(original)}] Tab- No.${original.no || 'N/A'} - ${original.position || 'N/A'} - Same Company & Position`,
+          sourceColumn: entry.sourceColumn,
+          accountId: entry.accountId,
+        });
+      }
+    }
+
+    if (updates.length === 0) {
+      setError('No similar roles to mark in the selected tabs.');
+      return;
+    }
+
+    setMarkingSimilar(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await writeFeedback(updates);
+      setSuccess(`Marked ${updates.length} row(s) as the same company and position`);
+      setSimilarRoleDuplicates(new Map());
+    } catch (err) {
+      const markError = err as Error & { partial?: boolean; successful?: number };
+      if (markError.partial) {
+        setSuccess(`Partially completed: ${markError.successful} of ${updates.length} similar roles marked`);
+      }
+      setError(markError.message || 'Failed to mark similar roles');
+      console.error('Error marking similar roles:', err);
+    } finally {
+      setMarkingSimilar(false);
+    }
+  };
+
+  const handleValidateSchema = async () => {
+    if (!hasActiveAccount) {
+      setError('Please add and activate an account first');
+      return;
+    }
+
+    setValidating(true);
+    setError(null);
+    setSchemaReport(null);
+
+    try {
+      setSchemaReport(await validateSchema());
+    } catch (err) {
+      setError((err as Error).message || 'Failed to validate spreadsheet structure');
+      console.error('Error validating schema:', err);
+    } finally {
+      setValidating(false);
+    }
+  };
+
   // Separate duplicates into Job Url and Applied Url groups
   const jobUrlDuplicateGroups = new Map<string, DuplicateInfo[]>();
   const appliedUrlDuplicateGroups = new Map<string, DuplicateInfo[]>();
@@ -357,12 +708,15 @@ export function DuplicateChecker() {
             setTabCount(value === 'all' ? 'all' : Number(value));
             // Clear duplicates and checked tabs when tab count changes
             setDuplicates(new Map());
+            setProbableDuplicates(new Map());
+            setMarkingPreview(null);
+            setSimilarRoleDuplicates(new Map());
             setCheckedTabs([]);
             setTotalUrls(0);
             setSuccess(null);
             setError(null);
           }}
-          disabled={loading || !hasActiveAccount}
+          disabled={loading || (!hasActiveAccount && !crossAccount)}
           className="tab-count-select"
         >
           <option value="all">All tabs</option>
@@ -372,17 +726,138 @@ export function DuplicateChecker() {
           <option value={12}>12 tabs</option>
           <option value={16}>16 tabs</option>
         </select>
+        <label className="content-check-option">
+          <input
+            type="checkbox"
+            checked={crossAccount}
+            onChange={(e) => {
+              setCrossAccount(e.target.checked);
+              // Results from one mode can't be marked in the other
+              setDuplicates(new Map());
+              setProbableDuplicates(new Map());
+              setMarkingPreview(null);
+              setSimilarRoleDuplicates(new Map());
+              setCheckedTabs([]);
+              setTotalUrls(0);
+              setSuccess(null);
+            }}
+            disabled={loading}
+          />
+          Check across all accounts
+        </label>
+        <label className="content-check-option">
+          <input
+            type="checkbox"
+            checked={checkContent}
+            onChange={(e) => setCheckContent(e.target.checked)}
+            disabled={loading}
+          />
+          Also find probable duplicates by job content (slower: opens up to {CONTENT_CHECK_MAX_PAGES} of the most recent rows)
+        </label>
+      </div>
+
+      <div className="rule-settings">
+        <label className="rule-toggle">
+          <input
+            type="checkbox"
+            checked={companyPositionRule.enabled}
+            onChange={(e) => updateCompanyPositionRule({ enabled: e.target.checked })}
+            disabled={loading}
+          />
+          Flag the same company with a similar position
+        </label>
+        <label className="rule-field">
+          within
+          <input
+            type="number"
+            min={1}
+            max={365}
+            value={companyPositionRule.withinDays}
+            onChange={(e) => updateCompanyPositionRule({ withinDays: Math.max(1, Number(e.target.value) || 1) })}
+            disabled={loading || !companyPositionRule.enabled}
+          />
+          days
+        </label>
+        <label className="rule-field">
+          position similarity at least
+          <input
+            type="number"
+            min={10}
+            max={100}
+            step={5}
+            value={Math.round(companyPositionRule.minSimilarity * 100)}
+            onChange={(e) => updateCompanyPositionRule({ minSimilarity: Math.min(100, Math.max(10, Number(e.target.value) || 10)) / 100 })}
+            disabled={loading || !companyPositionRule.enabled}
+          />
+          %
+        </label>
+      </div>
+
+      <div className="rule-settings">
+        <label className="rule-field">
+          Keep as the original
+          <select
+            value={originalPolicy.type}
+            onChange={(e) => {
+              const type = e.target.value as OriginalEntryPolicy['type'];
+              updateOriginalPolicy(type === 'bidder-first' ? { type, bidderName: bidderNames[0] || '' } : { type });
+            }}
+            disabled={loading || updating}
+          >
+            <option value="earliest">the earliest row</option>
+            <option value="approved-first">an approved or bonus row, else the earliest</option>
+            <option value="bidder-first">a bidder's row, else the earliest</option>
+          </select>
+        </label>
+        {originalPolicy.type === 'bidder-first' && (
+          <label className="rule-field">
+            Bidder
+            <select
+              value={originalPolicy.bidderName}
+              onChange={(e) => updateOriginalPolicy({ type: 'bidder-first', bidderName: e.target.value })}
+              disabled={loading || updating}
+            >
+              {!bidderNames.includes(originalPolicy.bidderName) && (
+                <option value={originalPolicy.bidderName}>{originalPolicy.bidderName || 'Select a bidder'}</option>
+              )}
+              {bidderNames.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            {!crossAccount && <span className="rule-note">(applies when checking across all accounts)</span>}
+          </label>
+        )}
       </div>
 
       <div className="checker-actions">
         <button
           onClick={handleCheckDuplicates}
-          disabled={loading || !hasActiveAccount}
+          disabled={loading || (!hasActiveAccount && !crossAccount)}
           className="check-button"
         >
-          {loading ? 'Checking...' : 'Check for Duplicates'}
+          {loading
+            ? (analyzeProgress ? `Analyzing ${analyzeProgress.done}/${analyzeProgress.total}...` : 'Checking...')
+            : 'Check for Duplicates'}
         </button>
 
+        <button
+          onClick={handleValidateSchema}
+          disabled={validating || !hasActiveAccount}
+          className="validate-button"
+        >
+          {validating ? 'Validating...' : 'Validate Sheet Structure'}
+        </button>
+
+        {lastMarking && (
+          <button
+            onClick={handleUndoLastMarking}
+            disabled={undoing || updating || markingSimilar}
+            className="undo-button"
+          >
+            {undoing ? 'Undoing...' : 'Undo last marking'}
+          </button>
+        )}
+
         {duplicates.size > 0 && (
           <>
             <button
@@ -390,7 +865,7 @@ export function DuplicateChecker() {
               disabled={updating}
               className="mark-button"
             >
-              {updating ? 'Updating...' : `Mark ${totalDuplicates} Duplicate(s)`}
+              {updating ? 'Updating...' : `Preview Marking of ${totalDuplicates} Duplicate(s)`}
             </button>
             {checkedTabs.length > 0 && (
               <div className="tabs-to-mark-info">
@@ -414,6 +889,19 @@ export function DuplicateChecker() {
         </div>
       )}
 
+      {markingPreview && (
+        <MarkingPreview
+          rows={markingPreview}
+          busy={updating}
+          onConfirm={handleConfirmMarking}
+          onCancel={() => setMarkingPreview(null)}
+        />
+      )}
+
+      {schemaReport && (
+        <SchemaReport report={schemaReport} onClose={() => setSchemaReport(null)} />
+      )}
+
       {/* Summary Statistics */}
       {totalUrls > 0 && (
         <div className="summary-stats">
@@ -451,7 +939,7 @@ export function DuplicateChecker() {
           {/* Job Url Duplicates Section */}
           {jobUrlDuplicateGroups.size > 0 && (
             <div className="duplicate-section">
-              <h4 className="section-title">Job Url Duplicates (Column F) - {jobUrlDuplicateCount} duplicate(s)</h4>
+              <h4 className="section-title">Job Url Duplicates{columnLetter('jobUrl')} - {jobUrlDuplicateCount} duplicate(s)</h4>
               <div className="duplicates-list">
                 {Array.from(jobUrlDuplicateGroups.entries()).map(([normalizedUrl, entries]) => (
                   <div key={`job-${normalizedUrl}`} className="duplicate-group">
@@ -467,22 +955,37 @@ export function DuplicateChecker() {
                       </button>
                     </div>
                     <div className="duplicate-entries">
-                      {entries.map((entry, index) => (
+                      {entries.map((entry) => (
                         <div
-                          key={`${entry.tabName}-${entry.rowIndex}`}
-                          className={`duplicate-entry ${index === 0 ? 'original' : 'duplicate'}`}
+                          key={`${entry.accountId || ''}-${entry.tabName}-${entry.rowIndex}`}
+                          className={`duplicate-entry ${entry.isDuplicate ? 'duplicate' : 'original'}`}
                         >
                           <span className="entry-label">
-                            {index === 0 ? 'Original' : 'Duplicate'}
+                            {entry.isDuplicate ? 'Duplicate' : 'Original'}
                           </span>
                           <span className="entry-info">
+                            {entry.accountName && (
+                              <>Account: <strong>{entry.accountName}</strong>{entry.bidderName ? ` (${entry.bidderName})` : ''} | </>
+                            )}
                             Tab: <strong>{entry.tabName}</strong> | 
                             Row: <strong>{entry.rowIndex}</strong> | 
                             Position: <strong>{entry.position || 'N/A'}</strong>
                             {entry.sourceColumn && (
                               <> | Source: <strong>Column {entry.sourceColumn}</strong></>
                             )}
+                            {entry.approved && <> | <strong>Approved</strong></>}
+                            {entry.bonus && <> | Bonus: <strong>{entry.bonus}</strong></>}
                           </span>
+                          {entry.isDuplicate && (
+                            <button
+                              type="button"
+                              onClick={() => handleChooseOriginal(entry)}
+                              disabled={updating}
+                              className="choose-original-button"
+                            >
+                              Use as original
+                            </button>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -495,7 +998,7 @@ export function DuplicateChecker() {
           {/* Applied Url Duplicates Section */}
           {appliedUrlDuplicateGroups.size > 0 && (
             <div className="duplicate-section">
-              <h4 className="section-title">Applied Url Duplicates (Column G) - {appliedUrlDuplicateCount} duplicate(s)</h4>
+              <h4 className="section-title">Applied Url Duplicates{columnLetter('appliedUrl')} - {appliedUrlDuplicateCount} duplicate(s)</h4>
               <div className="duplicates-list">
                 {Array.from(appliedUrlDuplicateGroups.entries()).map(([normalizedUrl, entries]) => (
                   <div key={`applied-${normalizedUrl}`} className="duplicate-group">
@@ -511,22 +1014,37 @@ export function DuplicateChecker() {
                       </button>
                     </div>
                     <div className="duplicate-entries">
-                      {entries.map((entry, index) => (
+                      {entries.map((entry) => (
                         <div
-                          key={`${entry.tabName}-${entry.rowIndex}`}
-                          className={`duplicate-entry ${index === 0 ? 'original' : 'duplicate'}`}
+                          key={`${entry.accountId || ''}-${entry.tabName}-${entry.rowIndex}`}
+                          className={`duplicate-entry ${entry.isDuplicate ? 'duplicate' : 'original'}`}
                         >
                           <span className="entry-label">
-                            {index === 0 ? 'Original' : 'Duplicate'}
+                            {entry.isDuplicate ? 'Duplicate' : 'Original'}
                           </span>
                           <span className="entry-info">
+                            {entry.accountName && (
+                              <>Account: <strong>{entry.accountName}</strong>{entry.bidderName ? ` (${entry.bidderName})` : ''} | </>
+                            )}
                             Tab: <strong>{entry.tabName}</strong> | 
                             Row: <strong>{entry.rowIndex}</strong> | 
                             Position: <strong>{entry.position || 'N/A'}</strong>
                             {entry.sourceColumn && (
                               <> | Source: <strong>Column {entry.sourceColumn}</strong></>
                             )}
+                            {entry.approved && <> | <strong>Approved</strong></>}
+                            {entry.bonus && <> | Bonus: <strong>{entry.bonus}</strong></>}
                           </span>
+                          {entry.isDuplicate && (
+                            <button
+                              type="button"
+                              onClick={() => handleChooseOriginal(entry)}
+                              disabled={updating}
+                              className="choose-original-button"
+                            >
+                              Use as original
+                            </button>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -538,10 +1056,111 @@ export function DuplicateChecker() {
         </div>
       )}
 
+      {/* Same company, similar position within N days */}
+      {similarRoleDuplicates.size > 0 && (
+        <div className="duplicates-results">
+          <div className="duplicate-section">
+            <h4 className="section-title">Same Company &amp; Similar Position - {similarRoleDuplicates.size} group(s)</h4>
+            <p className="section-note">
+              Rows for the same company with a similar position within {companyPositionRule.withinDays} day(s) of the first one, under different links.
+            </p>
+            <button
+              onClick={handleMarkSimilarRoles}
+              disabled={markingSimilar}
+              className="mark-button similar-mark-button"
+            >
+              {markingSimilar ? 'Updating...' : 'Mark Similar Roles as Duplicates'}
+            </button>
+            <div className="duplicates-list">
+              {Array.from(similarRoleDuplicates.entries()).map(([groupKey, entries]) => (
+                <div key={`similar-${groupKey}`} className="duplicate-group">
+                  <div className="duplicate-url">
+                    <strong>Company:</strong> {entries[0].companyName}
+                  </div>
+                  <div className="duplicate-entries">
+                    {entries.map((entry, index) => (
+                      <div
+                        key={`${entry.accountId || ''}-${entry.tabName}-${entry.rowIndex}`}
+                        className={`duplicate-entry ${index === 0 ? 'original' : 'duplicate'}`}
+                      >
+                        <span className="entry-label">
+                          {index === 0 ? 'Original' : 'Similar'}
+                        </span>
+                        <span className="entry-info">
+                          {entry.accountName && (
+                            <>Account: <strong>{entry.accountName}</strong>{entry.bidderName ? ` (${entry.bidderName})` : ''} | </>
+                          )}
+                          Tab: <strong>{entry.tabName}</strong> | 
+                          Row: <strong>{entry.rowIndex}</strong> | 
+                          Date: <strong>{entry.date || 'N/A'}</strong> | 
+                          Position: <strong>{entry.position || 'N/A'}</strong> | 
+                          URL: {entry.url}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Probable duplicates found by job content (never marked automatically) */}
+      {probableDuplicates.size > 0 && (
+        <div className="duplicates-results">
+          <div className="duplicate-section">
+            <h4 className="section-title">Probable Duplicates (same job content, different URL) - {probableDuplicates.size} group(s)</h4>
+            <p className="section-note">
+              These share the same title, company and location but have different URLs. Review them before marking anything.
+            </p>
+            <div className="duplicates-list">
+              {Array.from(probableDuplicates.entries()).map(([contentKey, entries]) => (
+                <div key={`content-${contentKey}`} className="duplicate-group">
+                  <div className="duplicate-entries">
+                    {entries.map((entry, index) => (
+                      <div
+                        key={`${entry.accountId || ''}-${entry.tabName}-${entry.rowIndex}-${entry.sourceColumn}`}
+                        className={`duplicate-entry ${index === 0 ? 'original' : 'probable'}`}
+                      >
+                        <span className="entry-label">
+                          {index === 0 ? 'Original' : 'Probable'}
+                        </span>
+                        <span className="entry-info">
+                          {entry.accountName && (
+                            <>Account: <strong>{entry.accountName}</strong>{entry.bidderName ? ` (${entry.bidderName})` : ''} | </>
+                          )}
+                          Tab: <strong>{entry.tabName}</strong> | 
+                          Row: <strong>{entry.rowIndex}</strong> | 
+                          Position: <strong>{entry.position || 'N/A'}</strong> | 
+                          URL: {entry.url}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => handleCopyUrl(entry.url)}
+                          className="copy-button"
+                          title="Copy URL"
+                        >
+                          {copiedUrl === entry.url ? '✓ Copied' : 'Copy'}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {loading && (
         <div className="loading">
           <div className="spinner"></div>
-          <p>Fetching job URLs from {tabCount === 'all' ? 'all' : `last ${tabCount}`} tabs...</p>
+          <p>
+            {analyzeProgress
+              ? `Analyzing job pages for probable duplicates (${analyzeProgress.done}/${analyzeProgress.total})...`
+              : `Fetching job URLs from ${tabCount === 'all' ? 'all' : `last ${tabCount}`} tabs...`}
+          </p>
         </div>
       )}
     </div>
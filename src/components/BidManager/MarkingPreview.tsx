@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { FeedbackPreviewRow } from '../../types';
+import './MarkingPreview.css';
+
+export interface MarkingPreviewRow extends FeedbackPreviewRow {
+  key: string;
+  groupKey: string; // Rows marked as duplicates of the same original
+  groupLabel: string;
+  tabLabel: string;
+}
+
+/**
+ * Dry run of a duplicate marking: each target row's current Approved and Feedback values next to
+ * what will be written. Rows, or whole groups, can be deselected before anything is written.
+ */
+export function MarkingPreview({
+  rows,
+  busy,
+  onConfirm,
+  onCancel,
+}: {
+  rows: MarkingPreviewRow[];
+  busy: boolean;
+  onConfirm: (selectedKeys: Set<string>) => void;
+  onCancel: () => void;
+}) {
+  // Rows the "Job Url beats Applied Url" rule skips can't be selected; the rest start selected
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(rows.filter(row => !row.skipReason).map(row => row.key)));
+
+  const groups = new Map<string, MarkingPreviewRow[]>();
+  rows.forEach(row => groups.set(row.groupKey, [...(groups.get(row.groupKey) || []), row]));
+
+  const toggleRows = (keys: string[], select: boolean) => {
+    setSelected(current => {
+      const next = new Set(current);
+      keys.forEach(key => (select ? next.add(key) : next.delete(key)));
+      return next;
+    });
+  };
+
+  const skippedCount = rows.filter(row => row.skipReason).length;
+  const replacedCount = rows.filter(row => selected.has(row.key) && row.currentFeedback.trim()).length;
+
+  return (
+    <div className="marking-preview">
+      <div className="marking-preview-header">
+        <h3>Preview: {selected.size} of {rows.length} row(s) will be marked</h3>
+        <p>Each selected row gets Approved set to FALSE and the new Feedback. Nothing is written until you confirm.</p>
+        {skippedCount > 0 && (
+          <p>{skippedCount} row(s) are already marked as a Job Url duplicate and will be skipped.</p>
+        )}
+        {replacedCount > 0 && (
+          <p className="marking-preview-warning">{replacedCount} selected row(s) already have feedback that will be replaced.</p>
+        )}
+      </div>
+
+      {Array.from(groups.entries()).map(([groupKey, groupRows]) => {
+        const selectable = groupRows.filter(row => !row.skipReason);
+        const allSelected = selectable.length > 0 && selectable.every(row => selected.has(row.key));
+        return (
+          <div key={groupKey} className="marking-preview-group">
+            <label className="marking-preview-group-header">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={(e) => toggleRows(selectable.map(row => row.key), e.target.checked)}
+                disabled={busy || selectable.length === 0}
+              />
+              <span className="marking-preview-url">{groupRows[0].groupLabel}</span>
+            </label>
+            <table>
+              <thead>
+                <tr>
+                  <th></th>
+                  <th>Row</th>
+                  <th>Approved</th>
+                  <th>Feedback</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groupRows.map(row => (
+                  <tr key={row.key} className={row.skipReason ? 'skipped' : selected.has(row.key) ? '' : 'deselected'}>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={selected.has(row.key)}
+                        onChange={(e) => toggleRows([row.key], e.target.checked)}
+                        disabled={busy || !!row.skipReason}
+                      />
+                    </td>
+                    <td>{row.tabLabel} row {row.rowIndex}</td>
+                    <td>
+                      {row.currentApproved || '(empty)'}
+                      {!row.skipReason && <span className="marking-preview-new"> → FALSE</span>}
+                    </td>
+                    <td>
+                      <div className="marking-preview-current">{row.currentFeedback || '(empty)'}</div>
+                      {row.skipReason ? (
+                        <div className="marking-preview-skip">Skipped: {row.skipReason}</div>
+                      ) : (
+                        <div className="marking-preview-new">→ {row.feedback}</div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      })}
+
+      <div className="marking-preview-actions">
+        <button
+          type="button"
+          onClick={() => onConfirm(selected)}
+          disabled={busy || selected.size === 0}
+          className="marking-preview-confirm"
+        >
+          {busy ? 'Updating...' : `Mark ${selected.size} Row(s)`}
+        </button>
+        <button type="button" onClick={onCancel} disabled={busy} className="marking-preview-cancel">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,18 @@
-import { useState, useEffect } from 'react';
-import { useAuth } from '../../context/AuthContext';
+import { useState, useRef } from 'react';
+import { CredentialSummary, Profile } from '../../types';
+import { deleteCredentials, uploadCredentialFile } from '../../services/credentialsApi';
+import { extractSpreadsheetId } from '../../services/profileStore';
+import { useProfiles } from '../../hooks/useProfiles';
+import { useConnectionHealth } from '../../hooks/useConnectionHealth';
+import { ColumnMappingEditor } from '../common/ColumnMappingEditor';
 import './BidderSetup.css';
 
-interface Profile {
-  id: string;
-  profileName: string;
-  sheetUri: string;
-}
-
-interface BidderData {
-  bidderName: string;
-  profiles: Profile[];
-  activeProfileId: string | null;
-}
-
 interface BidderInfo {
   bidderName: string;
   profileName: string;
   sheetUri: string;
 }
 
-const BIDDER_DATA_KEY = 'bidlinktracker_bidder_data';
-const CREDENTIALS_KEY_PREFIX = 'bidlinktracker_profile_credentials_';
-const OLD_BIDDER_INFO_KEY = 'bidlinktracker_bidder_info'; // For migration
-
 export function BidderSetup({ 
   onComplete, 
   initialData,
@@ -35,108 +24,38 @@ export function BidderSetup({
   onCancel?: () => void;
   editingProfile?: Profile | null;
 }) {
-  const { user } = useAuth();
-  const [bidderName, setBidderName] = useState('');
-  const [profiles, setProfiles] = useState<Profile[]>([]);
-  const [editingProfileId, setEditingProfileId] = useState<string | null>(null);
+  const { profiles, saveProfile, deleteProfile } = useProfiles();
+  const { checkConnection } = useConnectionHealth();
+  const [bidderName, setBidderName] = useState(
+    () => initialData?.bidderName || editingProfile?.bidderName || profiles[0]?.bidderName || ''
+  );
+  const [editingProfileId, setEditingProfileId] = useState<string | null>(editingProfile?.id || null);
   const [showProfileForm, setShowProfileForm] = useState(false);
   const [formData, setFormData] = useState({
-    profileName: '',
-    sheetUri: '',
+    profileName: editingProfile?.name || '',
+    sheetUri: editingProfile?.spreadsheetId || '',
     file: null as File | null,
+    columnMapping: editingProfile?.columnMapping,
   });
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const pendingUploadRef = useRef<{ file: File; credential: CredentialSummary } | null>(null);
 
-  useEffect(() => {
-    if (user?.email || user?.name) {
-      const key = `${BIDDER_DATA_KEY}_${user.email || user.name}`;
-      const saved = localStorage.getItem(key);
-      
-      if (saved) {
-        try {
-          const data: BidderData = JSON.parse(saved);
-          setBidderName(data.bidderName || '');
-          setProfiles(data.profiles || []);
-        } catch (error) {
-          console.error('Error loading bidder data:', error);
-        }
-      } else {
-        // Try to migrate from old format
-        const oldKey = `${OLD_BIDDER_INFO_KEY}_${user.email || user.name}`;
-        const oldSaved = localStorage.getItem(oldKey);
-        if (oldSaved) {
-          try {
-            const oldInfo: BidderInfo = JSON.parse(oldSaved);
-            setBidderName(oldInfo.bidderName || '');
-            if (oldInfo.profileName && oldInfo.sheetUri) {
-              const migratedProfile: Profile = {
-                id: `profile_${Date.now()}`,
-                profileName: oldInfo.profileName,
-                sheetUri: oldInfo.sheetUri,
-              };
-              setProfiles([migratedProfile]);
-            }
-          } catch (error) {
-            console.error('Error migrating old data:', error);
-          }
-        }
-      }
+  // Uploads the selected key file to the credential vault once, however often it's needed
+  const uploadFormFile = async (file: File): Promise<CredentialSummary> => {
+    if (pendingUploadRef.current?.file === file) {
+      return pendingUploadRef.current.credential;
     }
-
-    // If initialData is provided (editing mode), use it
-    if (initialData) {
-      setBidderName(initialData.bidderName || '');
-      if (initialData.profileName && initialData.sheetUri) {
-        const profile: Profile = {
-          id: `profile_${Date.now()}`,
-          profileName: initialData.profileName,
-          sheetUri: initialData.sheetUri,
-        };
-        setProfiles([profile]);
-      }
-    }
-  }, [user, initialData]);
-
-  const extractSpreadsheetId = (uri: string): string => {
-    try {
-      const url = new URL(uri);
-      const match = url.pathname.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
-      if (match) {
-        return match[1];
-      }
-    } catch {
-      // Not a URL, assume it's already an ID
-    }
-    return uri.trim();
+    await discardPendingUpload();
+    const credential = await uploadCredentialFile(file);
+    pendingUploadRef.current = { file, credential };
+    return credential;
   };
 
-  const validateAndParseFile = (file: File): Promise<any> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const text = e.target?.result as string;
-          const json = JSON.parse(text);
-
-          if (!json.type || json.type !== 'service_account') {
-            reject(new Error('Invalid service account key. The file must contain a service_account type.'));
-            return;
-          }
-
-          if (!json.client_email || !json.private_key) {
-            reject(new Error('Invalid service account key. Missing required fields.'));
-            return;
-          }
-
-          resolve(json);
-        } catch (err) {
-          reject(new Error('Failed to parse JSON file. Please ensure it is valid JSON.'));
-        }
-      };
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
-    });
+  const discardPendingUpload = async () => {
+    const pending = pendingUploadRef.current;
+    pendingUploadRef.current = null;
+    await deleteCredentials(pending?.credential.id);
   };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -153,6 +72,7 @@ export function BidderSetup({
       profileName: '',
       sheetUri: '',
       file: null,
+      columnMapping: undefined,
     });
     setError(null);
     setShowProfileForm(true);
@@ -161,47 +81,54 @@ export function BidderSetup({
   const handleEditProfile = (profile: Profile) => {
     setEditingProfileId(profile.id);
     setFormData({
-      profileName: profile.profileName,
-      sheetUri: profile.sheetUri,
+      profileName: profile.name,
+      sheetUri: profile.spreadsheetId,
       file: null,
+      columnMapping: profile.columnMapping,
     });
     setError(null);
     setShowProfileForm(true);
   };
 
   const handleCancelProfileForm = () => {
+    discardPendingUpload();
     setShowProfileForm(false);
     setEditingProfileId(null);
     setFormData({
       profileName: '',
       sheetUri: '',
       file: null,
+      columnMapping: undefined,
     });
     setError(null);
   };
 
   const handleDeleteProfile = (profileId: string) => {
     if (window.confirm('Are you sure you want to delete this profile?')) {
-      const updatedProfiles = profiles.filter(p => p.id !== profileId);
-      setProfiles(updatedProfiles);
-      
-      // Delete credentials
-      const credentialsKey = `${CREDENTIALS_KEY_PREFIX}${profileId}`;
-      localStorage.removeItem(credentialsKey);
-      
-      // Save updated data
-      if (user?.email || user?.name && bidderName) {
-        const key = `${BIDDER_DATA_KEY}_${user.email || user.name}`;
-        const data: BidderData = {
-          bidderName,
-          profiles: updatedProfiles,
-          activeProfileId: updatedProfiles.length > 0 ? updatedProfiles[0].id : null,
-        };
-        localStorage.setItem(key, JSON.stringify(data));
-      }
+      // Also deletes the profile's credential
+      deleteProfile(profileId);
     }
   };
 
+  // Connection for the profile being added/edited, used to detect its column layout
+  const getFormConnection = async () => {
+    if (!formData.sheetUri.trim()) {
+      throw new Error('Enter the Sheet URI first');
+    }
+
+    let credentialId;
+    if (formData.file) {
+      credentialId = (await uploadFormFile(formData.file)).id;
+    } else if (editingProfileId) {
+      credentialId = profiles.find(p => p.id === editingProfileId)?.credentialId;
+    }
+    if (!credentialId) {
+      throw new Error('Upload the service account JSON file first');
+    }
+
+    return { credentialId, spreadsheetId: extractSpreadsheetId(formData.sheetUri) };
+  };
+
   const handleSaveProfile = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -229,70 +156,51 @@ export function BidderSetup({
     setLoading(true);
 
     try {
-      let credentials;
-      
+      const existingProfile = editingProfileId ? profiles.find(p => p.id === editingProfileId) : undefined;
+      let credential: Pick<CredentialSummary, 'id' | 'clientEmail'>;
+
       if (formData.file) {
-        credentials = await validateAndParseFile(formData.file);
-      } else if (editingProfileId) {
-        // When editing, try to get existing credentials
-        const credentialsKey = `${CREDENTIALS_KEY_PREFIX}${editingProfileId}`;
-        const existingCredentials = localStorage.getItem(credentialsKey);
-        if (existingCredentials) {
-          try {
-            credentials = JSON.parse(existingCredentials);
-          } catch (err) {
-            throw new Error('Existing credentials are invalid. Please upload a new service account JSON file.');
-          }
-        } else {
-          throw new Error('No credentials found. Please upload a service account JSON file.');
-        }
+        credential = await uploadFormFile(formData.file);
+      } else if (existingProfile?.credentialId) {
+        // When editing, keep the existing credentials
+        credential = { id: existingProfile.credentialId, clientEmail: existingProfile.clientEmail || '' };
       } else {
-        throw new Error('Please upload a service account JSON file.');
+        throw new Error('No credentials found. Please upload a service account JSON file.');
       }
 
-      const spreadsheetId = extractSpreadsheetId(formData.sheetUri);
-      const profileId = editingProfileId || `profile_${Date.now()}`;
-
       const profile: Profile = {
-        id: profileId,
-        profileName: formData.profileName.trim(),
-        sheetUri: spreadsheetId,
+        id: editingProfileId || `profile_${Date.now()}`,
+        name: formData.profileName.trim(),
+        bidderName: bidderName.trim(),
+        spreadsheetId: extractSpreadsheetId(formData.sheetUri),
+        credentialId: credential.id,
+        clientEmail: credential.clientEmail || undefined,
+        fileName: formData.file ? formData.file.name : existingProfile?.fileName,
+        columnMapping: formData.columnMapping,
+        createdAt: existingProfile?.createdAt || new Date().toISOString(),
       };
 
-      // Save credentials separately
-      const credentialsKey = `${CREDENTIALS_KEY_PREFIX}${profileId}`;
-      localStorage.setItem(credentialsKey, JSON.stringify(credentials));
-
-      // Update profiles list
-      let updatedProfiles: Profile[];
-      if (editingProfileId) {
-        updatedProfiles = profiles.map(p => p.id === editingProfileId ? profile : p);
-      } else {
-        updatedProfiles = [...profiles, profile];
+      // Saved profiles become the active one
+      saveProfile(profile, true);
+      pendingUploadRef.current = null;
+      // The profile list shows the result as soon as the check finishes
+      checkConnection(profile);
+      const replacedCredentialId = existingProfile?.credentialId;
+      if (
+        replacedCredentialId &&
+        replacedCredentialId !== credential.id &&
+        !profiles.some(p => p.id !== existingProfile.id && p.credentialId === replacedCredentialId)
+      ) {
+        // The replaced key file is no longer referenced
+        await deleteCredentials(replacedCredentialId);
       }
 
-      setProfiles(updatedProfiles);
-
-      // Save bidder data
-      if (user?.email || user?.name) {
-        const key = `${BIDDER_DATA_KEY}_${user.email || user.name}`;
-        const data: BidderData = {
-          bidderName: bidderName.trim(),
-          profiles: updatedProfiles,
-          activeProfileId: profileId, // Set as active
-        };
-        localStorage.setItem(key, JSON.stringify(data));
-      }
-
-      // Set up session storage with credentials and spreadsheet ID
-      sessionStorage.setItem('bidlinktracker_service_account', JSON.stringify(credentials));
-      sessionStorage.setItem('bidlinktracker_spreadsheet_id', spreadsheetId);
-
       // Reset form and go back to main view
       setFormData({
         profileName: '',
         sheetUri: '',
         file: null,
+        columnMapping: undefined,
       });
       setEditingProfileId(null);
       setShowProfileForm(false);
@@ -300,12 +208,12 @@ export function BidderSetup({
       // Call onComplete to notify parent
       const infoToSave: BidderInfo = {
         bidderName: bidderName.trim(),
-        profileName: profile.profileName,
-        sheetUri: profile.sheetUri,
+        profileName: profile.name,
+        sheetUri: profile.spreadsheetId,
       };
       onComplete(infoToSave);
-    } catch (err: any) {
-      setError(err.message || 'Failed to save profile');
+    } catch (err) {
+      setError((err as Error).message || 'Failed to save profile');
       console.error('Error saving profile:', err);
     } finally {
       setLoading(false);
@@ -322,8 +230,8 @@ export function BidderSetup({
     if (activeProfile) {
       const infoToSave: BidderInfo = {
         bidderName: bidderName.trim(),
-        profileName: activeProfile.profileName,
-        sheetUri: activeProfile.sheetUri,
+        profileName: activeProfile.name,
+        sheetUri: activeProfile.spreadsheetId,
       };
       onComplete(infoToSave);
     }
@@ -386,6 +294,17 @@ export function BidderSetup({
               </small>
             </div>
 
+            <div className="form-group">
+              <label>Columns</label>
+              <ColumnMappingEditor
+                value={formData.columnMapping}
+                onChange={(columnMapping) => setFormData(prev => ({ ...prev, columnMapping }))}
+                getConnection={getFormConnection}
+                disabled={loading}
+              />
+              <small>Only needed if this spreadsheet doesn't use the standard A–J layout</small>
+            </div>
+
             {error && (
               <div className="form-error">{error}</div>
             )}
@@ -441,8 +360,8 @@ export function BidderSetup({
             {profiles.map((profile) => (
               <div key={profile.id} className="profile-item">
                 <div className="profile-info">
-                  <strong>{profile.profileName}</strong>
-                  <span className="profile-sheet-id">{profile.sheetUri.substring(0, 40)}...</span>
+                  <strong>{profile.name}</strong>
+                  <span className="profile-sheet-id">{profile.spreadsheetId.substring(0, 40)}...</span>
                 </div>
                 <div className="profile-actions">
                   <button
@@ -1,21 +1,30 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect } from 'react';
+import { format, parse } from 'date-fns';
 import { useAuth } from '../../context/AuthContext';
-import { getAllTabs, getJobUrlsFromTabs, batchUpdateFeedback } from '../../services/sheetsApi';
-import { checkUrlDuplicate } from '../../utils/duplicateChecker';
+import { AddedJobRow, AssignedProfile, NewJobEntry, SchemaValidationReport } from '../../types';
+import { getActiveColumnMapping, getJobUrlsFromTabs, lookupUrls, markDuplicates, batchAddJobEntries, ensureTabForDate, setActiveColumnMapping, setActiveSpreadsheetId, getActiveCredentialId, setActiveAssignedProfileId, getActiveAssignedProfileId, validateSchema, testConnection } from '../../services/sheetsApi';
+import { activateProfile, extractSpreadsheetId } from '../../services/profileStore';
+import { listAssignedProfiles } from '../../services/profilesApi';
+import { useProfiles } from '../../hooks/useProfiles';
+import { checkContentDuplicate, normalizeUrl } from '../../utils/duplicateChecker';
+import { CONTENT_CHECK_MAX_PAGES, analyzeJobUrls, getJobContentKey, getJobDetailValues, limitContentCheckRows } from '../../utils/jobAnalyzer';
+import { getJobSiteName } from '../../utils/jobSites';
+import { formatDate } from '../../utils/dateUtils';
 import { ProfileManager } from './ProfileManager';
+import { SchemaReport } from '../common/SchemaReport';
 import './JobLinkInput.css';
 
 interface LinkStatus {
   url: string;
   isDuplicate: boolean;
   duplicateInfo?: { tabName: string; position: string; sourceColumn?: 'F' | 'G'; rowIndex?: number; date?: string; no?: string };
+  // Same job content (title/company/location) as an existing row with a different URL
+  probableDuplicateInfo?: { tabName: string; position: string; rowIndex?: number; url: string };
 }
 
-interface Profile {
-  id: string;
-  profileName: string;
-  sheetUri: string;
-}
+// A link about to be submitted, with the Job Site, Company Name and Position read from its page
+// (editable before writing)
+type ReviewRow = Omit<NewJobEntry, 'date'> & { jobSite: string; companyName: string; position: string };
 
 interface BidderInfo {
   bidderName: string;
@@ -23,28 +32,11 @@ interface BidderInfo {
   sheetUri: string;
 }
 
-const BIDDER_DATA_KEY = 'bidlinktracker_bidder_data';
-
-// Helper to extract spreadsheet ID from URI (handles both full URLs and IDs)
-const extractSpreadsheetId = (uri: string): string => {
-  try {
-    const url = new URL(uri);
-    const match = url.pathname.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
-    if (match) {
-      return match[1];
-    }
-  } catch {
-    // Not a URL, assume it's already an ID
-  }
-  return uri.trim();
-};
-
 export function JobLinkInput() {
   const { user } = useAuth();
-  const [bidderInfo, setBidderInfo] = useState<BidderInfo | null>(null);
+  const { activeProfile } = useProfiles();
   const [jobLinks, setJobLinks] = useState('');
   const [linkStatuses, setLinkStatuses] = useState<LinkStatus[]>([]);
-  const [existingUrls, setExistingUrls] = useState<Array<{ url: string; tabName: string; position: string; sourceColumn?: 'F' | 'G'; rowIndex?: number; date?: string; no?: string }>>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -52,233 +44,72 @@ export function JobLinkInput() {
   const [copiedIndex, setCopiedIndex] = useState<number | string | null>(null);
   const [testingConnection, setTestingConnection] = useState(false);
   const [connectionTestResult, setConnectionTestResult] = useState<string | null>(null);
-  const isInitialLoad = useRef(true);
-  const cacheRef = useRef<{
-    spreadsheetId: string;
-    profileName: string;
-    last4Tabs: string[];
-    urls: Array<{ url: string; tabName: string; position: string; sourceColumn?: 'F' | 'G'; rowIndex?: number; date?: string; no?: string }>;
-    timestamp: number;
-  } | null>(null);
-  const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
-  // Load bidder info on mount (only once)
+  const [validating, setValidating] = useState(false);
+  const [schemaReport, setSchemaReport] = useState<SchemaValidationReport | null>(null);
+  const [submitDate, setSubmitDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [submitting, setSubmitting] = useState(false);
+  const [submitResult, setSubmitResult] = useState<{ tabName: string; rows: AddedJobRow[] } | null>(null);
+  const [reviewRows, setReviewRows] = useState<ReviewRow[] | null>(null);
+  const [preparingReview, setPreparingReview] = useState(false);
+  const [checkContent, setCheckContent] = useState(false);
+  const [analyzeProgress, setAnalyzeProgress] = useState<{ done: number; total: number } | null>(null);
+  // Profiles a Bid Manager assigned to this user; the server holds their credentials
+  const [assignedProfiles, setAssignedProfiles] = useState<AssignedProfile[] | null>(null);
+  // Assigned profile picked earlier in this browser tab, if any
+  const [activeAssignedId, setActiveAssignedId] = useState<string | null>(getActiveAssignedProfileId);
+
+  // The picked assigned profile, otherwise the user's own active profile (or the first
+  // assigned profile when the user has none of their own)
+  const activeAssigned = assignedProfiles?.find(p => p.id === activeAssignedId)
+    || (activeProfile ? undefined : assignedProfiles?.[0]);
+  const bidderInfo: BidderInfo | null = activeAssigned
+    ? { bidderName: user?.name || '', profileName: activeAssigned.profileName, sheetUri: activeAssigned.spreadsheetId }
+    : activeProfile
+      ? { bidderName: activeProfile.bidderName, profileName: activeProfile.name, sheetUri: activeProfile.spreadsheetId }
+      : null;
+
   useEffect(() => {
-    if (isInitialLoad.current && user?.email || user?.name) {
-      isInitialLoad.current = false;
-      const key = `${BIDDER_DATA_KEY}_${user.email || user.name}`;
-      const saved = localStorage.getItem(key);
-      if (saved) {
-        try {
-          const data = JSON.parse(saved);
-          if (data.bidderName && data.profiles && data.profiles.length > 0) {
-            const activeProfileId = data.activeProfileId || data.profiles[0].id;
-            const profile = data.profiles.find((p: Profile) => p.id === activeProfileId) || data.profiles[0];
-            
-            setBidderInfo({
-              bidderName: data.bidderName,
-              profileName: profile.profileName,
-              sheetUri: profile.sheetUri,
-            });
-            
-            // Set up session storage with spreadsheet ID (extract ID if it's a full URL)
-            const spreadsheetId = extractSpreadsheetId(profile.sheetUri);
-            sessionStorage.setItem('bidlinktracker_spreadsheet_id', spreadsheetId);
-            
-            // Load credentials
-            const credentialsKey = `bidlinktracker_profile_credentials_${profile.id}`;
-            const credentials = localStorage.getItem(credentialsKey);
-            if (credentials) {
-              try {
-                const creds = JSON.parse(credentials);
-                console.log(`[JobLinkInput] Loading credentials for profile "${profile.profileName}"`);
-                console.log(`[JobLinkInput] Has credentials: ${!!creds && !!creds.client_email}`);
-                sessionStorage.setItem('bidlinktracker_service_account', JSON.stringify(creds));
-              } catch (error) {
-                console.error('Error loading credentials:', error);
-              }
-            } else {
-              console.warn(`[JobLinkInput] ⚠️ No credentials found for profile "${profile.profileName}" (key: ${credentialsKey})`);
-              console.warn('[JobLinkInput] Please make sure you have uploaded the service account JSON file for this profile.');
-            }
-            
-            // Clear cache for new profile
-            cacheRef.current = null;
-          }
-        } catch (error) {
-          console.error('Error loading bidder info:', error);
-        }
-      }
-    }
+    if (!user) return;
+    listAssignedProfiles()
+      .then(setAssignedProfiles)
+      .catch(err => {
+        console.error('Error loading assigned profiles:', err);
+        setAssignedProfiles([]);
+      });
   }, [user]);
 
-  const handleProfileSelected = () => {
-    // Reload bidder info after profile is selected
-    if (user?.email || user?.name) {
-      const key = `${BIDDER_DATA_KEY}_${user.email || user.name}`;
-      const saved = localStorage.getItem(key);
-      if (saved) {
-        try {
-          const data = JSON.parse(saved);
-          if (data.bidderName && data.profiles && data.profiles.length > 0) {
-            const activeProfileId = data.activeProfileId || data.profiles[0].id;
-            const profile = data.profiles.find((p: Profile) => p.id === activeProfileId) || data.profiles[0];
-            
-            setBidderInfo({
-              bidderName: data.bidderName,
-              profileName: profile.profileName,
-              sheetUri: profile.sheetUri,
-            });
-            
-            // Load credentials
-            const credentialsKey = `bidlinktracker_profile_credentials_${profile.id}`;
-            const credentials = localStorage.getItem(credentialsKey);
-            if (credentials) {
-              try {
-                const creds = JSON.parse(credentials);
-                sessionStorage.setItem('bidlinktracker_service_account', JSON.stringify(creds));
-                const spreadsheetId = extractSpreadsheetId(profile.sheetUri);
-                sessionStorage.setItem('bidlinktracker_spreadsheet_id', spreadsheetId);
-              } catch (error) {
-                console.error('Error loading credentials:', error);
-              }
-            }
-            
-            // Clear cache for new profile
-            cacheRef.current = null;
-            setExistingUrls([]);
-            setLinkStatuses([]);
-            setJobLinks('');
-          }
-        } catch (error) {
-          console.error('Error loading bidder info:', error);
-        }
+  // Point API calls at the profile in use (once it's known whether an assigned profile is picked)
+  useEffect(() => {
+    if (activeAssigned) {
+      console.log(`[JobLinkInput] Using assigned profile "${activeAssigned.profileName}" (credentials held by the server)`);
+      setActiveAssignedProfileId(activeAssigned.id);
+      setActiveSpreadsheetId(activeAssigned.spreadsheetId);
+      setActiveColumnMapping(activeAssigned.columnMapping);
+    } else if (activeProfile && assignedProfiles) {
+      activateProfile(activeProfile);
+      if (!activeProfile.credentialId) {
+        console.warn(`[JobLinkInput] ⚠️ No credentials found for profile "${activeProfile.name}"`);
+        console.warn('[JobLinkInput] Please make sure you have uploaded the service account JSON file for this profile.');
       }
     }
-  };
-
-
-
-  // Load existing URLs from last 4 tabs (with caching)
-  const loadExistingData = useCallback(async (forceRefresh = false): Promise<Array<{ url: string; tabName: string; position: string; sourceColumn?: 'F' | 'G'; rowIndex?: number; date?: string; no?: string }> | undefined> => {
-    if (!bidderInfo) {
-      setError('Please complete the setup form first');
-      return undefined;
-    }
+  }, [activeAssigned, activeProfile, assignedProfiles]);
 
-    // Check cache first
-    const now = Date.now();
-    const spreadsheetId = extractSpreadsheetId(bidderInfo.sheetUri);
-    if (!forceRefresh && cacheRef.current) {
-      const cache = cacheRef.current;
-      if (
-        cache.spreadsheetId === spreadsheetId &&
-        cache.profileName === bidderInfo.profileName &&
-        (now - cache.timestamp) < CACHE_TTL
-      ) {
-        // Cache is valid, use it
-        console.log('Using cached URLs:', cache.urls.length, 'URLs');
-        setExistingUrls(cache.urls);
-        return cache.urls;
-      } else {
-        console.log('Cache invalid or expired, refreshing...', {
-          cacheSpreadsheetId: cache.spreadsheetId,
-          currentSpreadsheetId: spreadsheetId,
-          cacheProfileName: cache.profileName,
-          currentProfileName: bidderInfo.profileName,
-          cacheAge: now - cache.timestamp,
-          cacheTTL: CACHE_TTL,
-        });
-      }
-    } else {
-      console.log('No cache available, loading fresh data...');
-    }
+  const resetLinks = () => {
+    setLinkStatuses([]);
+    setJobLinks('');
+  };
 
-    setLoading(true);
-    setError(null);
+  const handleAssignedProfileChange = (profileId: string) => {
+    // '' switches back to the user's own active profile
+    setActiveAssignedId(profileId || null);
+    resetLinks();
+  };
 
-    try {
-      // Get all tabs
-      const allTabs = await getAllTabs();
-      console.log('All tabs in spreadsheet:', allTabs);
-      console.log('Total number of tabs:', allTabs.length);
-      
-      if (allTabs.length === 0) {
-        throw new Error('No tabs found in spreadsheet. Please check the spreadsheet ID and permissions.');
-      }
-      
-      // Get last 4 tabs (or all tabs if fewer than 4)
-      const last4Tabs = allTabs.length >= 4 ? allTabs.slice(-4) : allTabs;
-      console.log('Tabs to check for URLs:', last4Tabs);
-      console.log('Number of tabs to check:', last4Tabs.length);
-      
-      // Use optimized API to fetch only from last 4 tabs (parallel requests)
-      const allUrls = await getJobUrlsFromTabs(last4Tabs);
-      console.log(`Fetched ${allUrls.length} URLs from ${last4Tabs.length} tab(s):`, last4Tabs);
-      
-      if (allUrls.length === 0) {
-        console.warn('⚠️ No URLs found in checked tabs. Debugging info:');
-        console.warn('Spreadsheet ID:', spreadsheetId);
-        console.warn('Tabs checked:', last4Tabs);
-        console.warn('Total tabs in spreadsheet:', allTabs.length);
-        console.warn('Possible reasons:');
-        console.warn('1. The tabs are empty or have no data rows');
-        console.warn('2. URLs are not in Column F (Job Url) or Column G (Applied Url)');
-        console.warn('3. The spreadsheet structure might be different than expected');
-        console.warn('4. Credentials might not have read access to these tabs');
-        
-        // If no URLs found in last 4 tabs, try checking all tabs to see if data exists elsewhere
-        if (allTabs.length > 4) {
-          console.log('Attempting to check all tabs to see if data exists...');
-          const allTabsUrls = await getJobUrlsFromTabs(allTabs);
-          console.log(`Found ${allTabsUrls.length} URLs across ALL tabs`);
-          if (allTabsUrls.length > 0) {
-            console.warn('⚠️ URLs exist in other tabs, but not in the last 4 tabs. Consider checking earlier tabs.');
-          }
-        }
-      }
-      
-      // Map to the format we need (include sourceColumn and other metadata)
-      const formattedUrls = allUrls.map(u => ({ 
-        url: u.url, 
-        tabName: u.tabName, 
-        position: u.position,
-        sourceColumn: u.sourceColumn,
-        rowIndex: u.rowIndex,
-        date: u.date,
-        no: u.no,
-      }));
-      
-      // Debug: Log sample URLs to verify they're being loaded
-      if (formattedUrls.length > 0) {
-        console.log('Sample existing URLs (first 5):', formattedUrls.slice(0, 5).map(u => u.url));
-      } else {
-        console.log('No URLs found in formatted data');
-      }
-      
-      // Update cache (use extracted spreadsheet ID)
-      cacheRef.current = {
-        spreadsheetId: spreadsheetId,
-        profileName: bidderInfo.profileName,
-        last4Tabs,
-        urls: formattedUrls,
-        timestamp: now,
-      };
-      
-      setExistingUrls(formattedUrls);
-      
-      // Return the URLs so caller knows if data was loaded
-      return formattedUrls;
-    } catch (err: any) {
-      console.error('Error loading existing data:', err);
-      const errorMessage = err.message || 'Failed to load data from spreadsheet. Please check your settings.';
-      setError(errorMessage);
-      // Return empty array on error so caller can handle it
-      return [];
-    } finally {
-      setLoading(false);
-    }
-  }, [bidderInfo, CACHE_TTL]);
+  // Own profile selected, added or edited in the profile manager
+  const handleProfileSelected = () => {
+    setActiveAssignedId(null);
+    resetLinks();
+  };
 
   // Check duplicates when user clicks check button
   const handleCheckDuplicates = async () => {
@@ -294,20 +125,10 @@ export function JobLinkInput() {
 
     setChecking(true);
     setError(null);
+    setSubmitResult(null);
+    setReviewRows(null);
 
     try {
-      // Load existing URLs from last 4 tabs (will use cache if available)
-      const loadedUrls = await loadExistingData();
-      
-      // Use cached URLs if available, otherwise use loaded URLs or state
-      let urlsToCheck = cacheRef.current?.urls || loadedUrls || existingUrls;
-      
-      // If still empty, wait a moment for state to update (in case cache wasn't used)
-      if (!urlsToCheck || urlsToCheck.length === 0) {
-        await new Promise(resolve => setTimeout(resolve, 200));
-        urlsToCheck = cacheRef.current?.urls || existingUrls;
-      }
-
       // Parse input links
       const links = jobLinks
         .split('\n')
@@ -319,51 +140,33 @@ export function JobLinkInput() {
         setChecking(false);
         return;
       }
-      
-      if (!urlsToCheck || urlsToCheck.length === 0) {
-        const spreadsheetId = extractSpreadsheetId(bidderInfo.sheetUri);
-        const credentials = sessionStorage.getItem('bidlinktracker_service_account');
-        const hasCredentials = !!credentials;
-        
-        let errorMsg = `No existing URLs found in the last 4 tabs of spreadsheet "${spreadsheetId}".\n\n`;
-        errorMsg += `Diagnostics:\n`;
-        errorMsg += `- Credentials loaded: ${hasCredentials ? '✓ Yes' : '✗ No'}\n`;
-        errorMsg += `- Spreadsheet ID: ${spreadsheetId}\n\n`;
-        errorMsg += `Please verify:\n`;
-        errorMsg += `1) Your credentials have access to this spreadsheet\n`;
-        errorMsg += `2) There are URLs in Column F (Job Url) or Column G (Applied Url) in the last 4 tabs\n`;
-        errorMsg += `3) The spreadsheet ID is correct\n\n`;
-        errorMsg += `Click "Test Connection" below to get detailed information.`;
-        
-        setError(errorMsg);
-        setChecking(false);
-        return;
+
+      // One request answers every link from the server's URL index of the last 4 tabs;
+      // the server only re-reads tabs that changed since the previous check
+      setLoading(true);
+      const lookup = await lookupUrls(links, { lastTabs: 4 }).finally(() => setLoading(false));
+      console.log(`Checked ${links.length} link(s) against ${lookup.indexedUrlCount} URLs in tabs:`, lookup.tabNames);
+
+      if (lookup.indexedUrlCount === 0) {
+        // Empty tabs are normal for a new sheet or week, so every link is simply new; the sheet
+        // structure report still points out tabs whose layout would hide their URLs
+        console.warn(`No URLs indexed in tabs ${lookup.tabNames.join(', ')}; treating every link as new`);
+        try {
+          const report = await validateSchema();
+          if (report.invalidCount > 0) {
+            setSchemaReport(report);
+          }
+        } catch (schemaError) {
+          console.error('Error validating schema:', schemaError);
+        }
       }
-      
-      // Debug logging
-      console.log('Checking duplicates with:', {
-        totalLinksToCheck: links.length,
-        existingUrlsCount: urlsToCheck.length,
-        cacheAvailable: !!cacheRef.current,
-        sampleExistingUrls: urlsToCheck.slice(0, 5).map(u => u.url),
-        inputLinks: links,
-        spreadsheetId: bidderInfo.sheetUri,
-        profileName: bidderInfo.profileName,
-      });
 
-      // Check each link for duplicates
-      const statuses: LinkStatus[] = links.map(url => {
-        const duplicateCheck = checkUrlDuplicate(url, urlsToCheck);
-        console.log(`Checking ${url}:`, {
-          isDuplicate: duplicateCheck.isDuplicate,
-          duplicateInfo: duplicateCheck.duplicateInfo,
-        });
-        return {
-          url,
-          isDuplicate: duplicateCheck.isDuplicate,
-          duplicateInfo: duplicateCheck.duplicateInfo,
-        };
-      });
+      // The earliest matching row is the original the new link duplicates
+      const statuses: LinkStatus[] = lookup.results.map(result => ({
+        url: result.url,
+        isDuplicate: result.isDuplicate,
+        duplicateInfo: result.matches[0],
+      }));
 
       console.log('Duplicate check results:', statuses);
       setLinkStatuses(statuses);
@@ -382,30 +185,18 @@ export function JobLinkInput() {
         
         console.log(`Found ${duplicatesToMark.length} duplicate(s): ${appliedUrlCount} Applied URL(s), ${jobUrlCount} Job URL(s). Writing feedback...`);
         
-        const feedbackUpdates = duplicatesToMark.map(status => {
-          const info = status.duplicateInfo!;
-          const sourceType = info.sourceColumn === 'G' ? 'Applied Url' : 'Job Url';
-          // Format: "Duplicated of Sheet - [Date] in [Tab Name] Tab- No.[No] - [Position] - [Applied Url/Job Url]"
-          const feedback = `Duplicated of Sheet - ${info.date || 'N/A'} in [${info.tabName}] Tab- No.${info.no || 'N/A'} - ${info.position || 'N/A'} - ${sourceType}`;
-          
-          return {
-            tabName: info.tabName,
-            rowIndex: info.rowIndex!,
-            feedback,
-            sourceColumn: info.sourceColumn,
-          };
-        });
-
         try {
-          await batchUpdateFeedback(feedbackUpdates);
-          console.log(`Successfully wrote feedback for ${feedbackUpdates.length} duplicate(s)`);
+          // The server writes the standard "Duplicated of Sheet - ..." feedback to each original row
+          await markDuplicates(duplicatesToMark.map(status => status.url), lookup.tabNames);
+          console.log(`Successfully wrote feedback for ${duplicatesToMark.length} duplicate(s)`);
           // Show success message
-          const successMsg = `✓ Found ${duplicatesToMark.length} duplicate(s) (${appliedUrlCount} Applied URL(s), ${jobUrlCount} Job URL(s)). Feedback has been automatically written to Column I.`;
+          const successMsg = `✓ Found ${duplicatesToMark.length} duplicate(s) (${appliedUrlCount} Applied URL(s), ${jobUrlCount} Job URL(s)). Feedback has been automatically written to Column ${getActiveColumnMapping().feedback}.`;
           setSuccess(successMsg);
           // Clear success message after 5 seconds
           setTimeout(() => setSuccess(null), 5000);
-        } catch (feedbackError: any) {
-          console.error('Error writing feedback for duplicates:', feedbackError);
+        } catch (err) {
+          console.error('Error writing feedback for duplicates:', err);
+          const feedbackError = err as Error & { partial?: boolean };
           // Don't fail the entire duplicate check if feedback writing fails
           const errorMsg = feedbackError.partial 
             ? `Duplicate check completed. However, some feedback could not be written: ${feedbackError.message}`
@@ -413,8 +204,35 @@ export function JobLinkInput() {
           setError(errorMsg);
         }
       }
-    } catch (err: any) {
-      setError(err.message || 'Failed to check duplicates');
+
+      // Optional second pass: flag links whose job content matches an existing row with a different URL
+      const candidates = statuses.filter(s => !s.isDuplicate);
+      if (checkContent && candidates.length > 0) {
+        try {
+          // The same recent tabs as the URL lookup, capped so one click opens a bounded number of pages
+          const urlsToCheck = limitContentCheckRows(await getJobUrlsFromTabs(lookup.tabNames));
+          const urlsToAnalyze = [...candidates.map(s => s.url), ...urlsToCheck.map(u => u.url)];
+          setAnalyzeProgress({ done: 0, total: urlsToAnalyze.length });
+          const jobInfos = await analyzeJobUrls(urlsToAnalyze, (done, total) => setAnalyzeProgress({ done, total }));
+          const contentKeys = new Map<string, string | null>();
+          jobInfos.forEach((jobInfo, url) => contentKeys.set(url, getJobContentKey(jobInfo)));
+
+          const existingEntries = urlsToCheck;
+          setLinkStatuses(statuses.map(status => {
+            if (status.isDuplicate) return status;
+            const match = checkContentDuplicate(status.url, contentKeys.get(status.url) ?? null, existingEntries, contentKeys);
+            return match
+              ? { ...status, probableDuplicateInfo: { tabName: match.tabName, position: match.position, rowIndex: match.rowIndex, url: match.url } }
+              : status;
+          }));
+        } catch (contentError) {
+          console.error('Error checking content duplicates:', contentError);
+        } finally {
+          setAnalyzeProgress(null);
+        }
+      }
+    } catch (err) {
+      setError((err as Error).message || 'Failed to check duplicates');
       console.error('Error checking duplicates:', err);
     } finally {
       setChecking(false);
@@ -423,13 +241,16 @@ export function JobLinkInput() {
 
   // Calculate counts
   const totalCount = linkStatuses.length;
-  const availableCount = linkStatuses.filter(s => !s.isDuplicate).length;
+  const availableCount = linkStatuses.filter(s => !s.isDuplicate && !s.probableDuplicateInfo).length;
   const duplicateCount = linkStatuses.filter(s => s.isDuplicate).length;
+  const probableCount = linkStatuses.filter(s => !s.isDuplicate && s.probableDuplicateInfo).length;
 
   // Get available (non-duplicated) links
-  const availableLinks = linkStatuses.filter(s => !s.isDuplicate);
+  const availableLinks = linkStatuses.filter(s => !s.isDuplicate && !s.probableDuplicateInfo);
   // Get duplicated links
   const duplicatedLinks = linkStatuses.filter(s => s.isDuplicate);
+  // Get links that probably duplicate an existing row under a different URL
+  const probableLinks = linkStatuses.filter(s => !s.isDuplicate && s.probableDuplicateInfo);
 
   // Test connection and show detailed diagnostics
   const handleTestConnection = async () => {
@@ -444,88 +265,42 @@ export function JobLinkInput() {
 
     try {
       const spreadsheetId = extractSpreadsheetId(bidderInfo.sheetUri);
-      const credentials = sessionStorage.getItem('bidlinktracker_service_account');
+      const credentialId = getActiveCredentialId();
+      const assignedProfileId = getActiveAssignedProfileId();
       
       let result = `=== Connection Test Results ===\n\n`;
       result += `Spreadsheet ID: ${spreadsheetId}\n`;
       result += `Profile: ${bidderInfo.profileName}\n`;
-      result += `Credentials: ${credentials ? '✓ Loaded' : '✗ Missing'}\n\n`;
+      result += `Credentials: ${assignedProfileId ? '✓ Provided by your Bid Manager' : credentialId ? '✓ Loaded' : '✗ Missing'}\n\n`;
 
-      if (!credentials) {
-        result += `❌ ERROR: No credentials found in session storage.\n`;
+      if (!credentialId && !assignedProfileId) {
+        result += `❌ ERROR: No credentials selected for this profile.\n`;
         result += `Please make sure you have uploaded the service account JSON file for this profile.\n`;
         setConnectionTestResult(result);
         setTestingConnection(false);
         return;
       }
 
-      // Test getting all tabs
-      result += `Testing API connection...\n`;
-      const allTabs = await getAllTabs();
-      result += `✓ Successfully connected to spreadsheet\n`;
-      result += `Total tabs found: ${allTabs.length}\n`;
-      result += `Tab names: ${allTabs.join(', ')}\n\n`;
-
-      if (allTabs.length === 0) {
-        result += `❌ ERROR: No tabs found in spreadsheet.\n`;
-        setConnectionTestResult(result);
-        setTestingConnection(false);
-        return;
-      }
-
-      // Get last 4 tabs
-      const last4Tabs = allTabs.length >= 4 ? allTabs.slice(-4) : allTabs;
-      result += `Checking last ${last4Tabs.length} tab(s): ${last4Tabs.join(', ')}\n\n`;
-
-      // Test getting URLs from each tab
-      let totalUrls = 0;
-      for (const tabName of last4Tabs) {
-        try {
-          const tabUrls = await getJobUrlsFromTabs([tabName]);
-          const count = tabUrls.length;
-          totalUrls += count;
-          result += `Tab "${tabName}": ${count} URL(s) found\n`;
-          
-          if (count > 0) {
-            result += `  Sample URLs:\n`;
-            tabUrls.slice(0, 3).forEach((u, i) => {
-              result += `    ${i + 1}. ${u.url.substring(0, 60)}${u.url.length > 60 ? '...' : ''}\n`;
-            });
-          } else {
-            result += `  ⚠️ No URLs found in Columns F or G\n`;
-          }
-          result += `\n`;
-        } catch (err: any) {
-          result += `Tab "${tabName}": ❌ ERROR - ${err.message}\n\n`;
-        }
-      }
-
-      result += `=== Summary ===\n`;
-      result += `Total URLs in last ${last4Tabs.length} tab(s): ${totalUrls}\n\n`;
+      // Same checks as the status badge on each saved profile
+      const health = await testConnection();
+      const icons = { pass: '✓', warn: '⚠️', fail: '❌', skipped: '–' };
+      health.checks.forEach(check => {
+        result += `${icons[check.status]} ${check.label}: ${check.message}\n`;
+      });
 
-      if (totalUrls === 0) {
-        result += `❌ No URLs found. Possible reasons:\n`;
-        result += `1. The last ${last4Tabs.length} tab(s) are empty\n`;
-        result += `2. URLs are not in Column F (Job Url) or Column G (Applied Url)\n`;
-        result += `3. The data rows don't have URLs in those columns\n\n`;
-        
-        // Check all tabs
-        result += `Checking ALL tabs for URLs...\n`;
-        const allTabsUrls = await getJobUrlsFromTabs(allTabs);
-        result += `Total URLs across ALL tabs: ${allTabsUrls.length}\n`;
-        
-        if (allTabsUrls.length > 0) {
-          result += `\n⚠️ URLs exist in other tabs, but not in the last ${last4Tabs.length} tab(s).\n`;
-          result += `Consider using tabs that contain data.\n`;
-        }
-      } else {
+      result += `\n=== Summary ===\n`;
+      if (health.status === 'healthy') {
         result += `✓ Connection successful! URLs are available for duplicate checking.\n`;
+      } else if (health.status === 'warning') {
+        result += `⚠️ Connected, but some tabs need attention (see above).\n`;
+      } else {
+        result += `❌ This profile can't be used until the failed checks are fixed.\n`;
       }
 
       setConnectionTestResult(result);
-    } catch (err: any) {
+    } catch (err) {
       let errorMsg = `❌ Connection Test Failed\n\n`;
-      errorMsg += `Error: ${err.message}\n\n`;
+      errorMsg += `Error: ${(err as Error).message}\n\n`;
       errorMsg += `Possible issues:\n`;
       errorMsg += `1. Credentials are invalid or expired\n`;
       errorMsg += `2. Credentials don't have access to this spreadsheet\n`;
@@ -541,6 +316,112 @@ export function JobLinkInput() {
     }
   };
 
+  // Read Job Site, Company Name and Position (plus any mapped job details) from each
+  // non-duplicate link's page so the bidder can check them before anything is written
+  const handleReviewAvailable = async () => {
+    if (!bidderInfo) {
+      setError('Please complete the setup form first');
+      return;
+    }
+
+    // The same link pasted twice is "available" both times, so only add it once
+    const seen = new Set<string>();
+    const linksToAdd = availableLinks
+      .map(status => status.url)
+      .filter(url => {
+        const normalized = normalizeUrl(url);
+        if (seen.has(normalized)) return false;
+        seen.add(normalized);
+        return true;
+      });
+
+    if (linksToAdd.length === 0) {
+      setError('There are no available links to submit');
+      return;
+    }
+
+    setPreparingReview(true);
+    setError(null);
+    setSuccess(null);
+    setAnalyzeProgress({ done: 0, total: linksToAdd.length });
+
+    try {
+      const jobInfos = await analyzeJobUrls(linksToAdd, (done, total) => setAnalyzeProgress({ done, total }));
+      setReviewRows(linksToAdd.map(jobUrl => {
+        const jobInfo = jobInfos.get(jobUrl) || { url: jobUrl };
+        return {
+          jobUrl,
+          jobSite: getJobSiteName(jobUrl),
+          companyName: jobInfo.company || '',
+          position: jobInfo.title || '',
+          details: getJobDetailValues(jobInfo),
+        };
+      }));
+    } catch (err) {
+      setError((err as Error).message || 'Failed to read the job pages');
+      console.error('Error analyzing links for review:', err);
+    } finally {
+      setAnalyzeProgress(null);
+      setPreparingReview(false);
+    }
+  };
+
+  const handleReviewChange = (index: number, column: 'jobSite' | 'companyName' | 'position', value: string) => {
+    setReviewRows(rows => rows && rows.map((row, i) => (i === index ? { ...row, [column]: value } : row)));
+  };
+
+  // Append the reviewed links to the tab covering the chosen date
+  const handleSubmitAvailable = async () => {
+    if (!reviewRows || reviewRows.length === 0) {
+      setError('There are no available links to submit');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const date = parse(submitDate, 'yyyy-MM-dd', new Date());
+      if (isNaN(date.getTime())) {
+        throw new Error('Please choose a valid date');
+      }
+
+      // Creates the week's tab from the most recent one when it doesn't exist yet
+      const dateStr = formatDate(date);
+      const { tabName, created } = await ensureTabForDate(dateStr);
+
+      const result = await batchAddJobEntries(tabName, reviewRows.map(row => ({ ...row, date: dateStr })));
+      setSubmitResult(result);
+      setReviewRows(null);
+      setSuccess(`✓ Added ${result.rows.length} link(s) to ${created ? 'new ' : ''}tab "${result.tabName}".`);
+    } catch (err) {
+      setError((err as Error).message || 'Failed to submit links');
+      console.error('Error submitting links:', err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleValidateSchema = async () => {
+    if (!bidderInfo) {
+      setError('Please complete the setup form first');
+      return;
+    }
+
+    setValidating(true);
+    setSchemaReport(null);
+
+    try {
+      setSchemaReport(await validateSchema());
+    } catch (err) {
+      setError((err as Error).message || 'Failed to validate spreadsheet structure');
+      console.error('Error validating schema:', err);
+    } finally {
+      setValidating(false);
+    }
+  };
+
   const handleCopyUrl = async (url: string, index: number | string) => {
     try {
       await navigator.clipboard.writeText(url);
@@ -553,6 +434,9 @@ export function JobLinkInput() {
 
   // Show profile manager if no profiles exist
   if (!bidderInfo) {
+    if (assignedProfiles === null) {
+      return <div className="message info">Loading profiles...</div>;
+    }
     return <ProfileManager onProfileSelected={handleProfileSelected} />;
   }
 
@@ -561,6 +445,21 @@ export function JobLinkInput() {
       {/* Profile Manager Section - Always visible at top */}
       <div className="profile-section">
         <ProfileManager onProfileSelected={handleProfileSelected} embedded={true} />
+        {assignedProfiles && assignedProfiles.length > 0 && (
+          <div className="assigned-profile-picker">
+            <label htmlFor="assigned-profile-select">Assigned by your Bid Manager:</label>
+            <select
+              id="assigned-profile-select"
+              value={activeAssigned?.id || ''}
+              onChange={(e) => handleAssignedProfileChange(e.target.value)}
+            >
+              {activeProfile && <option value="">Use my own profile ({activeProfile.name})</option>}
+              {assignedProfiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.profileName}</option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
       <div className="input-header">
@@ -597,6 +496,8 @@ export function JobLinkInput() {
               if (linkStatuses.length > 0) {
                 setLinkStatuses([]);
               }
+              setSubmitResult(null);
+              setReviewRows(null);
             }}
             onFocus={(e) => {
               console.log('Textarea focused, disabled:', e.target.disabled, 'loading:', loading, 'checking:', checking);
@@ -619,13 +520,25 @@ export function JobLinkInput() {
           </div>
         </div>
 
+        <label className="content-check-option">
+          <input
+            type="checkbox"
+            checked={checkContent}
+            onChange={(e) => setCheckContent(e.target.checked)}
+            disabled={checking}
+          />
+          Also find probable duplicates by job content (slower: opens each new link and up to {CONTENT_CHECK_MAX_PAGES} of the most recent rows)
+        </label>
+
         <button
           type="button"
           onClick={handleCheckDuplicates}
           disabled={loading || checking || !jobLinks.trim()}
           className="check-button"
         >
-          {checking ? 'Checking...' : 'Check for Duplicates'}
+          {checking
+            ? (analyzeProgress ? `Analyzing job pages ${analyzeProgress.done}/${analyzeProgress.total}...` : 'Checking...')
+            : 'Check for Duplicates'}
         </button>
 
         {success && (
@@ -677,6 +590,22 @@ export function JobLinkInput() {
           </button>
         )}
 
+        {!schemaReport && (
+          <button
+            type="button"
+            onClick={handleValidateSchema}
+            disabled={validating || !bidderInfo}
+            className="check-button"
+            style={{ background: 'white', color: '#667eea', border: '2px solid #667eea', marginBottom: '16px' }}
+          >
+            {validating ? 'Validating...' : 'Validate Sheet Structure'}
+          </button>
+        )}
+
+        {schemaReport && (
+          <SchemaReport report={schemaReport} onClose={() => setSchemaReport(null)} />
+        )}
+
         {/* Counts Display */}
         {linkStatuses.length > 0 && (
           <div className="counts-display">
@@ -692,6 +621,12 @@ export function JobLinkInput() {
               <span className="count-label">Duplicated Links:</span>
               <span className="count-value duplicate">{duplicateCount}</span>
             </div>
+            {probableCount > 0 && (
+              <div className="count-item">
+                <span className="count-label">Probable Duplicates:</span>
+                <span className="count-value probable">{probableCount}</span>
+              </div>
+            )}
           </div>
         )}
 
@@ -729,6 +664,41 @@ export function JobLinkInput() {
           </div>
         )}
 
+        {/* Show links whose job content matches an existing row under a different URL */}
+        {probableLinks.length > 0 && (
+          <div className="duplicated-links-section">
+            <h3>Probable Duplicates ({probableCount})</h3>
+            <p className="section-note">Same title, company and location as an existing row with a different URL. Not submitted automatically.</p>
+            <div className="duplicated-links-list">
+              {probableLinks.map((status, index) => (
+                <div key={`probable-${index}`} className="duplicated-link-item probable">
+                  <span className="link-icon">?</span>
+                  <div className="link-content">
+                    <div className="link-url">{status.url}</div>
+                    {status.probableDuplicateInfo && (
+                      <div className="duplicate-info">
+                        <span className="duplicate-label">Looks like:</span>
+                        <span className="duplicate-details">
+                          {status.probableDuplicateInfo.tabName} - {status.probableDuplicateInfo.position || 'N/A'} ({status.probableDuplicateInfo.url})
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleCopyUrl(status.url, `probable-${index}`)}
+                    className="copy-button"
+                    title="Copy URL"
+                  >
+                    {copiedIndex === `probable-${index}` ? '✓ Copied' : 'Copy'}
+                  </button>
+                  <span className="link-status-badge probable">Probable</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Show available (non-duplicated) links */}
         {availableLinks.length > 0 && (
           <div className="available-links-section">
@@ -750,6 +720,95 @@ export function JobLinkInput() {
                 </div>
               ))}
             </div>
+
+            {/* Submit the available links to the sheet */}
+            <div className="submit-section">
+              {submitResult ? (
+                <div className="submit-result">
+                  <strong>Added to tab "{submitResult.tabName}":</strong>
+                  <ul>
+                    {submitResult.rows.map(row => (
+                      <li key={row.rowIndex}>
+                        Row {row.rowIndex} · No. {row.no} · {row.jobUrl}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : reviewRows ? (
+                <>
+                  <p className="review-hint">Check the values read from each job page before they're written to the sheet.</p>
+                  <div className="review-table-wrapper">
+                    <table className="review-table">
+                      <thead>
+                        <tr>
+                          <th>Job Url</th>
+                          <th>Job Site</th>
+                          <th>Company Name</th>
+                          <th>Position</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {reviewRows.map((row, index) => (
+                          <tr key={row.jobUrl}>
+                            <td className="review-url" title={row.jobUrl}>{row.jobUrl}</td>
+                            {(['jobSite', 'companyName', 'position'] as const).map(column => (
+                              <td key={column}>
+                                <input
+                                  type="text"
+                                  value={row[column]}
+                                  onChange={(e) => handleReviewChange(index, column, e.target.value)}
+                                  disabled={submitting}
+                                />
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor="submitDate">Date</label>
+                    <input
+                      type="date"
+                      id="submitDate"
+                      value={submitDate}
+                      onChange={(e) => setSubmitDate(e.target.value)}
+                      disabled={submitting}
+                    />
+                    <small>Links are added to the tab for this date's week</small>
+                  </div>
+                  <div className="review-actions">
+                    <button
+                      type="button"
+                      onClick={() => setReviewRows(null)}
+                      disabled={submitting}
+                      className="review-back-button"
+                    >
+                      Back
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleSubmitAvailable}
+                      disabled={submitting || !submitDate}
+                      className="submit-button"
+                    >
+                      {submitting ? 'Submitting...' : `Write ${reviewRows.length} Link(s) to Sheet`}
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handleReviewAvailable}
+                  disabled={preparingReview}
+                  className="submit-button"
+                >
+                  {preparingReview && analyzeProgress
+                    ? `Reading job pages ${analyzeProgress.done}/${analyzeProgress.total}...`
+                    : `Review ${availableCount} Link(s) for Sheet`}
+                </button>
+              )}
+            </div>
           </div>
         )}
       </div>
@@ -1,123 +1,10 @@
-import { useState, useEffect } from 'react';
 import { useAuth } from '../../context/AuthContext';
+import { useProfiles } from '../../hooks/useProfiles';
 import './ProfileSelector.css';
 
-interface Account {
-  id: string;
-  name: string;
-  bidderName: string;
-  fileName: string;
-  spreadsheetId?: string;
-  credentials: any;
-  createdAt: string;
-}
-
-const STORAGE_KEY = 'bidlinktracker_accounts';
-const ACTIVE_ACCOUNT_KEY = 'bidlinktracker_active_account';
-
 export function ProfileSelector() {
   const { user } = useAuth();
-  const [accounts, setAccounts] = useState<Account[]>([]);
-  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    // Load accounts
-    const accountsList = loadAccounts();
-    
-    // Set active account if one is stored
-    const activeId = localStorage.getItem(ACTIVE_ACCOUNT_KEY);
-    if (activeId && accountsList.find(a => a.id === activeId)) {
-      setSelectedAccountId(activeId);
-      const activeAccount = accountsList.find(a => a.id === activeId);
-      if (activeAccount) {
-        sessionStorage.setItem('bidlinktracker_service_account', JSON.stringify(activeAccount.credentials));
-        if (activeAccount.spreadsheetId) {
-          sessionStorage.setItem('bidlinktracker_spreadsheet_id', activeAccount.spreadsheetId);
-        } else {
-          sessionStorage.removeItem('bidlinktracker_spreadsheet_id');
-        }
-      }
-    } else if (accountsList.length > 0 && !activeId) {
-      // If no active account but accounts exist, set the first one as active
-      const firstAccount = accountsList[0];
-      setSelectedAccountId(firstAccount.id);
-      localStorage.setItem(ACTIVE_ACCOUNT_KEY, firstAccount.id);
-      sessionStorage.setItem('bidlinktracker_service_account', JSON.stringify(firstAccount.credentials));
-      if (firstAccount.spreadsheetId) {
-        sessionStorage.setItem('bidlinktracker_spreadsheet_id', firstAccount.spreadsheetId);
-      }
-      window.dispatchEvent(new Event('accountUpdated'));
-    }
-    
-    // Listen for account updates
-    const handleAccountUpdate = () => {
-      const updatedAccounts = loadAccounts();
-      const activeId = localStorage.getItem(ACTIVE_ACCOUNT_KEY);
-      if (activeId && updatedAccounts.find(a => a.id === activeId)) {
-        const activeAccount = updatedAccounts.find(a => a.id === activeId);
-        if (activeAccount) {
-          sessionStorage.setItem('bidlinktracker_service_account', JSON.stringify(activeAccount.credentials));
-          if (activeAccount.spreadsheetId) {
-            sessionStorage.setItem('bidlinktracker_spreadsheet_id', activeAccount.spreadsheetId);
-          } else {
-            sessionStorage.removeItem('bidlinktracker_spreadsheet_id');
-          }
-        }
-      }
-    };
-    window.addEventListener('accountUpdated', handleAccountUpdate);
-    
-    // Listen for storage events (when localStorage changes in another tab)
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === STORAGE_KEY || e.key === ACTIVE_ACCOUNT_KEY) {
-        const updatedAccounts = loadAccounts();
-        const activeId = localStorage.getItem(ACTIVE_ACCOUNT_KEY);
-        if (activeId && updatedAccounts.find(a => a.id === activeId)) {
-          setSelectedAccountId(activeId);
-        }
-      }
-    };
-    window.addEventListener('storage', handleStorageChange);
-    
-    return () => {
-      window.removeEventListener('accountUpdated', handleAccountUpdate);
-      window.removeEventListener('storage', handleStorageChange);
-    };
-  }, []);
-
-  const loadAccounts = (): Account[] => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const accountsList = JSON.parse(stored) as Account[];
-        setAccounts(accountsList);
-        return accountsList;
-      }
-      return [];
-    } catch (error) {
-      console.error('Error loading accounts:', error);
-      setError('Failed to load accounts');
-      return [];
-    }
-  };
-
-  const handleProfileChange = (accountId: string) => {
-    const account = accounts.find(a => a.id === accountId);
-    if (account) {
-      setSelectedAccountId(accountId);
-      localStorage.setItem(ACTIVE_ACCOUNT_KEY, accountId);
-      sessionStorage.setItem('bidlinktracker_service_account', JSON.stringify(account.credentials));
-      if (account.spreadsheetId) {
-        sessionStorage.setItem('bidlinktracker_spreadsheet_id', account.spreadsheetId);
-      } else {
-        sessionStorage.removeItem('bidlinktracker_spreadsheet_id');
-      }
-      setError(null);
-      // Dispatch event to notify other components
-      window.dispatchEvent(new Event('accountUpdated'));
-    }
-  };
+  const { profiles: accounts, activeProfile: selectedAccount, selectProfile } = useProfiles();
 
   if (accounts.length === 0) {
     return (
@@ -129,15 +16,10 @@ export function ProfileSelector() {
           )}
           <p>No profiles available. Please ask a Bid Manager to set up a profile.</p>
         </div>
-        {error && (
-          <div className="profile-error">{error}</div>
-        )}
       </div>
     );
   }
 
-  const selectedAccount = accounts.find(a => a.id === selectedAccountId);
-
   return (
     <div className="profile-selector">
       <div className="profile-header">
@@ -152,8 +34,8 @@ export function ProfileSelector() {
         <label htmlFor="profile-select">Profile:</label>
         <select
           id="profile-select"
-          value={selectedAccountId || ''}
-          onChange={(e) => handleProfileChange(e.target.value)}
+          value={selectedAccount?.id || ''}
+          onChange={(e) => selectProfile(e.target.value)}
           className="profile-dropdown"
         >
           {accounts.map((account) => (
@@ -181,10 +63,6 @@ export function ProfileSelector() {
           )}
         </div>
       )}
-
-      {error && (
-        <div className="profile-error">{error}</div>
-      )}
     </div>
   );
 }
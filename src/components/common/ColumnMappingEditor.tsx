@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { ColumnMapping, JobColumn, JobDetailColumn } from '../../types';
+import { detectColumnMapping, SheetConnection } from '../../services/sheetsApi';
+import {
+  COLUMN_LABELS,
+  DEFAULT_COLUMN_MAPPING,
+  DETAIL_COLUMNS,
+  DETAIL_COLUMN_LABELS,
+  JOB_COLUMNS,
+  isValidColumnLetter,
+} from '../../utils/columnSchema';
+import './ColumnMappingEditor.css';
+
+export function ColumnMappingEditor({
+  value,
+  onChange,
+  getConnection,
+  disabled = false,
+}: {
+  value?: Partial<ColumnMapping>;
+  onChange: (mapping: Partial<ColumnMapping> | undefined) => void;
+  getConnection: () => Promise<SheetConnection>;
+  disabled?: boolean;
+}) {
+  const [expanded, setExpanded] = useState(!!value);
+  const [detecting, setDetecting] = useState(false);
+  const [detectMessage, setDetectMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLetterChange = (column: JobColumn, letter: string) => {
+    const updated = { ...(value || {}), [column]: letter.toUpperCase() };
+    onChange(updated);
+  };
+
+  // Detail columns are optional: a blank letter means the detail isn't written
+  const handleDetailLetterChange = (column: JobDetailColumn, letter: string) => {
+    const updated = { ...(value || {}) };
+    if (letter.trim()) {
+      updated[column] = letter.toUpperCase();
+    } else {
+      delete updated[column];
+    }
+    onChange(updated);
+  };
+
+  const handleDetect = async () => {
+    setDetecting(true);
+    setError(null);
+    setDetectMessage(null);
+
+    try {
+      const connection = await getConnection();
+      const result = await detectColumnMapping(undefined, connection);
+      onChange(result.mapping);
+      setExpanded(true);
+
+      let message = `Detected ${result.matched.length} of ${JOB_COLUMNS.length} columns from the header row of "${result.tabName}".`;
+      if (result.missing.length > 0) {
+        message += ` Not found in the header row: ${result.missing.map(c => COLUMN_LABELS[c]).join(', ')}.`;
+      }
+      setDetectMessage(message);
+    } catch (err) {
+      setError((err as Error).message || 'Failed to detect columns');
+      console.error('Error detecting column mapping:', err);
+    } finally {
+      setDetecting(false);
+    }
+  };
+
+  const handleReset = () => {
+    onChange(undefined);
+    setDetectMessage(null);
+    setError(null);
+  };
+
+  const invalidColumns = JOB_COLUMNS.filter(c => value?.[c] && !isValidColumnLetter(value[c] as string));
+  const invalidDetailColumns = DETAIL_COLUMNS.filter(c => value?.[c] && !isValidColumnLetter(value[c] as string));
+  // The server ignores a detail column that shares a letter with a main column
+  const usedLetters = new Set(JOB_COLUMNS.map(c => (value?.[c] ?? DEFAULT_COLUMN_MAPPING[c]).trim().toUpperCase()));
+  const clashingDetailColumns = DETAIL_COLUMNS.filter(c => value?.[c] && usedLetters.has((value[c] as string).trim().toUpperCase()));
+
+  return (
+    <div className="column-mapping-editor">
+      <div className="column-mapping-header">
+        <span className="column-mapping-title">
+          Column Layout: <strong>{value ? 'Custom' : 'Default (A–J)'}</strong>
+        </span>
+        <div className="column-mapping-actions">
+          <button type="button" onClick={handleDetect} disabled={disabled || detecting} className="detect-columns-button">
+            {detecting ? 'Detecting...' : 'Detect from Header Row'}
+          </button>
+          <button type="button" onClick={() => setExpanded(!expanded)} className="toggle-columns-button">
+            {expanded ? 'Hide' : 'Edit'}
+          </button>
+          {value && (
+            <button type="button" onClick={handleReset} disabled={disabled} className="toggle-columns-button">
+              Reset
+            </button>
+          )}
+        </div>
+      </div>
+
+      {detectMessage && <p className="column-mapping-info">{detectMessage}</p>}
+      {error && <p className="column-mapping-error">{error}</p>}
+      {invalidColumns.length > 0 && (
+        <p className="column-mapping-error">
+          Invalid column letter for: {invalidColumns.map(c => COLUMN_LABELS[c]).join(', ')}
+        </p>
+      )}
+      {invalidDetailColumns.length > 0 && (
+        <p className="column-mapping-error">
+          Invalid column letter for: {invalidDetailColumns.map(c => DETAIL_COLUMN_LABELS[c]).join(', ')}
+        </p>
+      )}
+      {clashingDetailColumns.length > 0 && (
+        <p className="column-mapping-error">
+          Already used by another column, so not written: {clashingDetailColumns.map(c => DETAIL_COLUMN_LABELS[c]).join(', ')}
+        </p>
+      )}
+
+      {expanded && (
+        <div className="column-mapping-grid">
+          {JOB_COLUMNS.map(column => (
+            <label key={column} className="column-mapping-field">
+              <span>{COLUMN_LABELS[column]}</span>
+              <input
+                type="text"
+                value={value?.[column] ?? DEFAULT_COLUMN_MAPPING[column]}
+                onChange={(e) => handleLetterChange(column, e.target.value)}
+                maxLength={3}
+                disabled={disabled}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {expanded && (
+        <>
+          <p className="column-mapping-info">
+            Job details (optional): read from each job page on submit and written to these columns. Leave blank to skip.
+          </p>
+          <div className="column-mapping-grid">
+            {DETAIL_COLUMNS.map(column => (
+              <label key={column} className="column-mapping-field">
+                <span>{DETAIL_COLUMN_LABELS[column]}</span>
+                <input
+                  type="text"
+                  value={value?.[column] ?? ''}
+                  onChange={(e) => handleDetailLetterChange(column, e.target.value)}
+                  maxLength={3}
+                  placeholder="—"
+                  disabled={disabled}
+                />
+              </label>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
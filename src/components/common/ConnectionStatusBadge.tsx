@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { Profile } from '../../types';
+import { useConnectionHealth } from '../../hooks/useConnectionHealth';
+import './ConnectionStatusBadge.css';
+
+const STATUS_LABELS = {
+  healthy: 'Connected',
+  warning: 'Needs attention',
+  failing: 'Not working',
+  checking: 'Checking...',
+  unchecked: 'Not checked',
+};
+
+const CHECK_ICONS = { pass: '✓', warn: '⚠️', fail: '✗', skipped: '–' };
+
+/**
+ * Connection health of a saved profile, with its last check results and a button to re-run it
+ */
+export function ConnectionStatusBadge({ profile }: { profile: Profile }) {
+  const { getHealth, checkConnection } = useConnectionHealth();
+  const [showDetails, setShowDetails] = useState(false);
+  const health = getHealth(profile);
+  const status = health?.status || 'unchecked';
+  const result = health && health.status !== 'checking' ? health : null;
+
+  return (
+    <div className="connection-status">
+      <div className="connection-status-row">
+        <span className={`connection-badge ${status}`}>{STATUS_LABELS[status]}</span>
+        {result && (
+          <button type="button" onClick={() => setShowDetails(!showDetails)} className="connection-link-button">
+            {showDetails ? 'Hide details' : 'Details'}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => checkConnection(profile)}
+          disabled={status === 'checking'}
+          className="connection-link-button"
+        >
+          {health ? 'Check again' : 'Check connection'}
+        </button>
+      </div>
+
+      {result && showDetails && (
+        <ul className="connection-checks">
+          {result.error && <li className="fail">✗ {result.error}</li>}
+          {result.checks.map(check => (
+            <li key={check.id} className={check.status}>
+              {CHECK_ICONS[check.status]} <strong>{check.label}:</strong> {check.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import React from 'react';
+import { NavLink } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
+import { ROLE_LABELS } from '../../utils/roles';
 import './Layout.css';
 
 interface LayoutProps {
@@ -15,8 +17,15 @@ export function Layout({ children }: LayoutProps) {
         <div className="header-content">
           <h1>BidLinkTracker</h1>
           <div className="header-right">
+            {user?.role === 'admin' && (
+              <nav className="header-nav">
+                <NavLink to="/admin">Users</NavLink>
+                <NavLink to="/bid-manager">Bid Manager</NavLink>
+                <NavLink to="/bidder">Bidder</NavLink>
+              </nav>
+            )}
             <span className="user-role">
-              {user?.role === 'bid-manager' ? 'Bid Manager' : 'Bidder'}
+              {user ? ROLE_LABELS[user.role] : ''}
             </span>
             {user?.name && <span className="user-name">{user.name}</span>}
             <button onClick={logout} className="logout-button">
@@ -1,30 +1,45 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
-import { UserRole } from '../../types';
+import { UserInvite } from '../../types';
+import { getInvite } from '../../services/authApi';
+import { ROLE_LABELS } from '../../utils/roles';
 import './Login.css';
 
 export function Login() {
   const { signup, signin } = useAuth();
-  const [mode, setMode] = useState<'signin' | 'signup'>('signin');
-  const [selectedRole, setSelectedRole] = useState<UserRole | ''>('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
+  // The setup link (/login?setup=<ADMIN_SETUP_TOKEN>) creates the server's first admin
+  const setupToken = searchParams.get('setup');
+  const [invite, setInvite] = useState<UserInvite | null>(null);
+  const [mode, setMode] = useState<'signin' | 'signup'>(inviteToken || setupToken ? 'signup' : 'signin');
   const [fullName, setFullName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
+  // An invite link (/login?invite=<token>) opens signup for the invited email and role
+  useEffect(() => {
+    if (!inviteToken) return;
+    getInvite(inviteToken)
+      .then(pendingInvite => {
+        setInvite(pendingInvite);
+        setEmail(pendingInvite.email);
+      })
+      .catch(err => setError((err as Error).message));
+  }, [inviteToken]);
+
   const handleSignup = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
     setLoading(true);
 
-    if (!selectedRole) {
-      setError('Please select a role');
-      setLoading(false);
-      return;
-    }
-
-    const result = await signup(fullName, email, password, selectedRole as UserRole);
+    const result = await signup(fullName, email, password, {
+      inviteToken: invite && inviteToken ? inviteToken : undefined,
+      setupToken: setupToken || undefined,
+    });
     
     if (result.success) {
       // Switch to signin mode after successful signup
@@ -32,8 +47,12 @@ export function Login() {
       setMode('signin');
       setFullName('');
       setPassword('');
-      setSelectedRole('');
       setError(null);
+      if (inviteToken || setupToken) {
+        // The invite (or setup link) is used up
+        setInvite(null);
+        setSearchParams({}, { replace: true });
+      }
     } else {
       setError(result.error || 'Signup failed');
     }
@@ -59,9 +78,8 @@ export function Login() {
     setMode(mode === 'signin' ? 'signup' : 'signin');
     setError(null);
     setFullName('');
-    setEmail('');
+    setEmail(invite?.email || '');
     setPassword('');
-    setSelectedRole('');
   };
 
   return (
@@ -80,6 +98,20 @@ export function Login() {
 
         {mode === 'signup' ? (
           <form onSubmit={handleSignup}>
+            {setupToken ? (
+              <p className="invite-notice">
+                This setup link creates the server's first <strong>{ROLE_LABELS.admin}</strong> account.
+              </p>
+            ) : invite ? (
+              <p className="invite-notice">
+                You've been invited as <strong>{ROLE_LABELS[invite.role]}</strong> by {invite.invitedBy}.
+              </p>
+            ) : (
+              <p className="invite-notice">
+                New accounts start as <strong>Bidder</strong>. Ask an admin for an invite link to join with another role.
+              </p>
+            )}
+
             <div className="form-group">
               <label htmlFor="fullName">Full Name</label>
               <input
@@ -103,6 +135,7 @@ export function Login() {
                 placeholder="Enter your email address"
                 required
                 disabled={loading}
+                readOnly={!!invite}
               />
             </div>
 
@@ -120,40 +153,7 @@ export function Login() {
               />
             </div>
 
-            <div className="role-selection">
-              <p className="role-label">Select your role:</p>
-              <label className="role-option">
-                <input
-                  type="radio"
-                  name="role"
-                  value="bid-manager"
-                  checked={selectedRole === 'bid-manager'}
-                  onChange={(e) => setSelectedRole(e.target.value as UserRole)}
-                  disabled={loading}
-                />
-                <div className="role-content">
-                  <strong>Bid Manager</strong>
-                  <span>Manage duplicates and track job applications</span>
-                </div>
-              </label>
-              
-              <label className="role-option">
-                <input
-                  type="radio"
-                  name="role"
-                  value="bidder"
-                  checked={selectedRole === 'bidder'}
-                  onChange={(e) => setSelectedRole(e.target.value as UserRole)}
-                  disabled={loading}
-                />
-                <div className="role-content">
-                  <strong>Bidder</strong>
-                  <span>Submit job links for tracking</span>
-                </div>
-              </label>
-            </div>
-
-            <button type="submit" className="login-button" disabled={loading || !selectedRole}>
+            <button type="submit" className="login-button" disabled={loading}>
               {loading ? 'Creating Account...' : 'Sign Up'}
             </button>
 
@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Profile } from '../../types';
+import { deleteCredentials, exportProfileBundle, importProfileBundle } from '../../services/credentialsApi';
+import { ImportResolution, findImportConflict } from '../../services/profileStore';
+import { useProfiles } from '../../hooks/useProfiles';
+import './ProfileBundleTransfer.css';
+
+interface PendingImport {
+  profile: Profile;
+  conflict?: Profile; // Saved profile with the same ID or name
+  resolution: ImportResolution;
+}
+
+const RESOLUTION_LABELS: Record<ImportResolution, string> = {
+  skip: 'Skip',
+  overwrite: 'Overwrite saved',
+  rename: 'Import as a copy',
+};
+
+/**
+ * Export of all saved profiles to a password-encrypted bundle file, and import of such a file
+ * with a choice for each profile that matches a saved one
+ */
+export function ProfileBundleTransfer({ itemLabel = 'profiles' }: { itemLabel?: string }) {
+  const { profiles, importProfiles } = useProfiles();
+  const [mode, setMode] = useState<'export' | 'import' | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [bundleFile, setBundleFile] = useState<File | null>(null);
+  const [pending, setPending] = useState<PendingImport[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const toggleMode = (next: 'export' | 'import') => {
+    setMode(mode === next ? null : next);
+    setPassword('');
+    setConfirmPassword('');
+    setError(null);
+    setMessage(null);
+  };
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setMessage(null);
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const { bundle, missingKeys } = await exportProfileBundle(profiles, password);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `bidlinktracker-${itemLabel}-${format(new Date(), 'yyyy-MM-dd')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      let exported = `Exported ${profiles.length} ${itemLabel}.`;
+      if (missingKeys.length > 0) {
+        exported += ` No key file was found for ${missingKeys.join(', ')}; upload it again after importing.`;
+      }
+      setMessage(exported);
+      setMode(null);
+      setPassword('');
+      setConfirmPassword('');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleOpenBundle = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setMessage(null);
+    if (!bundleFile) {
+      setError('Select a bundle file');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(await bundleFile.text());
+      } catch {
+        throw new Error('The selected file is not a valid bundle file');
+      }
+      const imported = await importProfileBundle(bundle, password);
+      setPending(imported.map(profile => {
+        const conflict = findImportConflict(profiles, profile);
+        // Profiles without a conflict are added; "rename" only matters if two imported ones clash
+        return { profile, conflict, resolution: conflict ? 'skip' : 'rename' };
+      }));
+      setPassword('');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setResolution = (index: number, resolution: ImportResolution) => {
+    setPending(current => current && current.map((item, i) => i === index ? { ...item, resolution } : item));
+  };
+
+  const handleImport = () => {
+    if (!pending) return;
+    try {
+      importProfiles(pending.map(({ profile, resolution }) => ({ profile, resolution })));
+    } catch (err) {
+      setError((err as Error).message);
+      return;
+    }
+    const skipped = pending.filter(item => item.conflict && item.resolution === 'skip').length;
+    setMessage(`Imported ${pending.length - skipped} ${itemLabel}${skipped > 0 ? ` (${skipped} skipped)` : ''}.`);
+    setPending(null);
+    setBundleFile(null);
+    setMode(null);
+  };
+
+  const handleCancelImport = () => {
+    // Opening the bundle already stored its keys in the vault
+    pending?.forEach(({ profile }) => deleteCredentials(profile.credentialId));
+    setPending(null);
+  };
+
+  return (
+    <div className="profile-bundle-transfer">
+      <div className="bundle-actions">
+        <button type="button" onClick={() => toggleMode('export')} className="bundle-button" disabled={busy || profiles.length === 0 || !!pending}>
+          Export {itemLabel}
+        </button>
+        <button type="button" onClick={() => toggleMode('import')} className="bundle-button" disabled={busy || !!pending}>
+          Import {itemLabel}
+        </button>
+      </div>
+
+      {mode === 'export' && (
+        <form onSubmit={handleExport} className="bundle-form">
+          <p className="bundle-hint">
+            The file contains the service account keys of all {profiles.length} {itemLabel}, encrypted with this password.
+            Anyone with the file and the password can use them.
+          </p>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Bundle password (at least 8 characters)"
+            minLength={8}
+            required
+            disabled={busy}
+          />
+          <input
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            placeholder="Confirm password"
+            required
+            disabled={busy}
+          />
+          <button type="submit" className="bundle-submit" disabled={busy}>
+            {busy ? 'Exporting...' : 'Download Bundle'}
+          </button>
+        </form>
+      )}
+
+      {mode === 'import' && !pending && (
+        <form onSubmit={handleOpenBundle} className="bundle-form">
+          <input
+            type="file"
+            accept=".json"
+            onChange={(e) => setBundleFile(e.target.files?.[0] || null)}
+            required
+            disabled={busy}
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Bundle password"
+            required
+            disabled={busy}
+          />
+          <button type="submit" className="bundle-submit" disabled={busy}>
+            {busy ? 'Opening...' : 'Open Bundle'}
+          </button>
+        </form>
+      )}
+
+      {pending && (
+        <div className="bundle-review">
+          <table>
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Spreadsheet</th>
+                <th>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pending.map((item, index) => (
+                <tr key={`${item.profile.id}-${index}`}>
+                  <td>
+                    {item.profile.name}
+                    {!item.profile.credentialId && <span className="bundle-warning"> (no key file)</span>}
+                  </td>
+                  <td>{item.profile.spreadsheetId.substring(0, 20)}...</td>
+                  <td>
+                    {item.conflict ? (
+                      <select value={item.resolution} onChange={(e) => setResolution(index, e.target.value as ImportResolution)}>
+                        {(Object.keys(RESOLUTION_LABELS) as ImportResolution[]).map(resolution => (
+                          <option key={resolution} value={resolution}>{RESOLUTION_LABELS[resolution]}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      'New'
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {pending.some(item => item.conflict) && (
+            <p className="bundle-hint">Rows with a choice match a saved {itemLabel.replace(/s$/, '')} with the same name.</p>
+          )}
+          <div className="bundle-actions">
+            <button type="button" onClick={handleImport} className="bundle-submit">Import</button>
+            <button type="button" onClick={handleCancelImport} className="bundle-button">Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="bundle-error">{error}</div>}
+      {message && <div className="bundle-message">{message}</div>}
+    </div>
+  );
+}
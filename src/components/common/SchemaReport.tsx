@@ -0,0 +1,62 @@
+import { SchemaValidationReport } from '../../types';
+import './SchemaReport.css';
+
+export function SchemaReport({
+  report,
+  onClose,
+}: {
+  report: SchemaValidationReport;
+  onClose: () => void;
+}) {
+  const invalidTabs = report.tabs.filter(tab => !tab.isValid);
+  const { approved, feedback } = report.columnMapping;
+
+  return (
+    <div className={`schema-report ${invalidTabs.length > 0 ? 'has-issues' : 'all-valid'}`}>
+      <div className="schema-report-header">
+        <strong>
+          {invalidTabs.length > 0
+            ? `${invalidTabs.length} of ${report.tabs.length} tab(s) don't match the expected layout`
+            : `All ${report.tabs.length} tab(s) match the expected layout`}
+        </strong>
+        <button type="button" onClick={onClose} className="schema-report-close">
+          Close
+        </button>
+      </div>
+
+      {invalidTabs.map(tab => (
+        <div key={tab.tabName} className="schema-report-tab">
+          <div className="schema-report-tab-name">{tab.tabName || '(unnamed tab)'}</div>
+          <ul>
+            {!tab.validTabName && (
+              <li>Tab name is not a MM/DD/YYYY-MM/DD/YYYY date range, so it can't be matched to a week</li>
+            )}
+            {tab.headerMismatches.length > 0 && (
+              <li>
+                Unexpected headers:
+                <ul>
+                  {tab.headerMismatches.map(mismatch => (
+                    <li key={mismatch.column}>
+                      Column {mismatch.letter}: expected "{mismatch.expected}", found{' '}
+                      {mismatch.found ? `"${mismatch.found}"` : 'an empty cell'}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            )}
+            {tab.mergedRanges.length > 0 && (
+              <li>
+                Merged cells in Approved/Feedback (Columns {approved}/{feedback}): {tab.mergedRanges.join(', ')}
+              </li>
+            )}
+            {tab.protectedRanges.length > 0 && (
+              <li>
+                Protected ranges block writing Approved/Feedback (Columns {approved}/{feedback}): {tab.protectedRanges.join(', ')}
+              </li>
+            )}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,48 +1,83 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User, UserRole, StoredUser } from '../types';
+import { User, StoredUser } from '../types';
+import { getCurrentUser, logoutUser, signinUser, signupUser } from '../services/authApi';
+import { migrateStoredCredentials } from '../services/credentialsApi';
 
-const USERS_STORAGE_KEY = 'bidlinktracker_users';
-const CURRENT_USER_KEY = 'bidlinktracker_user';
+// Browser-only accounts from earlier versions; each is moved to the server on its first sign-in
+const LEGACY_USERS_STORAGE_KEY = 'bidlinktracker_users';
+const LEGACY_CURRENT_USER_KEY = 'bidlinktracker_user';
+
+// An invite link's token, or the server's setup token for its first admin
+type SignupTokens = { inviteToken?: string; setupToken?: string };
 
 interface AuthContextType {
   user: User | null;
-  signup: (fullName: string, email: string, password: string, role: UserRole) => Promise<{ success: boolean; error?: string }>;
+  signup: (fullName: string, email: string, password: string, tokens?: SignupTokens) => Promise<{ success: boolean; error?: string }>;
   signin: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
   logout: () => void;
   isAuthenticated: boolean;
+  isLoading: boolean; // True until the server session has been checked
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
 
-  // Load user from localStorage on mount
+  // Restore the session from the server's cookie on mount
   useEffect(() => {
-    const storedUser = localStorage.getItem(CURRENT_USER_KEY);
-    if (storedUser) {
-      try {
-        setUser(JSON.parse(storedUser));
-      } catch (error) {
-        console.error('Failed to parse stored user:', error);
-      }
-    }
+    localStorage.removeItem(LEGACY_CURRENT_USER_KEY);
+    getCurrentUser()
+      .then(async currentUser => {
+        if (currentUser) {
+          await startSession(currentUser);
+        }
+      })
+      .catch(error => console.error('Failed to restore session:', error))
+      .finally(() => setIsLoading(false));
   }, []);
 
-  const getStoredUsers = (): StoredUser[] => {
+  // Keys saved in the browser by earlier versions can only be uploaded to the credential vault
+  // once signed in; do it before any page reads them
+  const startSession = async (signedInUser: User) => {
+    await migrateStoredCredentials();
+    setUser(signedInUser);
+  };
+
+  const getLegacyUsers = (): StoredUser[] => {
     try {
-      const stored = localStorage.getItem(USERS_STORAGE_KEY);
+      const stored = localStorage.getItem(LEGACY_USERS_STORAGE_KEY);
       return stored ? JSON.parse(stored) : [];
     } catch {
       return [];
     }
   };
 
-  const saveStoredUsers = (users: StoredUser[]) => {
-    localStorage.setItem(USERS_STORAGE_KEY, JSON.stringify(users));
+  /**
+   * Creates the server account for a matching browser-only account and removes the local copy
+   * (which holds a plaintext password). Returns whether one was imported. The local role can't be
+   * trusted, so imported accounts are bidders until an admin changes their role.
+   */
+  const importLegacyUser = async (email: string, password: string): Promise<boolean> => {
+    const users = getLegacyUsers();
+    const legacyUser = users.find(u => u.email.toLowerCase() === email.toLowerCase().trim() && u.password === password);
+    if (!legacyUser) {
+      return false;
+    }
+
+    try {
+      await signupUser(legacyUser.fullName, legacyUser.email, password);
+    } catch (error) {
+      console.error('Error importing local account:', error);
+      return false;
+    }
+    localStorage.setItem(LEGACY_USERS_STORAGE_KEY, JSON.stringify(users.filter(u => u !== legacyUser)));
+    console.log(`[AuthContext] Moved local account ${legacyUser.email} to the server`);
+    return true;
   };
 
-  const signup = async (fullName: string, email: string, password: string, role: UserRole): Promise<{ success: boolean; error?: string }> => {
+  const signup = async (fullName: string, email: string, password: string, tokens?: SignupTokens): Promise<{ success: boolean; error?: string }> => {
     // Validate inputs
     if (!fullName.trim()) {
       return { success: false, error: 'Full name is required' };
@@ -57,25 +92,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       return { success: false, error: 'Password must be at least 6 characters' };
     }
 
-    // Check if user already exists
-    const users = getStoredUsers();
-    const existingUser = users.find(u => u.email.toLowerCase() === email.toLowerCase());
-    if (existingUser) {
-      return { success: false, error: 'An account with this email already exists' };
+    try {
+      await signupUser(fullName, email, password, tokens);
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
     }
 
-    // Create new user
-    const newUser: StoredUser = {
-      email: email.toLowerCase().trim(),
-      fullName: fullName.trim(),
-      password, // In production, this would be hashed
-      role,
-      createdAt: new Date().toISOString(),
-    };
-
-    users.push(newUser);
-    saveStoredUsers(users);
-
     // Don't automatically sign in - user should sign in manually
     return { success: true };
   };
@@ -89,34 +111,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       return { success: false, error: 'Password is required' };
     }
 
-    // Find user
-    const users = getStoredUsers();
-    const user = users.find(u => u.email.toLowerCase() === email.toLowerCase().trim());
-    
-    if (!user) {
-      return { success: false, error: 'Invalid email or password' };
-    }
-
-    // Check password (in production, this would compare hashed passwords)
-    if (user.password !== password) {
-      return { success: false, error: 'Invalid email or password' };
+    try {
+      let signedInUser: User;
+      try {
+        signedInUser = await signinUser(email, password);
+      } catch (error) {
+        if (!(await importLegacyUser(email, password))) {
+          throw error;
+        }
+        signedInUser = await signinUser(email, password);
+      }
+      await startSession(signedInUser);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
     }
-
-    // Sign in successful
-    const userToSet: User = {
-      email: user.email,
-      name: user.fullName,
-      role: user.role,
-    };
-    setUser(userToSet);
-    localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(userToSet));
-
-    return { success: true };
   };
 
   const logout = () => {
     setUser(null);
-    localStorage.removeItem(CURRENT_USER_KEY);
+    logoutUser().catch(error => console.error('Error signing out:', error));
   };
 
   return (
@@ -127,6 +141,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         signin,
         logout,
         isAuthenticated: !!user,
+        isLoading,
       }}
     >
       {children}
@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ConnectionTestResult, Profile } from '../types';
+import { testConnection } from '../services/sheetsApi';
+
+export type ConnectionHealth = ConnectionTestResult | { status: 'checking' };
+
+const HEALTH_UPDATED_EVENT = 'connectionHealthUpdated';
+
+// Latest result per connection, shared by every screen until the page is reloaded. Keyed by the
+// connection itself, so a profile whose key, spreadsheet or columns were edited shows as unchecked.
+const healthResults = new Map<string, ConnectionHealth>();
+
+const getConnectionKey = (profile: Profile) =>
+  JSON.stringify([profile.credentialId || null, profile.spreadsheetId, profile.columnMapping || null]);
+
+const setHealth = (key: string, health: ConnectionHealth) => {
+  healthResults.set(key, health);
+  window.dispatchEvent(new Event(HEALTH_UPDATED_EVENT));
+};
+
+/**
+ * Runs the testConnection action for a saved profile. Never throws: a check that couldn't
+ * run at all is reported as a failing result.
+ */
+async function runConnectionCheck(profile: Profile): Promise<ConnectionTestResult> {
+  const key = getConnectionKey(profile);
+  setHealth(key, { status: 'checking' });
+
+  let result: ConnectionTestResult;
+  try {
+    result = await testConnection({
+      credentialId: profile.credentialId,
+      spreadsheetId: profile.spreadsheetId,
+      columnMapping: profile.columnMapping,
+    });
+  } catch (err) {
+    result = { status: 'failing', checks: [], error: (err as Error).message, testedAt: new Date().toISOString() };
+  }
+  setHealth(key, result);
+  return result;
+}
+
+/**
+ * The profile's last result, or a new check if it hasn't been checked yet
+ */
+async function getOrCheckConnection(profile: Profile): Promise<ConnectionTestResult> {
+  const health = healthResults.get(getConnectionKey(profile));
+  return health && health.status !== 'checking' ? health : runConnectionCheck(profile);
+}
+
+/**
+ * Connection health of saved profiles (null until checked)
+ */
+export function useConnectionHealth() {
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    const rerender = () => setVersion(version => version + 1);
+    window.addEventListener(HEALTH_UPDATED_EVENT, rerender);
+    return () => window.removeEventListener(HEALTH_UPDATED_EVENT, rerender);
+  }, []);
+
+  const getHealth = useCallback((profile: Profile): ConnectionHealth | null => healthResults.get(getConnectionKey(profile)) || null, []);
+
+  return { getHealth, checkConnection: runConnectionCheck, getOrCheckConnection };
+}
@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { Profile } from '../types';
+import {
+  PROFILES_UPDATED_EVENT,
+  PROFILE_STORE_VERSION,
+  ImportResolution,
+  ProfileStoreData,
+  deleteProfile as deleteStoredProfile,
+  importProfiles as importStoredProfiles,
+  loadProfileStore,
+  saveProfile as saveStoredProfile,
+  selectProfile as selectStoredProfile,
+} from '../services/profileStore';
+
+const EMPTY_STORE: ProfileStoreData = { version: PROFILE_STORE_VERSION, profiles: [], activeProfileId: null };
+
+/**
+ * The signed-in user's saved profiles. Every screen using this hook re-renders when any of
+ * them (or another tab) changes the store, so they all agree on the active profile. Changes
+ * throw if a newer version of the app has written the store.
+ */
+export function useProfiles() {
+  const { user } = useAuth();
+  const [store, setStore] = useState<ProfileStoreData>(() => (user ? loadProfileStore(user) : EMPTY_STORE));
+
+  useEffect(() => {
+    if (!user) {
+      setStore(EMPTY_STORE);
+      return;
+    }
+
+    const reload = () => setStore(loadProfileStore(user));
+    reload();
+
+    // Changes made in another tab only show up as storage events
+    const handleStorageChange = (e: StorageEvent) => {
+      if (e.key?.startsWith('bidlinktracker_profiles_')) {
+        reload();
+      }
+    };
+
+    window.addEventListener(PROFILES_UPDATED_EVENT, reload);
+    window.addEventListener('storage', handleStorageChange);
+    return () => {
+      window.removeEventListener(PROFILES_UPDATED_EVENT, reload);
+      window.removeEventListener('storage', handleStorageChange);
+    };
+  }, [user]);
+
+  const saveProfile = useCallback((profile: Profile, activate = false) => {
+    if (user) saveStoredProfile(user, profile, activate);
+  }, [user]);
+
+  const deleteProfile = useCallback((profileId: string) => {
+    if (user) deleteStoredProfile(user, profileId);
+  }, [user]);
+
+  const selectProfile = useCallback((profileId: string) => {
+    if (user) selectStoredProfile(user, profileId);
+  }, [user]);
+
+  const importProfiles = useCallback((items: Array<{ profile: Profile; resolution: ImportResolution }>) => {
+    if (user) importStoredProfiles(user, items);
+  }, [user]);
+
+  return {
+    profiles: store.profiles,
+    activeProfile: store.profiles.find(p => p.id === store.activeProfileId) || null,
+    saveProfile,
+    deleteProfile,
+    selectProfile,
+    importProfiles,
+  };
+}
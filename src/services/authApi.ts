@@ -0,0 +1,70 @@
+/**
+ * Authentication service - accounts live on the server (/api/auth); the session is an
+ * HttpOnly cookie, so nothing about it is readable or editable from the browser
+ */
+
+import { User, UserInvite } from '../types';
+
+async function authCall<T>(action: string, body?: Record<string, unknown>): Promise<T> {
+  let response;
+  try {
+    response = await fetch(`/api/auth?action=${encodeURIComponent(action)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      body: JSON.stringify(body || {}),
+    });
+  } catch (networkError) {
+    console.error('Network error:', networkError);
+    throw new Error('Cannot connect to API server. Please make sure the API server is running. Run "npm run dev:all" to start both the frontend and API server.');
+  }
+
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return result.data as T;
+}
+
+/**
+ * Creates an account: a bidder, the invite's role when signing up with an invite token, or the
+ * first admin with the server's setup token
+ */
+export async function signupUser(
+  fullName: string,
+  email: string,
+  password: string,
+  tokens: { inviteToken?: string; setupToken?: string } = {}
+): Promise<User> {
+  return authCall('signup', { fullName, email, password, ...tokens });
+}
+
+/**
+ * Returns the pending invite for an invite link's token
+ */
+export async function getInvite(token: string): Promise<UserInvite> {
+  return authCall('invite', { token });
+}
+
+export async function signinUser(email: string, password: string): Promise<User> {
+  return authCall('signin', { email, password });
+}
+
+export async function logoutUser(): Promise<void> {
+  await authCall('logout');
+}
+
+/**
+ * Returns the signed-in user, or null when there is no valid session
+ */
+export async function getCurrentUser(): Promise<User | null> {
+  const response = await fetch('/api/auth?action=me', { credentials: 'same-origin' });
+  if (response.status === 401) {
+    return null;
+  }
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return result.data as User;
+}
@@ -0,0 +1,156 @@
+/**
+ * Credential vault service - service account keys are uploaded once to /api/credentials
+ * and referenced by their credential ID, so private keys never stay in browser storage
+ */
+
+import { CredentialSummary, Profile, ProfileBundleFile } from '../types';
+
+const ACCOUNTS_KEY = 'bidlinktracker_accounts';
+const PROFILE_CREDENTIALS_KEY_PREFIX = 'bidlinktracker_profile_credentials_';
+const LEGACY_SESSION_KEY = 'bidlinktracker_service_account';
+
+async function credentialsCall<T>(action: string, body: Record<string, unknown>): Promise<T> {
+  let response;
+  try {
+    response = await fetch(`/api/credentials?action=${encodeURIComponent(action)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch (networkError) {
+    console.error('Network error:', networkError);
+    throw new Error('Cannot connect to API server. Please make sure the API server is running. Run "npm run dev:all" to start both the frontend and API server.');
+  }
+
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return result.data as T;
+}
+
+/**
+ * Reads a service account JSON file and checks it looks like a key file
+ */
+export function readServiceAccountFile(file: File): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const text = e.target?.result as string;
+        const json = JSON.parse(text);
+
+        if (!json.type || json.type !== 'service_account') {
+          reject(new Error('Invalid service account key. The file must contain a service_account type.'));
+          return;
+        }
+
+        if (!json.client_email || !json.private_key) {
+          reject(new Error('Invalid service account key. Missing required fields.'));
+          return;
+        }
+
+        resolve(json);
+      } catch (err) {
+        reject(new Error('Failed to parse JSON file. Please ensure it is valid JSON.'));
+      }
+    };
+    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * Uploads a service account key to the server's credential vault
+ */
+export async function uploadCredentials(credentials: Record<string, unknown>): Promise<CredentialSummary> {
+  return credentialsCall('upload', { credentials });
+}
+
+/**
+ * Reads, validates and uploads a service account JSON file
+ */
+export async function uploadCredentialFile(file: File): Promise<CredentialSummary> {
+  return uploadCredentials(await readServiceAccountFile(file));
+}
+
+/**
+ * Returns the non-secret details of a stored credential
+ */
+export async function getCredentialSummary(credentialId: string): Promise<CredentialSummary> {
+  return credentialsCall('get', { credentialId });
+}
+
+/**
+ * Removes a credential from the vault. Failures are only logged: a leftover encrypted key
+ * is harmless, and deleting an account or profile shouldn't fail because of it.
+ */
+export async function deleteCredentials(credentialId: string | null | undefined): Promise<void> {
+  if (!credentialId) return;
+  try {
+    await credentialsCall('delete', { credentialId });
+  } catch (err) {
+    console.error(`Error deleting credential ${credentialId}:`, err);
+  }
+}
+
+/**
+ * Encrypts profiles and their service account keys into a bundle file (server-side).
+ * missingKeys lists profiles whose key is no longer in the vault and was left out.
+ */
+export async function exportProfileBundle(
+  profiles: Profile[],
+  password: string
+): Promise<{ bundle: ProfileBundleFile; missingKeys: string[] }> {
+  return credentialsCall('exportBundle', { profiles, password });
+}
+
+/**
+ * Opens a bundle file; its keys are stored in the vault and the returned profiles point at them
+ */
+export async function importProfileBundle(bundle: unknown, password: string): Promise<Profile[]> {
+  return credentialsCall('importBundle', { bundle, password });
+}
+
+/**
+ * Moves service account keys saved by earlier versions (raw JSON in localStorage on accounts
+ * and bidder profiles) into the credential vault and replaces them with credential IDs.
+ * Entries that fail to upload are left as they are and retried on the next load.
+ * Runs before the profile store migrates these entries (see profileStore).
+ */
+export async function migrateStoredCredentials(): Promise<void> {
+  sessionStorage.removeItem(LEGACY_SESSION_KEY);
+
+  try {
+    const stored = localStorage.getItem(ACCOUNTS_KEY);
+    const accounts: Array<Record<string, unknown>> = stored ? JSON.parse(stored) : [];
+    let changed = false;
+    for (const account of accounts) {
+      if (!account.credentials || account.credentialId) continue;
+      const credential = await uploadCredentials(account.credentials as Record<string, unknown>);
+      account.credentialId = credential.id;
+      account.clientEmail = credential.clientEmail;
+      delete account.credentials;
+      changed = true;
+    }
+    if (changed) {
+      localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+      console.log('[credentialsApi] Moved account credentials to the credential vault');
+    }
+  } catch (err) {
+    console.error('Error migrating account credentials:', err);
+  }
+
+  const profileKeys = Object.keys(localStorage).filter(key => key.startsWith(PROFILE_CREDENTIALS_KEY_PREFIX));
+  for (const key of profileKeys) {
+    try {
+      const stored = JSON.parse(localStorage.getItem(key) || 'null');
+      if (!stored?.private_key) continue;
+      const credential = await uploadCredentials(stored);
+      localStorage.setItem(key, JSON.stringify(credential));
+      console.log(`[credentialsApi] Moved ${key} to the credential vault`);
+    } catch (err) {
+      console.error(`Error migrating ${key}:`, err);
+    }
+  }
+}
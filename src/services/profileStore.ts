@@ -0,0 +1,338 @@
+/**
+ * Profile store - the spreadsheet connections a user saved in this browser. Bid Manager
+ * accounts and bidder profiles used to be stored in two different formats; both now live in
+ * one versioned document per user, and every screen reads it through the useProfiles hook.
+ */
+
+import { Profile, User } from '../types';
+import { deleteCredentials } from './credentialsApi';
+import { setActiveAssignedProfileId, setActiveColumnMapping, setActiveCredentialId, setActiveSpreadsheetId } from './sheetsApi';
+
+export const PROFILE_STORE_VERSION = 1;
+
+// Fired on window after every change, so all mounted screens reload the store
+export const PROFILES_UPDATED_EVENT = 'profilesUpdated';
+
+export interface ProfileStoreData {
+  version: number;
+  profiles: Profile[];
+  activeProfileId: string | null;
+}
+
+const PROFILE_STORE_KEY_PREFIX = 'bidlinktracker_profiles_';
+
+// Formats migrated into the store
+const LEGACY_ACCOUNTS_KEY = 'bidlinktracker_accounts';
+const LEGACY_ACTIVE_ACCOUNT_KEY = 'bidlinktracker_active_account';
+const LEGACY_BIDDER_DATA_KEY = 'bidlinktracker_bidder_data';
+const LEGACY_BIDDER_INFO_KEY = 'bidlinktracker_bidder_info';
+const LEGACY_PROFILE_CREDENTIALS_KEY_PREFIX = 'bidlinktracker_profile_credentials_';
+
+interface LegacyAccount {
+  id: string;
+  name: string;
+  bidderName: string;
+  fileName?: string;
+  spreadsheetId?: string;
+  credentialId?: string;
+  clientEmail?: string;
+  columnMapping?: Profile['columnMapping'];
+  createdAt?: string;
+}
+
+interface LegacyBidderData {
+  bidderName: string;
+  profiles: Array<{ id: string; profileName: string; sheetUri: string; columnMapping?: Profile['columnMapping'] }>;
+  activeProfileId: string | null;
+}
+
+interface LegacyBidderInfo {
+  bidderName: string;
+  profileName: string;
+  sheetUri: string;
+}
+
+/**
+ * Extracts the spreadsheet ID from a Google Sheets URL (anything else is taken as the ID itself)
+ */
+export function extractSpreadsheetId(uri: string): string {
+  try {
+    const url = new URL(uri.trim());
+    // https://docs.google.com/spreadsheets/d/{ID}/...
+    const match = url.pathname.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
+    if (match) {
+      return match[1];
+    }
+  } catch {
+    // Not a URL, assume it's already an ID
+  }
+  return uri.trim();
+}
+
+const getStoreKey = (user: User) => `${PROFILE_STORE_KEY_PREFIX}${user.email || user.name}`;
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : null;
+  } catch (err) {
+    console.error(`Error reading ${key}:`, err);
+    return null;
+  }
+};
+
+/**
+ * Builds the first version of a user's store from the formats saved by earlier versions:
+ * their bidder profiles (or the single-profile bidder info before that) and, for Bid Managers
+ * and admins, the accounts saved in this browser. Migrated keys are removed afterwards.
+ */
+function migrateLegacyData(user: User): ProfileStoreData {
+  const owner = user.email || user.name;
+  const profiles: Profile[] = [];
+  let activeProfileId: string | null = null;
+  const migratedKeys: string[] = [];
+  const now = new Date().toISOString();
+
+  if (user.role !== 'bidder') {
+    const accounts = readJson<LegacyAccount[]>(LEGACY_ACCOUNTS_KEY);
+    if (accounts) {
+      for (const account of accounts) {
+        profiles.push({
+          id: account.id,
+          name: account.name,
+          bidderName: account.bidderName || '',
+          spreadsheetId: account.spreadsheetId || '',
+          credentialId: account.credentialId,
+          clientEmail: account.clientEmail,
+          fileName: account.fileName,
+          columnMapping: account.columnMapping,
+          createdAt: account.createdAt || now,
+        });
+      }
+      activeProfileId = localStorage.getItem(LEGACY_ACTIVE_ACCOUNT_KEY);
+      migratedKeys.push(LEGACY_ACCOUNTS_KEY, LEGACY_ACTIVE_ACCOUNT_KEY);
+    }
+  }
+
+  const bidderData = readJson<LegacyBidderData>(`${LEGACY_BIDDER_DATA_KEY}_${owner}`);
+  const bidderInfo = bidderData ? null : readJson<LegacyBidderInfo>(`${LEGACY_BIDDER_INFO_KEY}_${owner}`);
+  const bidderProfiles = bidderData?.profiles
+    || (bidderInfo?.profileName && bidderInfo.sheetUri
+      ? [{ id: `profile_${Date.now()}`, profileName: bidderInfo.profileName, sheetUri: bidderInfo.sheetUri }]
+      : []);
+  const bidderName = bidderData?.bidderName || bidderInfo?.bidderName || '';
+
+  for (const legacy of bidderProfiles) {
+    const credentialKey = `${LEGACY_PROFILE_CREDENTIALS_KEY_PREFIX}${legacy.id}`;
+    const credential = readJson<{ id?: string; clientEmail?: string }>(credentialKey);
+    if (credential?.id) {
+      migratedKeys.push(credentialKey);
+    } else if (credential) {
+      // Still a raw key (the vault upload failed). It's kept so the upload is retried at the next
+      // sign-in, and the profile picks up the vaulted key on the load after that.
+      console.warn(`[profileStore] Profile "${legacy.profileName}" has no stored credential yet; its key will be uploaded again at the next sign-in`);
+    }
+    profiles.push({
+      id: legacy.id,
+      name: legacy.profileName,
+      bidderName,
+      spreadsheetId: extractSpreadsheetId(legacy.sheetUri),
+      credentialId: credential?.id,
+      clientEmail: credential?.clientEmail,
+      columnMapping: legacy.columnMapping,
+      createdAt: now,
+    });
+  }
+  if (bidderData) {
+    activeProfileId = activeProfileId || bidderData.activeProfileId;
+  }
+  migratedKeys.push(`${LEGACY_BIDDER_DATA_KEY}_${owner}`, `${LEGACY_BIDDER_INFO_KEY}_${owner}`);
+
+  const data: ProfileStoreData = {
+    version: PROFILE_STORE_VERSION,
+    profiles,
+    activeProfileId: profiles.some(p => p.id === activeProfileId) ? activeProfileId : profiles[0]?.id || null,
+  };
+  writeProfileStore(user, data);
+  migratedKeys.forEach(key => localStorage.removeItem(key));
+  if (profiles.length > 0) {
+    console.log(`[profileStore] Migrated ${profiles.length} saved account(s)/profile(s) for ${owner}`);
+  }
+  return data;
+}
+
+function writeProfileStore(user: User, data: ProfileStoreData): void {
+  localStorage.setItem(getStoreKey(user), JSON.stringify(data));
+}
+
+/**
+ * Gives migrated profiles whose key upload failed at migration the key uploaded since
+ * (migrateStoredCredentials retries it at every sign-in), and removes their legacy entries.
+ * Returns whether any profile changed.
+ */
+function adoptLegacyCredentials(data: ProfileStoreData): boolean {
+  let changed = false;
+  for (const [index, profile] of data.profiles.entries()) {
+    const credentialKey = `${LEGACY_PROFILE_CREDENTIALS_KEY_PREFIX}${profile.id}`;
+    const credential = readJson<{ id?: string; clientEmail?: string }>(credentialKey);
+    if (!credential) continue;
+    if (profile.credentialId) {
+      // A key was uploaded from the profile form since; the legacy one is no longer needed
+      localStorage.removeItem(credentialKey);
+    } else if (credential.id) {
+      data.profiles[index] = { ...profile, credentialId: credential.id, clientEmail: credential.clientEmail };
+      localStorage.removeItem(credentialKey);
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Loads a user's profiles, migrating earlier formats on first use
+ */
+export function loadProfileStore(user: User): ProfileStoreData {
+  const stored = readJson<ProfileStoreData>(getStoreKey(user));
+  if (!stored) {
+    return migrateLegacyData(user);
+  }
+  const data = { version: stored.version, profiles: stored.profiles || [], activeProfileId: stored.activeProfileId || null };
+  if (data.version !== PROFILE_STORE_VERSION) {
+    // Written by a newer version of the app; use what we can read, but never overwrite it here
+    console.warn(`[profileStore] Unknown profile store version ${data.version}`);
+  } else if (adoptLegacyCredentials(data)) {
+    writeProfileStore(user, data);
+  }
+  return data;
+}
+
+/**
+ * Loads the store to change it. A store written by a newer version of the app is refused
+ * rather than rewritten in this version's format, which could drop what that version added.
+ */
+function loadStoreForUpdate(user: User): ProfileStoreData {
+  const store = loadProfileStore(user);
+  if (store.version !== PROFILE_STORE_VERSION) {
+    throw new Error('Your saved profiles were changed by a newer version of BidLinkTracker. Reload the page before changing them.');
+  }
+  return store;
+}
+
+const commit = (user: User, data: ProfileStoreData): ProfileStoreData => {
+  writeProfileStore(user, data);
+  window.dispatchEvent(new Event(PROFILES_UPDATED_EVENT));
+  return data;
+};
+
+/**
+ * Makes a profile the connection every Sheets API call uses (null clears it)
+ */
+export function activateProfile(profile: Profile | null): void {
+  setActiveAssignedProfileId(null);
+  setActiveCredentialId(profile?.credentialId);
+  setActiveSpreadsheetId(profile?.spreadsheetId);
+  setActiveColumnMapping(profile?.columnMapping);
+}
+
+/**
+ * Adds or replaces a profile. The first profile, and any profile saved with activate,
+ * becomes the active one; editing the active profile refreshes the active connection.
+ */
+export function saveProfile(user: User, profile: Profile, activate = false): ProfileStoreData {
+  const store = loadStoreForUpdate(user);
+  const exists = store.profiles.some(p => p.id === profile.id);
+  const profiles = exists ? store.profiles.map(p => p.id === profile.id ? profile : p) : [...store.profiles, profile];
+  const activeProfileId = activate || !store.activeProfileId ? profile.id : store.activeProfileId;
+  if (activeProfileId === profile.id) {
+    activateProfile(profile);
+  }
+  return commit(user, { ...store, profiles, activeProfileId });
+}
+
+/**
+ * Removes a profile and its vaulted credential unless another profile uses the same key (the
+ * server also keeps keys an assigned profile uses); the next profile becomes active if it was
+ */
+export function deleteProfile(user: User, profileId: string): ProfileStoreData {
+  const store = loadStoreForUpdate(user);
+  const removed = store.profiles.find(p => p.id === profileId);
+  const profiles = store.profiles.filter(p => p.id !== profileId);
+  if (!profiles.some(p => p.credentialId === removed?.credentialId)) {
+    deleteCredentials(removed?.credentialId);
+  }
+
+  let activeProfileId = store.activeProfileId;
+  if (activeProfileId === profileId) {
+    activeProfileId = profiles[0]?.id || null;
+    activateProfile(profiles[0] || null);
+  }
+  return commit(user, { ...store, profiles, activeProfileId });
+}
+
+/**
+ * Switches the active profile and its connection
+ */
+export function selectProfile(user: User, profileId: string): ProfileStoreData {
+  const store = loadStoreForUpdate(user);
+  const profile = store.profiles.find(p => p.id === profileId);
+  if (!profile) {
+    return store;
+  }
+  activateProfile(profile);
+  return commit(user, { ...store, activeProfileId: profileId });
+}
+
+/**
+ * What to do with an imported profile that matches a saved one (same ID or name)
+ */
+export type ImportResolution = 'skip' | 'overwrite' | 'rename';
+
+export function findImportConflict(profiles: Profile[], imported: Profile): Profile | undefined {
+  const name = imported.name.trim().toLowerCase();
+  return profiles.find(p => p.id === imported.id || p.name.trim().toLowerCase() === name);
+}
+
+/**
+ * Adds imported profiles to the store. Overwriting keeps the saved profile's ID (so shared
+ * assignments still point at it); renaming adds a copy named "<name> (imported)". Credentials
+ * imported for skipped profiles, and keys replaced by overwrites, are deleted from the vault.
+ */
+export function importProfiles(
+  user: User,
+  items: Array<{ profile: Profile; resolution: ImportResolution }>
+): ProfileStoreData {
+  const store = loadStoreForUpdate(user);
+  const profiles = [...store.profiles];
+  const unusedCredentialIds: Array<string | undefined> = [];
+
+  items.forEach(({ profile, resolution }, index) => {
+    const conflict = findImportConflict(profiles, profile);
+    if (!conflict) {
+      profiles.push(profile);
+    } else if (resolution === 'skip') {
+      unusedCredentialIds.push(profile.credentialId);
+    } else if (resolution === 'overwrite') {
+      profiles[profiles.indexOf(conflict)] = { ...profile, id: conflict.id, createdAt: conflict.createdAt };
+      if (conflict.credentialId !== profile.credentialId) {
+        unusedCredentialIds.push(conflict.credentialId);
+      }
+    } else {
+      let name = `${profile.name} (imported)`;
+      for (let n = 2; findImportConflict(profiles, { ...profile, id: '', name }); n++) {
+        name = `${profile.name} (imported ${n})`;
+      }
+      profiles.push({ ...profile, id: `profile_${Date.now()}_${index}`, name });
+    }
+  });
+
+  // Bundles store a key shared by several profiles once, so only delete keys nothing uses now
+  unusedCredentialIds
+    .filter(credentialId => !profiles.some(p => p.credentialId === credentialId))
+    .forEach(credentialId => deleteCredentials(credentialId));
+  const activeProfile = profiles.find(p => p.id === store.activeProfileId) || profiles[0] || null;
+  if (activeProfile !== store.profiles.find(p => p.id === store.activeProfileId)) {
+    // First profile, or the active one was overwritten
+    activateProfile(activeProfile);
+  }
+  return commit(user, { ...store, profiles, activeProfileId: activeProfile?.id || null });
+}
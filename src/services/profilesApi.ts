@@ -0,0 +1,55 @@
+/**
+ * Assigned profiles service - Bid Managers share accounts with bidder users through /api/profiles
+ */
+
+import { AssignedProfile } from '../types';
+
+export interface BidderUser {
+  email: string;
+  name: string;
+}
+
+async function profilesCall<T>(action: string, body: Record<string, unknown> = {}): Promise<T> {
+  let response;
+  try {
+    response = await fetch(`/api/profiles?action=${encodeURIComponent(action)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch (networkError) {
+    console.error('Network error:', networkError);
+    throw new Error('Cannot connect to API server. Please make sure the API server is running. Run "npm run dev:all" to start both the frontend and API server.');
+  }
+
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return result.data as T;
+}
+
+/**
+ * Bid Managers get every shared profile; bidders only the ones assigned to them
+ */
+export async function listAssignedProfiles(): Promise<AssignedProfile[]> {
+  return profilesCall('list');
+}
+
+/**
+ * Shares an account with bidders, or updates its shared copy (one profile per account)
+ */
+export async function saveAssignedProfile(profile: Omit<AssignedProfile, 'id' | 'createdBy' | 'updatedAt'>): Promise<AssignedProfile> {
+  return profilesCall('save', { ...profile });
+}
+
+export async function deleteAssignedProfile(accountId: string): Promise<void> {
+  await profilesCall('delete', { accountId });
+}
+
+/**
+ * Active bidder users that profiles can be assigned to
+ */
+export async function listBidders(): Promise<BidderUser[]> {
+  return profilesCall('bidders');
+}
@@ -3,12 +3,103 @@
  * All functions call the /api/sheets endpoint with different actions
  */
 
+import { AddedJobRow, ColumnMapping, ConnectionTestResult, FeedbackPreviewRow, JobColumn, NewJobEntry, SchemaValidationReport, UrlLookupResponse, UrlLookupResult } from '../types';
+import { resolveColumnMapping, getCellValue } from '../utils/columnSchema';
+
+const COLUMN_MAPPING_KEY = 'bidlinktracker_column_mapping';
+const CREDENTIAL_ID_KEY = 'bidlinktracker_credential_id';
+const ASSIGNED_PROFILE_ID_KEY = 'bidlinktracker_assigned_profile_id';
+const SPREADSHEET_KEY = 'bidlinktracker_spreadsheet_id';
+
+/**
+ * Explicit spreadsheet connection, used instead of the active account in sessionStorage
+ * (e.g. to detect the columns of an account that is still being added)
+ */
+export interface SheetConnection {
+  credentialId?: string; // Service account key stored in the server's credential vault
+  profileId?: string; // Assigned profile; the server supplies its credential and spreadsheet
+  spreadsheetId: string;
+  columnMapping?: Partial<ColumnMapping>;
+}
+
+/**
+ * Stores the active account's credential ID so every API call uses its service account
+ * (pass undefined to fall back to the server's default credentials)
+ */
+export function setActiveCredentialId(credentialId?: string | null) {
+  if (credentialId) {
+    sessionStorage.setItem(CREDENTIAL_ID_KEY, credentialId);
+    sessionStorage.removeItem(ASSIGNED_PROFILE_ID_KEY);
+  } else {
+    sessionStorage.removeItem(CREDENTIAL_ID_KEY);
+  }
+}
+
+/**
+ * Returns the active account's credential ID, if any
+ */
+export function getActiveCredentialId(): string | null {
+  return sessionStorage.getItem(CREDENTIAL_ID_KEY);
+}
+
+/**
+ * Makes a profile assigned by a Bid Manager the active connection (replacing any active
+ * credential ID); its spreadsheet ID and column mapping are set separately as usual
+ */
+export function setActiveAssignedProfileId(profileId?: string | null) {
+  if (profileId) {
+    sessionStorage.setItem(ASSIGNED_PROFILE_ID_KEY, profileId);
+    sessionStorage.removeItem(CREDENTIAL_ID_KEY);
+  } else {
+    sessionStorage.removeItem(ASSIGNED_PROFILE_ID_KEY);
+  }
+}
+
+export function getActiveAssignedProfileId(): string | null {
+  return sessionStorage.getItem(ASSIGNED_PROFILE_ID_KEY);
+}
+
+/**
+ * Stores the spreadsheet every API call reads and writes (pass undefined to clear it)
+ */
+export function setActiveSpreadsheetId(spreadsheetId?: string | null) {
+  if (spreadsheetId) {
+    sessionStorage.setItem(SPREADSHEET_KEY, spreadsheetId);
+  } else {
+    sessionStorage.removeItem(SPREADSHEET_KEY);
+  }
+}
+
+/**
+ * Stores the active account's column mapping so every API call uses it
+ * (pass undefined to fall back to the default A–J layout)
+ */
+export function setActiveColumnMapping(mapping?: Partial<ColumnMapping> | null) {
+  if (mapping) {
+    sessionStorage.setItem(COLUMN_MAPPING_KEY, JSON.stringify(mapping));
+  } else {
+    sessionStorage.removeItem(COLUMN_MAPPING_KEY);
+  }
+}
+
+/**
+ * Returns the active column mapping with defaults filled in
+ */
+export function getActiveColumnMapping(): ColumnMapping {
+  try {
+    const stored = sessionStorage.getItem(COLUMN_MAPPING_KEY);
+    return resolveColumnMapping(stored ? JSON.parse(stored) : null);
+  } catch {
+    return resolveColumnMapping(null);
+  }
+}
+
 // API base URL - in production uses same domain, in dev uses Vite proxy
 const API_BASE = import.meta.env.PROD 
   ? '' // In production, use relative path (same domain)
   : ''; // In dev, use relative path (Vite proxy handles it)
 
-async function apiCall(action: string, body?: any) {
+async function apiCall(action: string, body?: Record<string, unknown>, connection?: SheetConnection) {
   if (!action) {
     throw new Error('API action is required');
   }
@@ -16,27 +107,16 @@ async function apiCall(action: string, body?: any) {
   const url = `${API_BASE}/api/sheets?action=${encodeURIComponent(action)}`;
   console.log('[sheetsApi] Making API call:', { action, url, hasBody: !!body });
   
-  // Get uploaded credentials and spreadsheet ID from sessionStorage if available
-  const STORAGE_KEY = 'bidlinktracker_service_account';
-  const SPREADSHEET_KEY = 'bidlinktracker_spreadsheet_id';
-  const credentials = sessionStorage.getItem(STORAGE_KEY);
-  const spreadsheetId = sessionStorage.getItem(SPREADSHEET_KEY);
+  // Get the stored credential ID and spreadsheet ID from sessionStorage if available
+  const credentialId = connection ? connection.credentialId : getActiveCredentialId();
+  const profileId = connection ? connection.profileId : getActiveAssignedProfileId();
+  const spreadsheetId = connection ? connection.spreadsheetId : sessionStorage.getItem(SPREADSHEET_KEY);
+  const columnMapping = connection ? connection.columnMapping : sessionStorage.getItem(COLUMN_MAPPING_KEY);
   
   // Log for debugging
-  if (!credentials) {
-    console.warn('[sheetsApi] ⚠️ No credentials found in sessionStorage');
+  if (!credentialId && !profileId) {
+    console.warn('[sheetsApi] ⚠️ No credential ID found in sessionStorage');
     console.warn('[sheetsApi] This means the API will try to use environment variables (VITE_GOOGLE_SERVICE_ACCOUNT_KEY)');
-  } else {
-    try {
-      const creds = JSON.parse(credentials);
-      console.log('[sheetsApi] ✓ Credentials found:', {
-        hasClientEmail: !!creds.client_email,
-        clientEmail: creds.client_email?.substring(0, 20) + '...',
-        hasPrivateKey: !!creds.private_key,
-      });
-    } catch (e) {
-      console.error('[sheetsApi] ✗ Credentials found but invalid JSON');
-    }
   }
   if (!spreadsheetId) {
     console.warn('[sheetsApi] ⚠️ No spreadsheet ID found in sessionStorage');
@@ -44,22 +124,25 @@ async function apiCall(action: string, body?: any) {
     console.log('[sheetsApi] ✓ Spreadsheet ID:', spreadsheetId);
   }
   
-  const requestBody = body || {};
-  if (credentials) {
-    try {
-      requestBody.credentials = JSON.parse(credentials);
-    } catch (error) {
-      console.error('Failed to parse stored credentials:', error);
-      throw new Error('Invalid credentials format. Please re-upload your service account key.');
-    }
+  const requestBody: Record<string, unknown> = body || {};
+  if (credentialId) {
+    requestBody.credentialId = credentialId;
+  }
+  if (profileId) {
+    requestBody.profileId = profileId;
   }
-  // If no credentials in sessionStorage, backend will use environment variables
+  // Without a credential ID, backend will use environment variables
   
   if (spreadsheetId) {
     requestBody.spreadsheetId = spreadsheetId;
   } else {
     throw new Error('No spreadsheet ID found. Please provide a spreadsheet ID.');
   }
+
+  // Custom column layout for this spreadsheet (backend defaults to A–J without it)
+  if (columnMapping) {
+    requestBody.columnMapping = typeof columnMapping === 'string' ? JSON.parse(columnMapping) : columnMapping;
+  }
   
   let response;
   try {
@@ -70,9 +153,10 @@ async function apiCall(action: string, body?: any) {
       },
       body: JSON.stringify(requestBody),
     });
-  } catch (networkError: any) {
+  } catch (networkError) {
     console.error('Network error:', networkError);
-    if (networkError.message?.includes('Failed to fetch') || networkError.message?.includes('NetworkError')) {
+    const message = (networkError as Error).message;
+    if (message?.includes('Failed to fetch') || message?.includes('NetworkError')) {
       throw new Error('Cannot connect to API server. Please make sure the API server is running. Run "npm run dev:all" to start both the frontend and API server.');
     }
     throw networkError;
@@ -84,12 +168,14 @@ async function apiCall(action: string, body?: any) {
   if (response.status === 207 && result.partial) {
     const errorMsg = result.error || 
       `Some cells are protected. ${result.successful} of ${result.successful + result.failed} entries were updated.`;
-    const error = new Error(errorMsg);
-    (error as any).partial = true;
-    (error as any).successful = result.successful;
-    (error as any).failed = result.failed;
-    (error as any).failedDetails = result.failedDetails;
-    throw error;
+    // batchId undoes the cells that were written
+    throw Object.assign(new Error(errorMsg), {
+      partial: true,
+      successful: result.successful,
+      failed: result.failed,
+      failedDetails: result.failedDetails,
+      batchId: result.data?.batchId,
+    });
   }
   
   if (!response.ok) {
@@ -103,7 +189,7 @@ async function apiCall(action: string, body?: any) {
       statusText: response.statusText,
       errorData,
       url,
-      hasCredentials: !!credentials,
+      hasCredentialId: !!credentialId,
       hasSpreadsheetId: !!spreadsheetId,
     });
     throw new Error(errorMessage);
@@ -119,25 +205,25 @@ async function apiCall(action: string, body?: any) {
 /**
  * Get all tabs (sheets) in the spreadsheet
  */
-export async function getAllTabs(): Promise<string[]> {
-  return apiCall('getAllTabs');
+export async function getAllTabs(connection?: SheetConnection): Promise<string[]> {
+  return apiCall('getAllTabs', undefined, connection);
 }
 
 /**
  * Get all data from a specific tab
  */
-export async function getTabData(tabName: string): Promise<any[][]> {
+export async function getTabData(tabName: string): Promise<unknown[][]> {
   return apiCall('getTabData', { tabName });
 }
 
 /**
- * Get all job URLs from Column F and Column G across all tabs
+ * Get all job URLs from the Job Url and Applied Url columns (F and G by default) across all tabs
  * Returns array with url, tabName, rowIndex, position, date, no, companyName, and sourceColumn
  */
-export async function getAllJobUrls(): Promise<
-  Array<{ url: string; tabName: string; rowIndex: number; position: string; date?: string; no?: string; companyName?: string; sourceColumn: 'F' | 'G' }>
+export async function getAllJobUrls(connection?: SheetConnection, tabNames?: string[]): Promise<
+  Array<{ url: string; tabName: string; rowIndex: number; position: string; date?: string; no?: string; companyName?: string; approved?: boolean; bonus?: string; sourceColumn: 'F' | 'G' }>
 > {
-  return apiCall('getAllJobUrls');
+  return apiCall('getAllJobUrls', tabNames ? { tabNames } : undefined, connection);
 }
 
 /**
@@ -155,7 +241,30 @@ export async function getJobUrlsFromTabs(tabNames: string[]): Promise<
 }
 
 /**
- * Update feedback in Column I for a specific row
+ * Checks many URLs for duplicates in one request, answered from the server's URL index.
+ * Limit the check with tabNames, or lastTabs for the last N tabs in sheet order.
+ */
+export async function lookupUrls(
+  urls: string[],
+  options: { tabNames?: string[]; lastTabs?: number; refresh?: boolean } = {},
+  connection?: SheetConnection
+): Promise<UrlLookupResponse> {
+  return apiCall('lookupUrls', { urls, ...options }, connection);
+}
+
+/**
+ * Checks a single URL for duplicates against the server's URL index
+ */
+export async function isDuplicateUrl(
+  url: string,
+  options: { tabNames?: string[]; lastTabs?: number } = {},
+  connection?: SheetConnection
+): Promise<UrlLookupResult> {
+  return apiCall('isDuplicate', { url, ...options }, connection);
+}
+
+/**
+ * Update feedback in the Feedback column (Column I by default) for a specific row
  */
 export async function updateFeedback(
   tabName: string,
@@ -169,24 +278,60 @@ export async function updateFeedback(
 
 /**
  * Batch update feedback for multiple rows
- * Also clears Column H (Approved) for duplicate entries
+ * Also clears the Approved column (Column H by default) for duplicate entries
  * Will skip updates if existing feedback contains "- Job Url" and new feedback is "- Applied Url"
+ * Returns the batch ID that undoes the update (undefined if nothing was written), or why the
+ * update can't be undone when the server couldn't record it
  */
 export async function batchUpdateFeedback(
-  updates: Array<{ tabName: string; rowIndex: number; feedback: string; sourceColumn?: 'F' | 'G' }>
-): Promise<void> {
-  await apiCall('batchUpdateFeedback', { updates });
+  updates: Array<{ tabName: string; rowIndex: number; feedback: string; sourceColumn?: 'F' | 'G' }>,
+  connection?: SheetConnection
+): Promise<{ batchId?: string; undoWarning?: string }> {
+  const result = await apiCall('batchUpdateFeedback', { updates }, connection);
+  return { batchId: result?.batchId, undoWarning: result?.undoWarning };
+}
+
+/**
+ * Preview a batchUpdateFeedback call without writing: the current Approved/Feedback values of each
+ * row (in the order of updates) and which rows would be skipped
+ */
+export async function previewFeedbackUpdates(
+  updates: Array<{ tabName: string; rowIndex: number; feedback: string; sourceColumn?: 'F' | 'G' }>,
+  connection?: SheetConnection
+): Promise<FeedbackPreviewRow[]> {
+  return apiCall('batchUpdateFeedback', { updates, dryRun: true }, connection);
+}
+
+/**
+ * Restore the Approved/Feedback values a feedback batch overwrote. Cells edited since then
+ * are left as they are and listed in changed.
+ */
+export async function undoFeedbackBatch(
+  batchId: string,
+  connection?: SheetConnection
+): Promise<{ restored: number; changed: string[] }> {
+  return apiCall('undoFeedbackBatch', { batchId }, connection);
+}
+
+/**
+ * Write duplicate feedback to the original rows of links found in the URL index. Unlike
+ * batchUpdateFeedback (bid managers only), the server picks the rows and the feedback text,
+ * so bidders can use it.
+ */
+export async function markDuplicates(urls: string[], tabNames?: string[], connection?: SheetConnection): Promise<void> {
+  await apiCall('markDuplicates', { urls, tabNames }, connection);
 }
 
 /**
- * Find the next empty row in a tab (checking Column A)
+ * Find the next empty row in a tab (checking the Date column, Column A by default)
  */
 export async function findEmptyRow(tabName: string): Promise<number> {
   const data = await getTabData(tabName);
+  const columnMapping = getActiveColumnMapping();
   
-  // Find first empty row in Column A (index 0)
+  // Find first row with an empty Date column
   for (let i = 1; i < data.length; i++) {
-    if (!data[i] || !data[i][0] || !data[i][0].trim()) {
+    if (!getCellValue(data[i], columnMapping, 'date')) {
       return i + 1; // 1-based row index
     }
   }
@@ -196,7 +341,7 @@ export async function findEmptyRow(tabName: string): Promise<number> {
 }
 
 /**
- * Add a job entry to a tab (write to Column A and Column F)
+ * Add a job entry to a tab (write to the Date and Job Url columns)
  */
 export async function addJobEntry(
   tabName: string,
@@ -207,11 +352,49 @@ export async function addJobEntry(
 }
 
 /**
- * Batch add job entries to a tab
+ * Batch add job entries to a tab in a single write, appended after the last filled row
+ * Each entry gets the next No. in the tab; returns the rows they landed in.
+ * Job Site, Company Name and Position are written when given, and details go to whichever
+ * detail columns (Salary, Seniority, ...) the mapping sets.
  */
 export async function batchAddJobEntries(
   tabName: string,
-  entries: Array<{ date: string; jobUrl: string }>
-): Promise<void> {
-  await apiCall('batchAddJobEntries', { tabName, entries });
+  entries: NewJobEntry[]
+): Promise<{ tabName: string; rows: AddedJobRow[] }> {
+  return apiCall('batchAddJobEntries', { tabName, entries });
+}
+
+/**
+ * Get the tab covering a date (MM/DD/YYYY), creating the week's tab if it doesn't exist yet.
+ * New tabs copy the header row, formatting and checkboxes of the most recent tab.
+ */
+export async function ensureTabForDate(
+  date: string
+): Promise<{ tabName: string; created: boolean; templateTab?: string }> {
+  return apiCall('ensureTabForDate', { date });
+}
+
+/**
+ * Propose a column mapping by matching the header row of a tab (the most recent tab if omitted)
+ * against known names like "Job Url" or "Feedback"
+ */
+export async function detectColumnMapping(
+  tabName?: string,
+  connection?: SheetConnection
+): Promise<{ tabName: string; headers: string[]; mapping: ColumnMapping; matched: JobColumn[]; missing: JobColumn[] }> {
+  return apiCall('detectColumnMapping', { tabName }, connection);
+}
+
+/**
+ * Check every tab's name, header row and Approved/Feedback columns against the expected layout
+ */
+export async function validateSchema(connection?: SheetConnection): Promise<SchemaValidationReport> {
+  return apiCall('validateSchema', {}, connection);
+}
+
+/**
+ * Check that the connection's key signs in, can open and edit the spreadsheet, and that its tabs are date ranges
+ */
+export async function testConnection(connection?: SheetConnection): Promise<ConnectionTestResult> {
+  return apiCall('testConnection', {}, connection);
 }
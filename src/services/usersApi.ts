@@ -0,0 +1,57 @@
+/**
+ * User management service for admins (/api/users)
+ */
+
+import { ManagedUser, UserInvite, UserRole } from '../types';
+
+async function usersCall<T>(action: string, body: Record<string, unknown> = {}): Promise<T> {
+  let response;
+  try {
+    response = await fetch(`/api/users?action=${encodeURIComponent(action)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch (networkError) {
+    console.error('Network error:', networkError);
+    throw new Error('Cannot connect to API server. Please make sure the API server is running. Run "npm run dev:all" to start both the frontend and API server.');
+  }
+
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return result.data as T;
+}
+
+export async function listUsers(): Promise<{ users: ManagedUser[]; invites: UserInvite[] }> {
+  return usersCall('list');
+}
+
+/**
+ * Invites an email with a pre-assigned role; returns the one-time signup link
+ */
+export async function inviteUser(email: string, role: UserRole): Promise<{ invite: UserInvite; link: string }> {
+  const { invite, token } = await usersCall<{ invite: UserInvite; token: string }>('invite', { email, role });
+  return { invite, link: `${window.location.origin}/login?invite=${encodeURIComponent(token)}` };
+}
+
+export async function revokeInvite(email: string): Promise<void> {
+  await usersCall('revokeInvite', { email });
+}
+
+export async function setUserRole(email: string, role: UserRole): Promise<ManagedUser> {
+  return usersCall('setRole', { email, role });
+}
+
+export async function setUserActive(email: string, active: boolean): Promise<ManagedUser> {
+  return usersCall('setActive', { email, active });
+}
+
+/**
+ * Replaces the user's password with a temporary one and signs them out everywhere
+ */
+export async function resetUserPassword(email: string): Promise<string> {
+  const { temporaryPassword } = await usersCall<{ temporaryPassword: string }>('resetPassword', { email });
+  return temporaryPassword;
+}
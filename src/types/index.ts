@@ -1,4 +1,4 @@
-export type UserRole = 'bid-manager' | 'bidder';
+export type UserRole = 'admin' | 'bid-manager' | 'bidder';
 
 export interface User {
   role: UserRole;
@@ -6,10 +6,30 @@ export interface User {
   email: string;
 }
 
+/**
+ * User as listed on the admin's user-management screen
+ */
+export interface ManagedUser extends User {
+  active: boolean;
+  createdAt: string;
+}
+
+/**
+ * Pending invite: signing up with its one-time link creates the account with the pre-assigned role
+ */
+export interface UserInvite {
+  email: string;
+  role: UserRole;
+  invitedBy: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// Browser-only account saved by earlier versions (accounts now live on the server)
 export interface StoredUser {
   email: string;
   fullName: string;
-  password: string; // In production, this would be hashed
+  password: string; // Plaintext; removed once the account is moved to the server
   role: UserRole;
   createdAt: string;
 }
@@ -27,16 +47,255 @@ export interface JobEntry {
   bonus: string;
 }
 
+/**
+ * A field of JobEntry that lives in its own spreadsheet column
+ */
+export type JobColumn = keyof JobEntry;
+
+/**
+ * Job posting details the analyzer can write into spare columns when new links are added
+ */
+export type JobDetailColumn = 'salary' | 'workplaceType' | 'employmentType' | 'seniority';
+
+/**
+ * Column letter for every JobEntry field, stored per spreadsheet with the account/profile.
+ * Defaults to the A–J layout (see DEFAULT_COLUMN_MAPPING). Job detail columns are only
+ * written when mapped.
+ */
+export type ColumnMapping = Record<JobColumn, string> & Partial<Record<JobDetailColumn, string>>;
+
 export interface DuplicateInfo {
   url: string;
   tabName: string;
   rowIndex: number;
   position: string;
-  date?: string; // Column A
-  no?: string; // Column B
-  companyName?: string; // Column D
+  date?: string; // Date column (A by default)
+  no?: string; // No. column (B by default)
+  companyName?: string; // Company Name column (D by default)
+  approved?: boolean; // Approved column (H by default) is checked
+  bonus?: string; // Bonus column (J by default)
   isDuplicate: boolean;
-  sourceColumn?: 'F' | 'G'; // Column F (Job Url) or Column G (Applied Url)
+  sourceColumn?: 'F' | 'G'; // 'F' = Job Url field, 'G' = Applied Url field (named after the default layout, even if the mapping moves them)
+  accountId?: string; // Set when checking across accounts
+  accountName?: string;
+  bidderName?: string;
+}
+
+/**
+ * A URL read from a sheet row, before duplicate detection
+ */
+export type JobUrlRecord = Omit<DuplicateInfo, 'isDuplicate'>;
+
+/**
+ * Which row of a duplicate URL group is kept as the original; the others are marked
+ */
+export type OriginalEntryPolicy =
+  | { type: 'earliest' }
+  | { type: 'approved-first' } // Rows with Approved checked or a Bonus first
+  | { type: 'bidder-first'; bidderName: string }; // Rows of this bidder's accounts first
+
+/**
+ * Non-secret details of a service account key stored in the server's credential vault
+ */
+export interface CredentialSummary {
+  id: string; // Opaque credential ID that accounts and profiles reference instead of the key itself
+  clientEmail: string; // The spreadsheet must be shared with this address
+  projectId?: string;
+  createdAt: string;
+}
+
+/**
+ * A spreadsheet connection saved in the browser: a Bid Manager's account or a bidder's own
+ * profile (both were stored separately before the profile store)
+ */
+export interface Profile {
+  id: string;
+  name: string;
+  bidderName: string;
+  spreadsheetId: string; // '' for accounts saved before spreadsheet IDs were required
+  credentialId?: string; // Service account key stored in the server's credential vault
+  clientEmail?: string; // Service account the spreadsheet must be shared with
+  fileName?: string; // Name of the uploaded key file
+  columnMapping?: Partial<ColumnMapping>; // Custom column layout (defaults to A–J)
+  createdAt: string;
+}
+
+/**
+ * Export file holding profiles and their service account keys, encrypted with a password
+ * chosen at export (AES-256-GCM with an scrypt-derived key). Only the server opens it, so
+ * keys go from vault to vault without passing through the browser in plain text.
+ */
+export interface ProfileBundleFile {
+  format: 'bidlinktracker-profiles';
+  version: number;
+  createdAt: string;
+  profileCount: number;
+  salt: string;
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+/**
+ * A Bid Manager's account shared with bidder users. Bidders select it by ID and the server
+ * supplies its credential, so they never handle the service account key.
+ */
+export interface AssignedProfile {
+  id: string;
+  accountId: string; // Bid Manager's account the profile was shared from
+  profileName: string;
+  spreadsheetId: string;
+  credentialId?: string; // Only returned to Bid Managers and admins
+  clientEmail?: string;
+  columnMapping?: Partial<ColumnMapping>;
+  assignedTo: string[]; // Bidder emails (empty in the bidders' own view)
+  createdBy: string;
+  updatedAt: string;
+}
+
+/**
+ * Answer from the server's URL index for one URL (lookupUrls / isDuplicate actions)
+ */
+export interface UrlLookupResult {
+  url: string;
+  isDuplicate: boolean;
+  matches: JobUrlRecord[]; // Rows with the same normalized URL, earliest tab first
+}
+
+export interface UrlLookupResponse {
+  results: UrlLookupResult[];
+  tabNames: string[]; // Tabs the lookup covered
+  indexedUrlCount: number; // URLs indexed in those tabs (0 usually means a column mapping problem)
+  refreshedTabs: string[]; // Tabs re-read because they changed since the last lookup
+}
+
+/**
+ * A row written by batchAddJobEntries
+ */
+/**
+ * A link appended by batchAddJobEntries. Job Site, Company Name, Position and the details
+ * (for mapped detail columns) are written when given.
+ */
+export interface NewJobEntry {
+  date: string;
+  jobUrl: string;
+  jobSite?: string;
+  companyName?: string;
+  position?: string;
+  details?: Partial<Record<JobDetailColumn, string>>;
+}
+
+export interface AddedJobRow {
+  rowIndex: number;
+  no: number; // Assigned No. (previous highest No. in the tab + 1)
+  date: string;
+  jobUrl: string;
+}
+
+/**
+ * A mapped column whose header cell doesn't match any known name for it
+ */
+export interface HeaderMismatch {
+  column: JobColumn;
+  letter: string;
+  expected: string; // Default header label, e.g. "Job Url"
+  found: string; // Actual header cell ('' when empty)
+}
+
+/**
+ * Structural problems found in one tab by the validateSchema action
+ */
+export interface TabSchemaReport {
+  tabName: string;
+  validTabName: boolean; // Tab name parses as a MM/DD/YYYY-MM/DD/YYYY range
+  headerMismatches: HeaderMismatch[];
+  mergedRanges: string[]; // A1 ranges of merged cells overlapping the Approved/Feedback columns
+  protectedRanges: string[]; // A1 ranges of protections that block writes to the Approved/Feedback columns
+  isValid: boolean;
+}
+
+export interface SchemaValidationReport {
+  tabs: TabSchemaReport[];
+  invalidCount: number;
+  columnMapping: ColumnMapping;
+}
+
+/**
+ * One row of a duplicate-marking preview (batchUpdateFeedback with dryRun): its current
+ * Approved/Feedback values and the feedback that would replace them (Approved becomes FALSE)
+ */
+export interface FeedbackPreviewRow {
+  tabName: string;
+  rowIndex: number;
+  currentApproved: string;
+  currentFeedback: string;
+  feedback: string;
+  skipReason?: string; // Set when the row would be left unchanged
+}
+
+export type ConnectionCheckId = 'auth' | 'access' | 'edit' | 'tabs';
+
+/**
+ * One step of the testConnection action ('skipped' when an earlier step failed)
+ */
+export interface ConnectionCheck {
+  id: ConnectionCheckId;
+  label: string;
+  status: 'pass' | 'warn' | 'fail' | 'skipped';
+  message: string;
+}
+
+/**
+ * Health of an account's connection: failing if any check failed, warning if any only warned
+ */
+export interface ConnectionTestResult {
+  status: 'healthy' | 'warning' | 'failing';
+  clientEmail?: string;
+  checks: ConnectionCheck[];
+  error?: string; // Set when the checks couldn't run at all (e.g. the key is no longer stored)
+  testedAt: string;
+}
+
+/**
+ * "Same company, similar position within N days" duplicate rule set by the Bid Manager
+ */
+export interface CompanyPositionRule {
+  enabled: boolean;
+  withinDays: number;
+  minSimilarity: number; // Token overlap (Jaccard) between positions, 0–1
+}
+
+export type WorkplaceType = 'remote' | 'hybrid' | 'on-site';
+
+export type SeniorityLevel = 'intern' | 'junior' | 'mid' | 'senior' | 'lead' | 'principal' | 'manager' | 'director' | 'executive';
+
+/**
+ * Pay range of a posting; min and max are equal when a single amount is given
+ */
+export interface JobSalary {
+  min?: number;
+  max?: number;
+  currency?: string; // ISO 4217, e.g. "USD"
+  period?: 'hour' | 'day' | 'week' | 'month' | 'year';
+}
+
+/**
+ * Job posting details read by the job analyzer (api/analyze-job)
+ */
+export interface JobInfo {
+  title?: string;
+  company?: string;
+  location?: string; // Several locations are joined with " / "
+  description?: string; // Plain text
+  employmentType?: string; // e.g. "Full-time", "Contract"
+  workplaceType?: WorkplaceType;
+  seniority?: SeniorityLevel;
+  salary?: JobSalary;
+  postedDate?: string; // YYYY-MM-DD
+  validThrough?: string; // YYYY-MM-DD, when the posting closes
+  source?: string; // Applicant tracking system the details were read from, e.g. "Greenhouse"
+  url: string;
+  normalizedContent?: string; // For duplicate comparison
 }
 
 export interface TabInfo {
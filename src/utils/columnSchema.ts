@@ -0,0 +1,244 @@
+import { ColumnMapping, JobColumn, JobDetailColumn } from '../types';
+
+/**
+ * Default sheet layout (Columns A–J) used when a spreadsheet has no custom mapping
+ */
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = {
+  date: 'A',
+  no: 'B',
+  jobSite: 'C',
+  companyName: 'D',
+  position: 'E',
+  jobUrl: 'F',
+  appliedUrl: 'G',
+  approved: 'H',
+  feedback: 'I',
+  bonus: 'J',
+};
+
+export const JOB_COLUMNS: JobColumn[] = [
+  'date',
+  'no',
+  'jobSite',
+  'companyName',
+  'position',
+  'jobUrl',
+  'appliedUrl',
+  'approved',
+  'feedback',
+  'bonus',
+];
+
+/**
+ * Human-readable label for each column (matches the default header row)
+ */
+export const COLUMN_LABELS: Record<JobColumn, string> = {
+  date: 'Date',
+  no: 'No.',
+  jobSite: 'Job Site',
+  companyName: 'Company Name',
+  position: 'Position',
+  jobUrl: 'Job Url',
+  appliedUrl: 'Applied Url',
+  approved: 'Approved',
+  feedback: 'Feedback',
+  bonus: 'Bonus',
+};
+
+/**
+ * Optional columns for job details read by the analyzer; not part of the default layout
+ */
+export const DETAIL_COLUMNS: JobDetailColumn[] = ['salary', 'workplaceType', 'employmentType', 'seniority'];
+
+export const DETAIL_COLUMN_LABELS: Record<JobDetailColumn, string> = {
+  salary: 'Salary',
+  workplaceType: 'Workplace',
+  employmentType: 'Employment Type',
+  seniority: 'Seniority',
+};
+
+/**
+ * Header names recognised for each column when auto-detecting a mapping.
+ * Compared after normalizeHeader(), so case and punctuation don't matter.
+ */
+const HEADER_ALIASES: Record<JobColumn, string[]> = {
+  date: ['date', 'applied date', 'date applied', 'day'],
+  no: ['no', 'number', 'num', '#', 'index'],
+  jobSite: ['job site', 'site', 'job board', 'source', 'platform'],
+  companyName: ['company name', 'company', 'employer', 'organization'],
+  position: ['position', 'job title', 'title', 'role'],
+  jobUrl: ['job url', 'job link', 'url', 'link', 'posting url', 'job posting'],
+  appliedUrl: ['applied url', 'applied link', 'application url', 'apply url'],
+  approved: ['approved', 'approval', 'approve', 'ok'],
+  feedback: ['feedback', 'notes', 'comment', 'comments', 'remarks'],
+  bonus: ['bonus', 'bonuses', 'extra'],
+};
+
+const DETAIL_HEADER_ALIASES: Record<JobDetailColumn, string[]> = {
+  salary: ['salary', 'pay', 'pay range', 'salary range', 'compensation', 'rate'],
+  workplaceType: ['workplace', 'workplace type', 'remote', 'remote hybrid', 'remote status', 'work mode', 'location type'],
+  employmentType: ['employment type', 'job type', 'employment', 'contract type'],
+  seniority: ['seniority', 'level', 'seniority level', 'experience level'],
+};
+
+/**
+ * Converts a column letter (A, B, ..., Z, AA, ...) to a 0-based index
+ */
+export function columnLetterToIndex(letter: string): number {
+  const normalized = letter.trim().toUpperCase();
+  let index = 0;
+  for (let i = 0; i < normalized.length; i++) {
+    index = index * 26 + (normalized.charCodeAt(i) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Converts a 0-based column index to a column letter
+ */
+export function columnIndexToLetter(index: number): string {
+  let letter = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letter = String.fromCharCode(65 + remainder) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+}
+
+/**
+ * Checks that a value looks like a column letter (A–ZZZ)
+ */
+export function isValidColumnLetter(letter: string): boolean {
+  return /^[A-Za-z]{1,3}$/.test((letter || '').trim());
+}
+
+/**
+ * Fills in any missing or invalid columns of a partial mapping from the default layout
+ */
+export function resolveColumnMapping(mapping?: Partial<ColumnMapping> | null): ColumnMapping {
+  const resolved: ColumnMapping = { ...DEFAULT_COLUMN_MAPPING };
+  if (!mapping) {
+    return resolved;
+  }
+
+  for (const column of JOB_COLUMNS) {
+    const letter = mapping[column];
+    if (letter && isValidColumnLetter(letter)) {
+      resolved[column] = letter.trim().toUpperCase();
+    }
+  }
+
+  // Detail columns are dropped if they'd overwrite one of the columns above
+  const usedLetters = new Set(JOB_COLUMNS.map(column => resolved[column]));
+  for (const column of DETAIL_COLUMNS) {
+    const letter = mapping[column]?.trim().toUpperCase();
+    if (letter && isValidColumnLetter(letter) && !usedLetters.has(letter)) {
+      resolved[column] = letter;
+      usedLetters.add(letter);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Returns the A1 column range (e.g. "A:J") that covers every mapped column,
+ * always starting at A so row arrays can be indexed by columnLetterToIndex()
+ */
+export function getMappingRange(mapping: ColumnMapping): string {
+  const lastIndex = Math.max(...JOB_COLUMNS.map(column => columnLetterToIndex(mapping[column])));
+  return `A:${columnIndexToLetter(lastIndex)}`;
+}
+
+/**
+ * Reads a mapped cell from a sheet row, trimmed (sparse rows return '')
+ */
+export function getCellValue(row: unknown[] | undefined, mapping: ColumnMapping, column: JobColumn): string {
+  if (!row) return '';
+  const value = row[columnLetterToIndex(mapping[column])];
+  if (value === undefined || value === null) return '';
+  return String(value).trim();
+}
+
+/**
+ * Normalizes a header cell for comparison: lowercase, punctuation removed, single spaces
+ */
+export function normalizeHeader(header: string): string {
+  return (header || '')
+    .toLowerCase()
+    .replace(/[._:\-/()]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Checks whether a header cell matches one of the known names for a column
+ */
+export function headerMatchesColumn(header: string, column: JobColumn): boolean {
+  const normalized = normalizeHeader(header);
+  return !!normalized && HEADER_ALIASES[column].includes(normalized);
+}
+
+/**
+ * Proposes a column mapping from a header row by matching header names
+ * like "Job Url" or "Feedback". Columns that can't be matched are reported
+ * in `missing` and keep their default letter where it is still free.
+ */
+export function detectColumnMapping(headerRow: unknown[]): {
+  mapping: ColumnMapping;
+  matched: JobColumn[];
+  missing: JobColumn[];
+} {
+  const mapping: ColumnMapping = { ...DEFAULT_COLUMN_MAPPING };
+  const matched: JobColumn[] = [];
+  const usedIndexes = new Set<number>();
+
+  // Match alias by alias rank across all columns, so every canonical name ("Job Url")
+  // is claimed before a generic alias ("Url") of another column can take its cell
+  const maxAliases = Math.max(...JOB_COLUMNS.map(column => HEADER_ALIASES[column].length));
+  for (let rank = 0; rank < maxAliases; rank++) {
+    for (const column of JOB_COLUMNS) {
+      const alias = HEADER_ALIASES[column][rank];
+      if (!alias || matched.includes(column)) continue;
+
+      const index = (headerRow || []).findIndex(
+        (cell, i) => !usedIndexes.has(i) && normalizeHeader(String(cell ?? '')) === alias
+      );
+      if (index !== -1) {
+        mapping[column] = columnIndexToLetter(index);
+        matched.push(column);
+        usedIndexes.add(index);
+      }
+    }
+  }
+
+  const missing = JOB_COLUMNS.filter(column => !matched.includes(column));
+
+  // A missing column keeps its default letter unless a matched header already sits there;
+  // then it moves to the first free column after the header row so no two fields share a cell
+  const usedLetters = new Set(matched.map(column => mapping[column]));
+  let nextFreeIndex = (headerRow || []).length;
+  for (const column of missing) {
+    if (usedLetters.has(mapping[column])) {
+      while (usedLetters.has(columnIndexToLetter(nextFreeIndex))) nextFreeIndex++;
+      mapping[column] = columnIndexToLetter(nextFreeIndex);
+    }
+    usedLetters.add(mapping[column]);
+  }
+
+  // Detail columns are only mapped when the header row has them
+  for (const column of DETAIL_COLUMNS) {
+    const index = (headerRow || []).findIndex(
+      (cell, i) => !usedIndexes.has(i) && !usedLetters.has(columnIndexToLetter(i))
+        && DETAIL_HEADER_ALIASES[column].includes(normalizeHeader(String(cell ?? '')))
+    );
+    if (index !== -1) {
+      mapping[column] = columnIndexToLetter(index);
+      usedIndexes.add(index);
+    }
+  }
+
+  return { mapping, matched, missing };
+}
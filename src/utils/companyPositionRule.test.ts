@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import type { JobUrlRecord } from '../types';
+import {
+  DEFAULT_COMPANY_POSITION_RULE,
+  findCompanyPositionDuplicates,
+  getPositionSimilarity,
+  normalizeCompanyName,
+} from './companyPositionRule';
+
+const RULE = { ...DEFAULT_COMPANY_POSITION_RULE, enabled: true };
+
+const record = (rowIndex: number, companyName: string, position: string, date: string, url = `https://jobs.example.com/${rowIndex}`): JobUrlRecord => ({
+  url,
+  tabName: '01/01/2024-01/31/2024',
+  rowIndex,
+  companyName,
+  position,
+  date,
+  sourceColumn: 'F',
+});
+
+describe('normalizeCompanyName', () => {
+  it('drops case, punctuation and trailing legal suffixes', () => {
+    expect(normalizeCompanyName('Acme, Inc.')).toBe('acme');
+    expect(normalizeCompanyName('ACME Co. Ltd')).toBe('acme');
+    expect(normalizeCompanyName('  acme   gmbh ')).toBe('acme');
+  });
+
+  it('keeps suffix words that are not at the end, and never empties the name', () => {
+    expect(normalizeCompanyName('Limited Brands Group')).toBe('limited brands group');
+    expect(normalizeCompanyName('Company')).toBe('company');
+    expect(normalizeCompanyName('Inc.')).toBe('inc');
+  });
+
+  it('spells out ampersands and treats empty input as no name', () => {
+    expect(normalizeCompanyName('Procter & Gamble')).toBe(normalizeCompanyName('Procter and Gamble'));
+    expect(normalizeCompanyName('')).toBe('');
+    expect(normalizeCompanyName('--')).toBe('');
+  });
+});
+
+describe('getPositionSimilarity', () => {
+  it('treats abbreviations, spelling variants and gender markers as the same title', () => {
+    expect(getPositionSimilarity('Senior Software Engineer', 'Sr. SWE')).toBe(1);
+    expect(getPositionSimilarity('Front-end Developer', 'Frontend Dev')).toBe(1);
+    expect(getPositionSimilarity('Engineer (m/f/d)', 'Engineer')).toBe(1);
+  });
+
+  it('is the shared share of all tokens', () => {
+    expect(getPositionSimilarity('Software Engineer', 'Senior Software Engineer')).toBeCloseTo(2 / 3);
+    expect(getPositionSimilarity('Senior Frontend Engineer', 'Senior Backend Engineer')).toBe(0.5);
+    expect(getPositionSimilarity('Designer', 'Accountant')).toBe(0);
+  });
+
+  it('is 0 when either title has no words', () => {
+    expect(getPositionSimilarity('', 'Engineer')).toBe(0);
+    expect(getPositionSimilarity('The', 'Engineer')).toBe(0);
+  });
+});
+
+describe('findCompanyPositionDuplicates', () => {
+  it('groups similar positions at a company under its earliest row', () => {
+    const groups = findCompanyPositionDuplicates([
+      record(3, 'Acme, Inc.', 'Sr. Software Engineer', '01/20/2024'),
+      record(2, 'ACME LLC', 'Senior Software Engineer', '01/05/2024'),
+    ], RULE);
+
+    expect(Array.from(groups.values())).toEqual([[
+      expect.objectContaining({ rowIndex: 2, isDuplicate: false }),
+      expect.objectContaining({ rowIndex: 3, isDuplicate: true }),
+    ]]);
+  });
+
+  it('matches at the similarity threshold and not below it', () => {
+    const atThreshold = [record(2, 'Acme', 'Senior Software Engineer', '01/05/2024'), record(3, 'Acme', 'Software Engineer', '01/06/2024')];
+    expect(findCompanyPositionDuplicates(atThreshold, { ...RULE, minSimilarity: 2 / 3 }).size).toBe(1);
+
+    const belowThreshold = [record(2, 'Acme', 'Senior Frontend Engineer', '01/05/2024'), record(3, 'Acme', 'Senior Backend Engineer', '01/06/2024')];
+    expect(findCompanyPositionDuplicates(belowThreshold, RULE).size).toBe(0);
+    expect(findCompanyPositionDuplicates(belowThreshold, { ...RULE, minSimilarity: 0.5 }).size).toBe(1);
+  });
+
+  it('only groups rows added within the window of the first one', () => {
+    const entries = [record(2, 'Acme', 'Engineer', '01/01/2024'), record(3, 'Acme', 'Engineer', '01/20/2024')];
+    expect(findCompanyPositionDuplicates(entries, { ...RULE, withinDays: 30 }).size).toBe(1);
+    expect(findCompanyPositionDuplicates(entries, { ...RULE, withinDays: 7 }).size).toBe(0);
+  });
+
+  it('falls back to the tab start date when the Date column is malformed', () => {
+    const groups = findCompanyPositionDuplicates([
+      record(2, 'Acme', 'Engineer', '01/01/2024'),
+      record(3, 'Acme', 'Engineer', 'yesterday'),
+    ], RULE);
+    expect(groups.size).toBe(1);
+  });
+
+  it('leaves different companies, one-URL groups and a disabled rule alone', () => {
+    const otherCompany = [record(2, 'Acme', 'Engineer', '01/05/2024'), record(3, 'Acme Labs', 'Engineer', '01/06/2024')];
+    expect(findCompanyPositionDuplicates(otherCompany, RULE).size).toBe(0);
+
+    const sameUrl = [
+      record(2, 'Acme', 'Engineer', '01/05/2024', 'https://jobs.example.com/1'),
+      record(3, 'Acme', 'Engineer', '01/06/2024', 'https://jobs.example.com/1?utm_source=x'),
+    ];
+    expect(findCompanyPositionDuplicates(sameUrl, RULE).size).toBe(0);
+
+    const entries = [record(2, 'Acme', 'Engineer', '01/05/2024'), record(3, 'Acme', 'Engineer', '01/06/2024')];
+    expect(findCompanyPositionDuplicates(entries, DEFAULT_COMPANY_POSITION_RULE).size).toBe(0);
+  });
+
+  it("counts a row's Job Url and Applied Url as one row", () => {
+    const groups = findCompanyPositionDuplicates([
+      record(2, 'Acme', 'Engineer', '01/05/2024'),
+      { ...record(2, 'Acme', 'Engineer', '01/05/2024', 'https://apply.example.com/2'), sourceColumn: 'G' },
+    ], RULE);
+    expect(groups.size).toBe(0);
+  });
+});
@@ -0,0 +1,160 @@
+import { CompanyPositionRule, DuplicateInfo, JobUrlRecord } from '../types';
+import { isValidDateFormat, parseDate, parseTabRange } from './dateUtils';
+import { normalizeUrl } from './duplicateChecker';
+
+export const DEFAULT_COMPANY_POSITION_RULE: CompanyPositionRule = {
+  enabled: false,
+  withinDays: 30,
+  minSimilarity: 0.6,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Legal-form suffixes dropped from company names ("Acme, Inc." = "Acme")
+const COMPANY_SUFFIXES = new Set([
+  'inc', 'incorporated', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company',
+  'plc', 'gmbh', 'ag', 'sa', 'sas', 'bv', 'nv', 'pty', 'srl', 'oy', 'ab', 'as',
+]);
+
+// Words that don't distinguish one role from another
+const POSITION_STOPWORDS = new Set(['a', 'an', 'and', 'the', 'of', 'for', 'to', 'in', 'at', 'with', 'm', 'f', 'd', 'w', 'x']);
+
+// Common abbreviations expanded so "Sr. SWE" and "Senior Software Engineer" compare equal
+const POSITION_SYNONYMS: Record<string, string[]> = {
+  sr: ['senior'],
+  jr: ['junior'],
+  swe: ['software', 'engineer'],
+  sde: ['software', 'engineer'],
+  eng: ['engineer'],
+  engr: ['engineer'],
+  dev: ['developer'],
+  mgr: ['manager'],
+  fe: ['frontend'],
+  be: ['backend'],
+};
+
+/**
+ * Normalizes a company name for comparison: lowercase, punctuation and legal suffixes removed
+ */
+export function normalizeCompanyName(name: string): string {
+  const words = (name || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 0);
+
+  // Only strip suffixes from the end, and never strip the whole name
+  while (words.length > 1 && COMPANY_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+  return words.join(' ');
+}
+
+/**
+ * Splits a position title into normalized tokens, expanding common abbreviations
+ */
+export function getPositionTokens(position: string): Set<string> {
+  const tokens = new Set<string>();
+  const words = (position || '')
+    .toLowerCase()
+    .replace(/\bfront[\s-]end\b/g, 'frontend')
+    .replace(/\bback[\s-]end\b/g, 'backend')
+    .replace(/\bfull[\s-]stack\b/g, 'fullstack')
+    .split(/[^a-z0-9+#]+/)
+    .filter(word => word.length > 0 && !POSITION_STOPWORDS.has(word));
+
+  for (const word of words) {
+    for (const token of POSITION_SYNONYMS[word] || [word]) {
+      tokens.add(token);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Token-based (Jaccard) similarity between two position titles, from 0 to 1
+ */
+export function getPositionSimilarity(a: string, b: string): number {
+  const tokensA = getPositionTokens(a);
+  const tokensB = getPositionTokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) shared++;
+  }
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+/**
+ * Date a row was added: the Date column, or the tab's start date when it's empty or malformed
+ */
+function getEntryTime(entry: { date?: string; tabName: string }): number | null {
+  if (entry.date && isValidDateFormat(entry.date)) {
+    return parseDate(entry.date).getTime();
+  }
+  const tabRange = parseTabRange(entry.tabName);
+  return tabRange ? tabRange.start.getTime() : null;
+}
+
+/**
+ * Finds rows for the same company with a similar position added within rule.withinDays
+ * of the group's first row. Each group's first (earliest) row is the original.
+ * Groups whose rows all share one URL are left to the exact URL check.
+ */
+export function findCompanyPositionDuplicates(
+  allEntries: JobUrlRecord[],
+  rule: CompanyPositionRule
+): Map<string, DuplicateInfo[]> {
+  const groups = new Map<string, DuplicateInfo[]>();
+  if (!rule.enabled) {
+    return groups;
+  }
+
+  // One entry per row (the Job Url and Applied Url of a row describe the same application)
+  const rows = new Map<string, JobUrlRecord>();
+  for (const entry of allEntries) {
+    const rowKey = `${entry.accountId || ''}|${entry.tabName}!${entry.rowIndex}`;
+    if (!rows.has(rowKey) || entry.sourceColumn !== 'G') {
+      rows.set(rowKey, entry);
+    }
+  }
+
+  const sortedRows = Array.from(rows.values())
+    .map(entry => ({ entry, time: getEntryTime(entry), company: normalizeCompanyName(entry.companyName || '') }))
+    .filter(row => row.company && row.entry.position && row.time !== null)
+    .sort((a, b) => (a.time! - b.time!) || a.entry.rowIndex - b.entry.rowIndex);
+
+  const clustersByCompany = new Map<string, Array<{ originalTime: number; entries: DuplicateInfo[] }>>();
+
+  for (const { entry, time, company } of sortedRows) {
+    const clusters = clustersByCompany.get(company) || [];
+    const info: DuplicateInfo = { ...entry, isDuplicate: false };
+
+    const cluster = clusters.find(c =>
+      time! - c.originalTime <= rule.withinDays * DAY_MS &&
+      getPositionSimilarity(c.entries[0].position, entry.position) >= rule.minSimilarity
+    );
+
+    if (cluster) {
+      cluster.entries.push({ ...info, isDuplicate: true });
+    } else {
+      clusters.push({ originalTime: time!, entries: [info] });
+    }
+    clustersByCompany.set(company, clusters);
+  }
+
+  for (const [company, clusters] of clustersByCompany.entries()) {
+    clusters.forEach((cluster, index) => {
+      const distinctUrls = new Set(cluster.entries.map(e => normalizeUrl(e.url)));
+      if (cluster.entries.length > 1 && distinctUrls.size > 1) {
+        groups.set(`${company}#${index}`, cluster.entries);
+      }
+    });
+  }
+
+  return groups;
+}
@@ -1,8 +1,11 @@
-import { DuplicateInfo } from '../types';
+import { DuplicateInfo, JobUrlRecord, OriginalEntryPolicy } from '../types';
 import { parseTabRange } from './dateUtils';
+import { canonicalizeJobUrl } from './urlCanonicalizers';
 
 /**
- * Normalizes a URL for comparison by:
+ * Normalizes a URL for comparison.
+ * Known job boards (LinkedIn, Indeed, Greenhouse, ...) reduce to a stable job key
+ * such as "linkedin:123" (see urlCanonicalizers.ts); other URLs are normalized by:
  * - Removing trailing slashes
  * - Converting to lowercase
  * - Preserving important query parameters (like job IDs)
@@ -13,6 +16,11 @@ export function normalizeUrl(url: string): string {
     return '';
   }
   
+  const jobKey = canonicalizeJobUrl(url);
+  if (jobKey) {
+    return jobKey;
+  }
+  
   try {
     const urlObj = new URL(url.trim());
     
@@ -62,12 +70,67 @@ export function areUrlsDuplicate(url1: string, url2: string): boolean {
   return normalizeUrl(url1) === normalizeUrl(url2);
 }
 
+/**
+ * Orders sheet entries by when they were added:
+ * 1) Tab start date (earliest first), 2) Row index (lower first)
+ */
+function compareEntryOrder(a: { tabName: string; rowIndex: number }, b: { tabName: string; rowIndex: number }): number {
+  const tabA = parseTabRange(a.tabName);
+  const tabB = parseTabRange(b.tabName);
+  
+  // If both tabs have valid date ranges, sort by start date
+  if (tabA && tabB) {
+    const dateDiff = tabA.start.getTime() - tabB.start.getTime();
+    if (dateDiff !== 0) {
+      return dateDiff; // Earlier tab comes first
+    }
+  }
+  
+  // If same tab or invalid tab names, sort by row index (lower row = earlier)
+  return a.rowIndex - b.rowIndex;
+}
+
+/**
+ * How strongly a policy prefers an entry as the original (lower is preferred)
+ */
+function getPolicyRank(entry: JobUrlRecord, policy: OriginalEntryPolicy): number {
+  switch (policy.type) {
+    case 'approved-first':
+      // Approved with a bonus, then approved, then a bonus alone
+      return (entry.approved ? 0 : 2) + (entry.bonus ? 0 : 1);
+    case 'bidder-first':
+      return (entry.bidderName || '').trim().toLowerCase() === policy.bidderName.trim().toLowerCase() ? 0 : 1;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Orders a duplicate group so the entry the policy keeps comes first, and marks the rest.
+ * Entries the policy ranks equally stay in sheet order (earliest tab, then lowest row).
+ */
+export function orderDuplicateGroup(entries: JobUrlRecord[], policy: OriginalEntryPolicy): DuplicateInfo[] {
+  return [...entries]
+    .sort((a, b) => getPolicyRank(a, policy) - getPolicyRank(b, policy) || compareEntryOrder(a, b))
+    .map((entry, index) => ({ ...entry, isDuplicate: index > 0 }));
+}
+
+/**
+ * Makes the entry at index the original of its group; the others keep their order
+ */
+export function chooseOriginal(entries: DuplicateInfo[], index: number): DuplicateInfo[] {
+  return [entries[index], ...entries.filter((_, i) => i !== index)]
+    .map((entry, position) => ({ ...entry, isDuplicate: position > 0 }));
+}
+
 /**
  * Finds duplicates across all job entries
- * Returns a map of normalized URL to array of duplicate entries
+ * Returns a map of normalized URL to array of duplicate entries, the original first
+ * (the earliest entry unless another policy is given)
  */
 export function findDuplicates(
-  allEntries: Array<{ url: string; tabName: string; rowIndex: number; position: string; date?: string; no?: string; companyName?: string; sourceColumn?: 'F' | 'G' }>
+  allEntries: JobUrlRecord[],
+  policy: OriginalEntryPolicy = { type: 'earliest' }
 ): Map<string, DuplicateInfo[]> {
   const urlMap = new Map<string, DuplicateInfo[]>();
   
@@ -81,48 +144,17 @@ export function findDuplicates(
     }
     
     urlMap.get(normalized)!.push({
-      url: entry.url,
-      tabName: entry.tabName,
-      rowIndex: entry.rowIndex,
-      position: entry.position,
-      date: entry.date,
-      no: entry.no,
-      companyName: entry.companyName,
-      sourceColumn: entry.sourceColumn,
+      ...entry,
       isDuplicate: false, // Will be set later
     });
   }
   
-  // Mark duplicates (keep first occurrence, mark others as duplicates)
-  // Sort entries by tab date and row number to ensure earliest entry is first
+  // Mark duplicates (keep the original the policy picks, mark others as duplicates)
   const duplicates = new Map<string, DuplicateInfo[]>();
   
   for (const [normalizedUrl, entries] of urlMap.entries()) {
     if (entries.length > 1) {
-      // Sort entries to find the true first occurrence
-      // Sort by: 1) Tab start date (earliest first), 2) Row index (lower first)
-      const sortedEntries = [...entries].sort((a, b) => {
-        const tabA = parseTabRange(a.tabName);
-        const tabB = parseTabRange(b.tabName);
-        
-        // If both tabs have valid date ranges, sort by start date
-        if (tabA && tabB) {
-          const dateDiff = tabA.start.getTime() - tabB.start.getTime();
-          if (dateDiff !== 0) {
-            return dateDiff; // Earlier tab comes first
-          }
-        }
-        
-        // If same tab or invalid tab names, sort by row index (lower row = earlier)
-        return a.rowIndex - b.rowIndex;
-      });
-      
-      // Mark all but the first (earliest) as duplicates
-      const duplicateEntries = sortedEntries.map((entry, index) => ({
-        ...entry,
-        isDuplicate: index > 0,
-      }));
-      duplicates.set(normalizedUrl, duplicateEntries);
+      duplicates.set(normalizedUrl, orderDuplicateGroup(entries, policy));
     }
   }
   
@@ -160,3 +192,71 @@ export function checkUrlDuplicate(
   return { isDuplicate: false };
 }
 
+
+/**
+ * Finds probable duplicates: entries whose job content (title|company|location) matches
+ * but whose URLs differ, e.g. the same posting on LinkedIn and on the company's ATS.
+ * contentKeys maps an entry URL to its content key (see getJobContentKey).
+ * Rows that are exact URL duplicates of each other count once, so a group is only
+ * reported when it spans at least two different URLs.
+ */
+export function findContentDuplicates(
+  allEntries: JobUrlRecord[],
+  contentKeys: Map<string, string | null>
+): Map<string, DuplicateInfo[]> {
+  const contentMap = new Map<string, DuplicateInfo[]>();
+
+  for (const entry of [...allEntries].sort(compareEntryOrder)) {
+    const contentKey = contentKeys.get(entry.url);
+    if (!contentKey) continue;
+
+    const group = contentMap.get(contentKey) || [];
+    // Keep only the earliest row per URL
+    if (group.some(existing => normalizeUrl(existing.url) === normalizeUrl(entry.url))) continue;
+
+    group.push({
+      ...entry,
+      isDuplicate: group.length > 0,
+    });
+    contentMap.set(contentKey, group);
+  }
+
+  const probableDuplicates = new Map<string, DuplicateInfo[]>();
+  for (const [contentKey, entries] of contentMap.entries()) {
+    if (entries.length > 1) {
+      probableDuplicates.set(contentKey, entries);
+    }
+  }
+
+  return probableDuplicates;
+}
+
+/**
+ * Checks if a URL's job content matches an existing entry with a different URL
+ */
+export function checkContentDuplicate(
+  url: string,
+  contentKey: string | null,
+  existingEntries: Array<{ url: string; tabName: string; position: string; sourceColumn?: 'F' | 'G'; rowIndex?: number; date?: string; no?: string }>,
+  contentKeys: Map<string, string | null>
+): { tabName: string; position: string; sourceColumn?: 'F' | 'G'; rowIndex?: number; date?: string; no?: string; url: string } | null {
+  if (!contentKey) {
+    return null;
+  }
+
+  const normalized = normalizeUrl(url);
+  const match = existingEntries.find(entry =>
+    contentKeys.get(entry.url) === contentKey && normalizeUrl(entry.url) !== normalized
+  );
+  return match
+    ? {
+        tabName: match.tabName,
+        position: match.position,
+        sourceColumn: match.sourceColumn,
+        rowIndex: match.rowIndex,
+        date: match.date,
+        no: match.no,
+        url: match.url,
+      }
+    : null;
+}
@@ -3,14 +3,9 @@
  * Supports multiple job board formats
  */
 
-export interface JobInfo {
-  title?: string;
-  company?: string;
-  location?: string;
-  description?: string;
-  url: string;
-  normalizedContent?: string; // For duplicate comparison
-}
+import { JobDetailColumn, JobInfo, JobSalary, SeniorityLevel, WorkplaceType } from '../types';
+
+export type { JobInfo };
 
 /**
  * Normalizes job content for comparison
@@ -65,9 +60,176 @@ export async function analyzeJobUrl(url: string): Promise<JobInfo> {
 
     const data = await response.json();
     return data.jobInfo || { url };
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error analyzing job URL:', error);
     return { url }; // Return minimal info if analysis fails
   }
 }
 
+/**
+ * Returns the content hash used for probable-duplicate matching, or null when the page
+ * didn't yield both a title and a company (a title alone matches too many postings)
+ */
+export function getJobContentKey(jobInfo: JobInfo): string | null {
+  if (!jobInfo.title || !jobInfo.company) {
+    return null;
+  }
+  return createJobContentHash(jobInfo) || null;
+}
+
+// Analysis results for this session, keyed by URL (pages rarely change between checks)
+const analysisCache = new Map<string, JobInfo>();
+
+// Most existing rows a content check opens per click, since each one is a page fetch on the
+// server (VITE_CONTENT_CHECK_MAX_PAGES overrides it)
+export const CONTENT_CHECK_MAX_PAGES = Number(import.meta.env.VITE_CONTENT_CHECK_MAX_PAGES) || 200;
+
+/**
+ * The rows a content check compares against: the last CONTENT_CHECK_MAX_PAGES in sheet
+ * order, which are the most recent ones
+ */
+export function limitContentCheckRows<T>(rows: T[]): T[] {
+  return rows.slice(-CONTENT_CHECK_MAX_PAGES);
+}
+
+// URLs sent per batch request (the server accepts up to 25, so each request ends well within
+// the function time limit)
+const BATCH_SIZE = 25;
+
+/**
+ * Sends one batch to /api/analyze-job and calls onResult for each NDJSON line as it arrives;
+ * timedOut marks URLs the server ran out of time for
+ */
+async function streamBatchAnalysis(
+  urls: string[],
+  onResult: (url: string, jobInfo: JobInfo, timedOut: boolean) => void
+): Promise<void> {
+  const response = await fetch('/api/analyze-job', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ urls }),
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to analyze URLs: ${response.statusText}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const result = JSON.parse(line) as { url: string; success: boolean; jobInfo?: JobInfo; timedOut?: boolean };
+    onResult(result.url, result.success && result.jobInfo ? result.jobInfo : { url: result.url }, !!result.timedOut);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffered + decoder.decode());
+}
+
+/**
+ * Analyzes many URLs through the batch endpoint (which limits requests per host and caches
+ * by canonical URL), reusing results from earlier calls. Progress is reported as each URL's
+ * result streams in. Failed pages resolve to { url } so callers can skip them.
+ */
+export async function analyzeJobUrls(
+  urls: string[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Map<string, JobInfo>> {
+  const uniqueUrls = Array.from(new Set(urls.filter(url => url && url.trim())));
+  const results = new Map<string, JobInfo>();
+  let done = 0;
+
+  const addResult = (url: string, jobInfo: JobInfo) => {
+    if (results.has(url)) return;
+    results.set(url, jobInfo);
+    done++;
+    onProgress?.(done, uniqueUrls.length);
+  };
+
+  const urlsToAnalyze: string[] = [];
+  for (const url of uniqueUrls) {
+    const cached = analysisCache.get(url);
+    if (cached) {
+      addResult(url, cached);
+    } else {
+      urlsToAnalyze.push(url);
+    }
+  }
+
+  const queue = [...urlsToAnalyze];
+  const retried = new Set<string>();
+  while (queue.length > 0) {
+    const batch = queue.splice(0, BATCH_SIZE);
+    try {
+      await streamBatchAnalysis(batch, (url, jobInfo, timedOut) => {
+        // URLs the server ran out of time for are sent once more in a later batch
+        if (timedOut && !retried.has(url)) {
+          retried.add(url);
+          queue.push(url);
+          return;
+        }
+        // Only cache successful analyses so transient failures are retried next time
+        if (jobInfo.title) {
+          analysisCache.set(url, jobInfo);
+        }
+        addResult(url, jobInfo);
+      });
+    } catch (error) {
+      console.error('Error analyzing job URLs:', error);
+    }
+    // URLs the stream never reported (request failed or was cut off)
+    batch.filter(url => !queue.includes(url)).forEach(url => addResult(url, { url }));
+  }
+
+  return results;
+}
+
+export const WORKPLACE_TYPE_LABELS: Record<WorkplaceType, string> = {
+  remote: 'Remote',
+  hybrid: 'Hybrid',
+  'on-site': 'On-site',
+};
+
+export const SENIORITY_LABELS: Record<SeniorityLevel, string> = {
+  intern: 'Intern',
+  junior: 'Junior',
+  mid: 'Mid-level',
+  senior: 'Senior',
+  lead: 'Lead',
+  principal: 'Principal',
+  manager: 'Manager',
+  director: 'Director',
+  executive: 'Executive',
+};
+
+/**
+ * Formats a pay range for a sheet cell, e.g. "USD 120,000–150,000 / year" or "EUR 45 / hour"
+ */
+export function formatSalary(salary: JobSalary): string {
+  const format = (amount: number) => amount.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  const amounts = Array.from(new Set([salary.min, salary.max].filter((amount): amount is number => amount !== undefined)));
+  return [salary.currency, amounts.map(format).join('–'), salary.period && `/ ${salary.period}`].filter(Boolean).join(' ');
+}
+
+/**
+ * Values for the optional detail columns (Salary, Workplace, Employment Type, Seniority);
+ * details the page didn't give are left out
+ */
+export function getJobDetailValues(jobInfo: JobInfo): Partial<Record<JobDetailColumn, string>> {
+  const values: Partial<Record<JobDetailColumn, string>> = {};
+  if (jobInfo.salary) values.salary = formatSalary(jobInfo.salary);
+  if (jobInfo.workplaceType) values.workplaceType = WORKPLACE_TYPE_LABELS[jobInfo.workplaceType];
+  if (jobInfo.employmentType) values.employmentType = jobInfo.employmentType;
+  if (jobInfo.seniority) values.seniority = SENIORITY_LABELS[jobInfo.seniority];
+  return values;
+}
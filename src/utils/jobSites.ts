@@ -0,0 +1,51 @@
+/**
+ * Job Site names for the sheet's Job Site column, derived from a link's host
+ */
+
+const JOB_SITES: Array<{ name: string; domains: string[] }> = [
+  { name: 'LinkedIn', domains: ['linkedin.com'] },
+  { name: 'Glassdoor', domains: ['glassdoor.com'] },
+  { name: 'ZipRecruiter', domains: ['ziprecruiter.com'] },
+  { name: 'Dice', domains: ['dice.com'] },
+  { name: 'Monster', domains: ['monster.com'] },
+  { name: 'Wellfound', domains: ['wellfound.com', 'angel.co'] },
+  { name: 'Built In', domains: ['builtin.com'] },
+  { name: 'Welcome to the Jungle', domains: ['welcometothejungle.com'] },
+  { name: 'Greenhouse', domains: ['greenhouse.io'] },
+  { name: 'Lever', domains: ['lever.co'] },
+  { name: 'Workday', domains: ['myworkdayjobs.com', 'myworkdaysite.com'] },
+  { name: 'Ashby', domains: ['ashbyhq.com'] },
+  { name: 'SmartRecruiters', domains: ['smartrecruiters.com'] },
+  { name: 'BambooHR', domains: ['bamboohr.com'] },
+  { name: 'iCIMS', domains: ['icims.com'] },
+  { name: 'Workable', domains: ['workable.com'] },
+  { name: 'Jobvite', domains: ['jobvite.com'] },
+];
+
+const hostIs = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+// Indeed runs a site per country (indeed.co.uk, ca.indeed.com, ...)
+const INDEED_HOST = /(^|\.)indeed\.[a-z.]+$/;
+
+/**
+ * Job Site for a link: the board's name for known boards ("LinkedIn", "Greenhouse"), otherwise
+ * the host without "www." or a careers/jobs subdomain ("careers.acme.com" → "acme.com").
+ * Empty for links that aren't valid URLs.
+ */
+export function getJobSiteName(url: string): string {
+  let host: string;
+  try {
+    host = new URL(url.trim()).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+
+  if (INDEED_HOST.test(host)) {
+    return 'Indeed';
+  }
+  const site = JOB_SITES.find(item => item.domains.some(domain => hostIs(host, domain)));
+  if (site) {
+    return site.name;
+  }
+  return host.replace(/^(www|careers|jobs|apply)\.(?=[^.]+\.[^.]+)/, '');
+}
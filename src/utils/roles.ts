@@ -0,0 +1,19 @@
+import { UserRole } from '../types';
+
+/**
+ * Display names of the user roles
+ */
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  'bid-manager': 'Bid Manager',
+  bidder: 'Bidder',
+};
+
+/**
+ * Page each role lands on after signing in
+ */
+export const ROLE_HOME_PATHS: Record<UserRole, string> = {
+  admin: '/admin',
+  'bid-manager': '/bid-manager',
+  bidder: '/bidder',
+};
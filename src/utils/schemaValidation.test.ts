@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_COLUMN_MAPPING } from './columnSchema';
+import { findBlockedWriteRanges, gridRangeToA1, validateTabSchema } from './schemaValidation';
+
+const TAB_NAME = '01/01/2024-01/07/2024';
+const HEADERS = ['Date', 'No.', 'Job Site', 'Company Name', 'Position', 'Job Url', 'Applied Url', 'Approved', 'Feedback', 'Bonus'];
+
+const withHeader = (index: number, header: string) => HEADERS.map((cell, i) => (i === index ? header : cell));
+
+describe('validateTabSchema', () => {
+  it('accepts the default layout and header aliases in any case', () => {
+    expect(validateTabSchema({ tabName: TAB_NAME, headers: HEADERS }, DEFAULT_COLUMN_MAPPING).isValid).toBe(true);
+
+    const aliases = ['date', 'NO', 'Source', 'Company', 'Job Title', 'job-url', 'Apply URL', 'ok', 'Notes', 'Bonuses'];
+    expect(validateTabSchema({ tabName: TAB_NAME, headers: aliases }, DEFAULT_COLUMN_MAPPING).headerMismatches).toEqual([]);
+  });
+
+  it('reports empty and missing header cells', () => {
+    const report = validateTabSchema({ tabName: TAB_NAME, headers: [...withHeader(2, '  ').slice(0, 8), null] }, DEFAULT_COLUMN_MAPPING);
+    expect(report.isValid).toBe(false);
+    expect(report.headerMismatches).toEqual([
+      { column: 'jobSite', letter: 'C', expected: 'Job Site', found: '' },
+      { column: 'feedback', letter: 'I', expected: 'Feedback', found: '' },
+      { column: 'bonus', letter: 'J', expected: 'Bonus', found: '' },
+    ]);
+  });
+
+  it("reports a header repeated in another column's place", () => {
+    const report = validateTabSchema({ tabName: TAB_NAME, headers: withHeader(6, 'Job Url') }, DEFAULT_COLUMN_MAPPING);
+    expect(report.headerMismatches).toEqual([{ column: 'appliedUrl', letter: 'G', expected: 'Applied Url', found: 'Job Url' }]);
+  });
+
+  it('reads headers from the mapped columns', () => {
+    const mapping = { ...DEFAULT_COLUMN_MAPPING, jobUrl: 'G', appliedUrl: 'F' };
+    const swapped = HEADERS.map((cell, i) => (i === 5 ? 'Applied Url' : i === 6 ? 'Job Url' : cell));
+    expect(validateTabSchema({ tabName: TAB_NAME, headers: swapped }, mapping).isValid).toBe(true);
+    expect(validateTabSchema({ tabName: TAB_NAME, headers: HEADERS }, mapping).headerMismatches.map(m => m.column)).toEqual(['jobUrl', 'appliedUrl']);
+  });
+
+  it('reports tab names that are not date ranges', () => {
+    const report = validateTabSchema({ tabName: 'Archive', headers: HEADERS }, DEFAULT_COLUMN_MAPPING);
+    expect(report).toMatchObject({ validTabName: false, headerMismatches: [], isValid: false });
+  });
+
+  it('reports merges over the Approved and Feedback columns only', () => {
+    const report = validateTabSchema({
+      tabName: TAB_NAME,
+      headers: HEADERS,
+      merges: [
+        { startRowIndex: 0, endRowIndex: 1, startColumnIndex: 0, endColumnIndex: 3 },
+        { startRowIndex: 4, endRowIndex: 6, startColumnIndex: 8, endColumnIndex: 10 },
+      ],
+    }, DEFAULT_COLUMN_MAPPING);
+    expect(report.mergedRanges).toEqual(['I5:J6']);
+    expect(report.isValid).toBe(false);
+  });
+});
+
+describe('findBlockedWriteRanges', () => {
+  const approvedColumn = { startColumnIndex: 7, endColumnIndex: 8 };
+
+  it('reports protections that cover a written column', () => {
+    expect(findBlockedWriteRanges([{ range: approvedColumn }, { range: { startColumnIndex: 0, endColumnIndex: 2 } }], DEFAULT_COLUMN_MAPPING))
+      .toEqual(['H:H']);
+    expect(findBlockedWriteRanges([{ range: {} }], DEFAULT_COLUMN_MAPPING)).toEqual(['Entire sheet']);
+  });
+
+  it('ignores warnings, editable protections and columns exempted below the header', () => {
+    expect(findBlockedWriteRanges([
+      { range: approvedColumn, warningOnly: true },
+      { range: approvedColumn, requestingUserCanEdit: true },
+      { range: {}, unprotectedRanges: [{ startRowIndex: 1, startColumnIndex: 7, endColumnIndex: 9 }] },
+    ], DEFAULT_COLUMN_MAPPING)).toEqual([]);
+  });
+
+  it('still reports a protection whose exemption ends at a row', () => {
+    const partlyExempt = { range: {}, unprotectedRanges: [{ startRowIndex: 1, endRowIndex: 50, startColumnIndex: 7, endColumnIndex: 9 }] };
+    expect(findBlockedWriteRanges([partlyExempt], DEFAULT_COLUMN_MAPPING)).toEqual(['Entire sheet']);
+  });
+});
+
+describe('gridRangeToA1', () => {
+  it('formats cell, column and row ranges', () => {
+    expect(gridRangeToA1({ startRowIndex: 1, endRowIndex: 50, startColumnIndex: 7, endColumnIndex: 9 })).toBe('H2:I50');
+    expect(gridRangeToA1({ startColumnIndex: 26, endColumnIndex: 28 })).toBe('AA:AB');
+    expect(gridRangeToA1({ startRowIndex: 0, endRowIndex: 1 })).toBe('Rows 1:1');
+  });
+});
@@ -0,0 +1,135 @@
+import { ColumnMapping, HeaderMismatch, JobColumn, TabSchemaReport } from '../types';
+import { parseTabRange } from './dateUtils';
+import { COLUMN_LABELS, JOB_COLUMNS, columnIndexToLetter, columnLetterToIndex, headerMatchesColumn } from './columnSchema';
+
+/**
+ * Grid range as returned by the Sheets API (0-based, end-exclusive, missing bounds = unbounded)
+ */
+export interface GridRangeLike {
+  startRowIndex?: number | null;
+  endRowIndex?: number | null;
+  startColumnIndex?: number | null;
+  endColumnIndex?: number | null;
+}
+
+/**
+ * Protected range as returned by the Sheets API
+ */
+export interface ProtectedRangeLike {
+  range?: GridRangeLike | null;
+  unprotectedRanges?: GridRangeLike[] | null;
+  warningOnly?: boolean | null;
+  requestingUserCanEdit?: boolean | null;
+}
+
+/**
+ * Columns the app writes to when marking duplicates
+ */
+const WRITTEN_COLUMNS: JobColumn[] = ['approved', 'feedback'];
+
+/**
+ * Converts a grid range to A1 notation (e.g. "H2:I50", "H:H", or "Entire sheet")
+ */
+export function gridRangeToA1(range: GridRangeLike): string {
+  const hasColumns = range.startColumnIndex != null || range.endColumnIndex != null;
+  const hasRows = range.startRowIndex != null || range.endRowIndex != null;
+  if (!hasColumns && !hasRows) {
+    return 'Entire sheet';
+  }
+  if (!hasColumns) {
+    return `Rows ${(range.startRowIndex ?? 0) + 1}:${range.endRowIndex ?? ''}`;
+  }
+
+  const startColumn = columnIndexToLetter(range.startColumnIndex ?? 0);
+  const endColumn = range.endColumnIndex != null ? columnIndexToLetter(range.endColumnIndex - 1) : '';
+  const startRow = range.startRowIndex != null ? String(range.startRowIndex + 1) : '';
+  const endRow = range.endRowIndex != null ? String(range.endRowIndex) : '';
+  return `${startColumn}${startRow}:${endColumn}${endRow}`;
+}
+
+/**
+ * Checks whether a grid range includes the given 0-based column
+ */
+function rangeCoversColumn(range: GridRangeLike, columnIndex: number): boolean {
+  const start = range.startColumnIndex ?? 0;
+  const end = range.endColumnIndex ?? Infinity;
+  return columnIndex >= start && columnIndex < end;
+}
+
+/**
+ * Checks whether a protection stops the service account from writing data rows of a column.
+ * Warning-only protections, protections the account can edit, and columns exempted
+ * for every data row via unprotectedRanges don't block writes.
+ */
+function protectionBlocksColumn(protectedRange: ProtectedRangeLike, columnIndex: number): boolean {
+  if (protectedRange.warningOnly || protectedRange.requestingUserCanEdit) {
+    return false;
+  }
+  if (!rangeCoversColumn(protectedRange.range || {}, columnIndex)) {
+    return false;
+  }
+
+  const exempt = (protectedRange.unprotectedRanges || []).some(unprotected =>
+    rangeCoversColumn(unprotected, columnIndex) &&
+    (unprotected.startRowIndex ?? 0) <= 1 &&
+    unprotected.endRowIndex == null
+  );
+  return !exempt;
+}
+
+/**
+ * A1 ranges of the protections that stop the service account from writing the Approved/Feedback columns
+ */
+export function findBlockedWriteRanges(
+  protectedRanges: ProtectedRangeLike[] | null | undefined,
+  columnMapping: ColumnMapping
+): string[] {
+  const writtenIndexes = WRITTEN_COLUMNS.map(column => columnLetterToIndex(columnMapping[column]));
+  return (protectedRanges || [])
+    .filter(protectedRange => writtenIndexes.some(index => protectionBlocksColumn(protectedRange, index)))
+    .map(protectedRange => gridRangeToA1(protectedRange.range || {}));
+}
+
+/**
+ * Validates one tab against the expected JobEntry layout: the tab name must be a date range,
+ * each mapped column's header must match its field, and the Approved/Feedback columns
+ * must not be merged or protected (duplicate marking writes to them).
+ */
+export function validateTabSchema(
+  tab: {
+    tabName: string;
+    headers: unknown[];
+    merges?: GridRangeLike[] | null;
+    protectedRanges?: ProtectedRangeLike[] | null;
+  },
+  columnMapping: ColumnMapping
+): TabSchemaReport {
+  const validTabName = parseTabRange(tab.tabName) !== null;
+
+  const headerMismatches: HeaderMismatch[] = [];
+  for (const column of JOB_COLUMNS) {
+    const letter = columnMapping[column];
+    const cell = tab.headers[columnLetterToIndex(letter)];
+    const found = cell === undefined || cell === null ? '' : String(cell).trim();
+    if (!headerMatchesColumn(found, column)) {
+      headerMismatches.push({ column, letter, expected: COLUMN_LABELS[column], found });
+    }
+  }
+
+  const writtenIndexes = WRITTEN_COLUMNS.map(column => columnLetterToIndex(columnMapping[column]));
+
+  const mergedRanges = (tab.merges || [])
+    .filter(merge => writtenIndexes.some(index => rangeCoversColumn(merge, index)))
+    .map(gridRangeToA1);
+
+  const protectedRanges = findBlockedWriteRanges(tab.protectedRanges, columnMapping);
+
+  return {
+    tabName: tab.tabName,
+    validTabName,
+    headerMismatches,
+    mergedRanges,
+    protectedRanges,
+    isValid: validTabName && headerMismatches.length === 0 && mergedRanges.length === 0 && protectedRanges.length === 0,
+  };
+}
@@ -23,3 +23,45 @@ export function sortTabsByDate(tabNames: string[]): string[] {
   });
 }
 
+
+/**
+ * Finds the most recent tab by start date (the last tab if none are date ranges)
+ */
+export function findLatestTab(tabNames: string[]): string | null {
+  let latest: string | null = null;
+  let latestStart = -Infinity;
+
+  for (const tabName of tabNames) {
+    const range = parseTabRange(tabName);
+    if (range && range.start.getTime() > latestStart) {
+      latest = tabName;
+      latestStart = range.start.getTime();
+    }
+  }
+
+  return latest ?? (tabNames.length > 0 ? tabNames[tabNames.length - 1] : null);
+}
+
+/**
+ * Returns the sheet index at which a new date-range tab keeps the dated tabs in order:
+ * before the first tab that starts later, otherwise right after the last dated tab.
+ * tabNames must be in sheet order.
+ */
+export function getTabInsertIndex(tabNames: string[], newTabName: string): number {
+  const newRange = parseTabRange(newTabName);
+  if (!newRange) {
+    return tabNames.length;
+  }
+
+  let lastDatedIndex = -1;
+  for (let i = 0; i < tabNames.length; i++) {
+    const range = parseTabRange(tabNames[i]);
+    if (!range) continue;
+    if (range.start.getTime() > newRange.start.getTime()) {
+      return i;
+    }
+    lastDatedIndex = i;
+  }
+
+  return lastDatedIndex === -1 ? tabNames.length : lastDatedIndex + 1;
+}
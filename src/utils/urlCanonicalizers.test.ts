@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeJobUrl } from './urlCanonicalizers';
+import { normalizeUrl } from './duplicateChecker';
+
+// Each row: the URL shapes a board uses for one posting, and the key they must all reduce to
+const SAME_POSTING: Array<{ board: string; key: string; urls: string[] }> = [
+  {
+    board: 'LinkedIn',
+    key: 'linkedin:3812345678',
+    urls: [
+      'https://www.linkedin.com/jobs/view/3812345678/',
+      'https://www.linkedin.com/jobs/view/3812345678/?refId=abc&trackingId=xyz%3D%3D',
+      'https://www.linkedin.com/jobs/view/senior-software-engineer-at-acme-3812345678',
+      'https://www.linkedin.com/comm/jobs/view/3812345678?utm_source=email',
+      'https://linkedin.com/jobs/search/?currentJobId=3812345678&keywords=engineer',
+      'https://www.linkedin.com/jobs/collections/recommended/?currentJobId=3812345678',
+      'https://uk.linkedin.com/jobs/view/3812345678',
+    ],
+  },
+  {
+    board: 'Indeed',
+    key: 'indeed:5e9a1c2b3d4f6a7b',
+    urls: [
+      'https://www.indeed.com/viewjob?jk=5e9a1c2b3d4f6a7b',
+      'https://www.indeed.com/viewjob?jk=5E9A1C2B3D4F6A7B&from=serp&vjs=3',
+      'https://www.indeed.com/rc/clk?jk=5e9a1c2b3d4f6a7b&fccid=123&vjs=3',
+      'https://www.indeed.com/m/viewjob?jk=5e9a1c2b3d4f6a7b',
+      'https://www.indeed.com/jobs?q=react&l=Remote&vjk=5e9a1c2b3d4f6a7b',
+      'https://uk.indeed.com/viewjob?jk=5e9a1c2b3d4f6a7b',
+      'https://www.indeed.co.uk/viewjob?jk=5e9a1c2b3d4f6a7b',
+    ],
+  },
+  {
+    board: 'Greenhouse',
+    key: 'greenhouse:4012345005',
+    urls: [
+      'https://boards.greenhouse.io/acme/jobs/4012345005',
+      'https://boards.greenhouse.io/acme/jobs/4012345005?gh_src=abc123',
+      'https://job-boards.greenhouse.io/acme/jobs/4012345005#app',
+      'https://boards.greenhouse.io/embed/job_app?for=acme&token=4012345005',
+      'https://www.acme.com/careers/open-roles?gh_jid=4012345005',
+    ],
+  },
+  {
+    board: 'Lever',
+    key: 'lever:0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d',
+    urls: [
+      'https://jobs.lever.co/acme/0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d',
+      'https://jobs.lever.co/acme/0A1B2C3D-4E5F-4A6B-8C7D-9E0F1A2B3C4D/apply',
+      'https://jobs.lever.co/acme/0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d?lever-source=LinkedIn',
+      'https://jobs.eu.lever.co/acme/0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d',
+    ],
+  },
+  {
+    board: 'Workday',
+    key: 'workday:acme:r-01234',
+    urls: [
+      'https://acme.wd5.myworkdayjobs.com/en-US/External/job/Remote-USA/Senior-Engineer_R-01234',
+      'https://acme.wd5.myworkdayjobs.com/External/job/Remote-USA/Senior-Engineer_R-01234/apply',
+      'https://acme.wd5.myworkdayjobs.com/en-US/External/job/Remote-USA/Senior-Engineer_R-01234/apply/applyManually',
+      'https://acme.wd5.myworkdayjobs.com/External/details/Senior-Engineer_R-01234?q=engineer',
+    ],
+  },
+  {
+    board: 'Ashby',
+    key: 'ashby:1f2e3d4c-5b6a-4978-8a9b-0c1d2e3f4a5b',
+    urls: [
+      'https://jobs.ashbyhq.com/acme/1f2e3d4c-5b6a-4978-8a9b-0c1d2e3f4a5b',
+      'https://jobs.ashbyhq.com/acme/1f2e3d4c-5b6a-4978-8a9b-0c1d2e3f4a5b/application',
+      'https://jobs.ashbyhq.com/acme/1f2e3d4c-5b6a-4978-8a9b-0c1d2e3f4a5b?utm_source=linkedin',
+      'https://www.acme.com/careers?ashby_jid=1f2e3d4c-5b6a-4978-8a9b-0c1d2e3f4a5b',
+    ],
+  },
+  {
+    board: 'Welcome to the Jungle',
+    key: 'wttj:acme:senior-engineer_paris',
+    urls: [
+      'https://www.welcometothejungle.com/en/companies/acme/jobs/senior-engineer_paris',
+      'https://www.welcometothejungle.com/fr/companies/acme/jobs/senior-engineer_paris?q=abc',
+      'https://www.welcometothejungle.com/en/companies/acme/jobs/senior-engineer_paris/apply',
+    ],
+  },
+  {
+    board: 'SmartRecruiters',
+    key: 'smartrecruiters:744000012345678',
+    urls: [
+      'https://jobs.smartrecruiters.com/Acme/744000012345678-senior-engineer',
+      'https://jobs.smartrecruiters.com/Acme/744000012345678-senior-engineer?trid=abc',
+      'https://careers.smartrecruiters.com/Acme/744000012345678',
+    ],
+  },
+];
+
+// URLs on known boards that don't identify a single posting
+const NOT_A_POSTING = [
+  'https://www.linkedin.com/jobs/search/?keywords=engineer',
+  'https://www.linkedin.com/company/acme/',
+  'https://www.indeed.com/jobs?q=react&l=Remote',
+  'https://boards.greenhouse.io/acme',
+  'https://jobs.lever.co/acme',
+  'https://acme.wd5.myworkdayjobs.com/en-US/External',
+  'https://jobs.ashbyhq.com/acme',
+  'https://jobs.smartrecruiters.com/Acme',
+  'https://www.example.com/careers/senior-engineer',
+  'not a url',
+];
+
+describe('canonicalizeJobUrl', () => {
+  describe.each(SAME_POSTING)('$board', ({ key, urls }) => {
+    it.each(urls)('%s', url => {
+      expect(canonicalizeJobUrl(url)).toBe(key);
+    });
+  });
+
+  it.each(NOT_A_POSTING)('returns null for %s', url => {
+    expect(canonicalizeJobUrl(url)).toBeNull();
+  });
+
+  it('keeps postings with different IDs apart', () => {
+    expect(canonicalizeJobUrl('https://www.linkedin.com/jobs/view/3812345678')).not.toBe(
+      canonicalizeJobUrl('https://www.linkedin.com/jobs/view/3812345679')
+    );
+    // Workday requisition IDs are only unique per tenant
+    expect(canonicalizeJobUrl('https://acme.wd5.myworkdayjobs.com/External/job/NYC/Engineer_R-1')).not.toBe(
+      canonicalizeJobUrl('https://globex.wd1.myworkdayjobs.com/External/job/NYC/Engineer_R-1')
+    );
+  });
+});
+
+describe('normalizeUrl', () => {
+  it('uses the board key for known boards', () => {
+    expect(normalizeUrl('https://www.linkedin.com/jobs/view/3812345678/?trk=abc')).toBe('linkedin:3812345678');
+  });
+
+  it('drops tracking parameters and trailing slashes on other sites', () => {
+    expect(normalizeUrl('https://www.example.com/careers/123/?utm_source=x&ref=y')).toBe('https://www.example.com/careers/123');
+    expect(normalizeUrl('https://www.example.com/careers?id=123&utm_campaign=z')).toBe('https://www.example.com/careers?id=123');
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Per-job-board URL canonicalizers.
+ * Each one extracts a stable job key (e.g. "linkedin:3812345678") from the many URL shapes a
+ * board uses for the same posting, so normalizeUrl() can match them regardless of slug,
+ * search page, or apply step. URLs no canonicalizer recognises fall back to generic normalization.
+ */
+
+export interface UrlCanonicalizer {
+  name: string;
+  /** Whether this canonicalizer handles the URL's (lowercased) host */
+  matches: (host: string) => boolean;
+  /** Returns a stable job key, or null if the URL isn't a recognisable job posting */
+  canonicalize: (url: URL) => string | null;
+}
+
+/**
+ * Returns the value of a query parameter, matching the name case-insensitively
+ */
+function getParam(url: URL, name: string): string | null {
+  const lowerName = name.toLowerCase();
+  for (const [key, value] of url.searchParams.entries()) {
+    if (key.toLowerCase() === lowerName && value.trim()) {
+      return value.trim();
+    }
+  }
+  return null;
+}
+
+/**
+ * Splits a pathname into non-empty, decoded segments
+ */
+function getPathSegments(url: URL): string[] {
+  return url.pathname
+    .split('/')
+    .filter(segment => segment.length > 0)
+    .map(segment => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        return segment;
+      }
+    });
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const hostIs = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+const linkedIn: UrlCanonicalizer = {
+  name: 'LinkedIn',
+  matches: host => hostIs(host, 'linkedin.com'),
+  canonicalize: url => {
+    // /jobs/view/123, /jobs/view/some-title-at-company-123, /comm/jobs/view/123
+    const viewMatch = url.pathname.match(/\/jobs\/view\/(?:[^/]*?-)?(\d+)(?:\/|$)/i);
+    if (viewMatch) {
+      return `linkedin:${viewMatch[1]}`;
+    }
+    // /jobs/search/?currentJobId=123, /jobs/collections/recommended/?currentJobId=123
+    const jobId = getParam(url, 'currentJobId') || getParam(url, 'jobId');
+    return jobId && /^\d+$/.test(jobId) ? `linkedin:${jobId}` : null;
+  },
+};
+
+const indeed: UrlCanonicalizer = {
+  name: 'Indeed',
+  // www.indeed.com, uk.indeed.com, indeed.co.uk, ca.indeed.com, ...
+  matches: host => /(^|\.)indeed\.[a-z.]+$/.test(host),
+  canonicalize: url => {
+    // /viewjob?jk=..., /rc/clk?jk=..., /m/viewjob?jk=..., /jobs?q=...&vjk=...
+    const jobKey = getParam(url, 'jk') || getParam(url, 'vjk');
+    return jobKey && /^[0-9a-f]+$/i.test(jobKey) ? `indeed:${jobKey.toLowerCase()}` : null;
+  },
+};
+
+const greenhouse: UrlCanonicalizer = {
+  name: 'Greenhouse',
+  matches: host => hostIs(host, 'greenhouse.io'),
+  canonicalize: url => {
+    // boards.greenhouse.io/{board}/jobs/{id}, job-boards.greenhouse.io/{board}/jobs/{id}
+    const jobsMatch = url.pathname.match(/\/jobs\/(\d+)(?:\/|$)/);
+    if (jobsMatch) {
+      return `greenhouse:${jobsMatch[1]}`;
+    }
+    // boards.greenhouse.io/embed/job_app?for={board}&token={id}
+    const token = getParam(url, 'token') || getParam(url, 'gh_jid');
+    return token && /^\d+$/.test(token) ? `greenhouse:${token}` : null;
+  },
+};
+
+const lever: UrlCanonicalizer = {
+  name: 'Lever',
+  matches: host => hostIs(host, 'lever.co'),
+  canonicalize: url => {
+    // jobs.lever.co/{company}/{uuid}, jobs.lever.co/{company}/{uuid}/apply
+    const postingId = getPathSegments(url).find(segment => UUID_PATTERN.test(segment));
+    return postingId ? `lever:${postingId.toLowerCase()}` : null;
+  },
+};
+
+const workday: UrlCanonicalizer = {
+  name: 'Workday',
+  matches: host => hostIs(host, 'myworkdayjobs.com') || hostIs(host, 'myworkdaysite.com'),
+  canonicalize: url => {
+    // {tenant}.wd5.myworkdayjobs.com/en-US/{site}/job/{location}/{Title}_{ReqId}[/apply/...]
+    // {tenant}.wd5.myworkdayjobs.com/{site}/details/{Title}_{ReqId}
+    const tenant = url.hostname.toLowerCase().split('.')[0];
+    const segments = getPathSegments(url);
+    const start = segments.findIndex(segment => segment === 'job' || segment === 'details');
+    if (start === -1) return null;
+
+    const applyIndex = segments.indexOf('apply', start);
+    const jobSegments = segments.slice(start + 1, applyIndex === -1 ? undefined : applyIndex);
+    const last = jobSegments[jobSegments.length - 1];
+    const reqMatch = last?.match(/_([A-Za-z0-9-]+)$/);
+    return reqMatch ? `workday:${tenant}:${reqMatch[1].toLowerCase()}` : null;
+  },
+};
+
+const ashby: UrlCanonicalizer = {
+  name: 'Ashby',
+  matches: host => hostIs(host, 'ashbyhq.com'),
+  canonicalize: url => {
+    // jobs.ashbyhq.com/{company}/{uuid}, jobs.ashbyhq.com/{company}/{uuid}/application
+    const postingId = getPathSegments(url).find(segment => UUID_PATTERN.test(segment)) || getParam(url, 'ashby_jid');
+    return postingId && UUID_PATTERN.test(postingId) ? `ashby:${postingId.toLowerCase()}` : null;
+  },
+};
+
+const welcomeToTheJungle: UrlCanonicalizer = {
+  name: 'Welcome to the Jungle',
+  matches: host => hostIs(host, 'welcometothejungle.com'),
+  canonicalize: url => {
+    const segments = getPathSegments(url).map(segment => segment.toLowerCase());
+    // www.welcometothejungle.com/{lang}/companies/{company}/jobs/{slug}[/apply]
+    const companiesIndex = segments.indexOf('companies');
+    if (companiesIndex !== -1 && segments[companiesIndex + 2] === 'jobs' && segments[companiesIndex + 3]) {
+      return `wttj:${segments[companiesIndex + 1]}:${segments[companiesIndex + 3]}`;
+    }
+    // app.welcometothejungle.com/jobs/{id}
+    const jobsIndex = segments.indexOf('jobs');
+    if (companiesIndex === -1 && jobsIndex !== -1 && segments[jobsIndex + 1]) {
+      return `wttj:${segments[jobsIndex + 1]}`;
+    }
+    return null;
+  },
+};
+
+const smartRecruiters: UrlCanonicalizer = {
+  name: 'SmartRecruiters',
+  matches: host => hostIs(host, 'smartrecruiters.com'),
+  canonicalize: url => {
+    // jobs.smartrecruiters.com/{Company}/{id}-{title-slug}, careers.smartrecruiters.com/{Company}/{id}
+    for (const segment of getPathSegments(url)) {
+      const idMatch = segment.match(/^(\d{9,})(?:-|$)/);
+      if (idMatch) {
+        return `smartrecruiters:${idMatch[1]}`;
+      }
+    }
+    return null;
+  },
+};
+
+/**
+ * Company career sites that embed a board's posting identify it with a query parameter
+ * (e.g. example.com/careers?gh_jid=123), so these apply to any host
+ */
+const embeddedBoardParams: UrlCanonicalizer = {
+  name: 'Embedded job board',
+  matches: () => true,
+  canonicalize: url => {
+    const greenhouseId = getParam(url, 'gh_jid');
+    if (greenhouseId && /^\d+$/.test(greenhouseId)) {
+      return `greenhouse:${greenhouseId}`;
+    }
+    const ashbyId = getParam(url, 'ashby_jid');
+    if (ashbyId && UUID_PATTERN.test(ashbyId)) {
+      return `ashby:${ashbyId.toLowerCase()}`;
+    }
+    return null;
+  },
+};
+
+const canonicalizers: UrlCanonicalizer[] = [
+  linkedIn,
+  indeed,
+  greenhouse,
+  lever,
+  workday,
+  ashby,
+  welcomeToTheJungle,
+  smartRecruiters,
+  embeddedBoardParams,
+];
+
+/**
+ * Adds a canonicalizer ahead of the built-in ones
+ */
+export function registerUrlCanonicalizer(canonicalizer: UrlCanonicalizer): void {
+  canonicalizers.unshift(canonicalizer);
+}
+
+/**
+ * Returns the stable job key for a job board URL, or null if no canonicalizer recognises it
+ */
+export function canonicalizeJobUrl(url: string): string | null {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url.trim());
+  } catch {
+    return null;
+  }
+
+  const host = urlObj.hostname.toLowerCase();
+  for (const canonicalizer of canonicalizers) {
+    if (!canonicalizer.matches(host)) continue;
+    const key = canonicalizer.canonicalize(urlObj);
+    if (key) {
+      return key;
+    }
+  }
+
+  return null;
+}
@@ -4,6 +4,7 @@ interface ImportMetaEnv {
   readonly VITE_GOOGLE_SERVICE_ACCOUNT_KEY: string
   readonly VITE_SPREADSHEET_ID: string
   readonly VITE_GOOGLE_CLIENT_ID: string
+  readonly VITE_CONTENT_CHECK_MAX_PAGES?: string
 }
 
 interface ImportMeta {